@@ -0,0 +1,44 @@
+import { mkdir, mkdtemp, realpath, rm, symlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { sandboxPath } from './executorBridge';
+
+describe('sandboxPath', () => {
+  let root: string;
+  let sandbox: string;
+
+  beforeAll(async () => {
+    root = await realpath(await mkdtemp(path.join(tmpdir(), 'gradle-flow-')));
+    sandbox = path.join(root, 'sandbox');
+    await mkdir(path.join(sandbox, 'build'), { recursive: true });
+    await mkdir(path.join(root, 'outside'));
+    await symlink(path.join(root, 'outside'), path.join(sandbox, 'escape'));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('resolves paths inside the sandbox, including ones that do not exist yet', async () => {
+    await expect(sandboxPath(sandbox, '.')).resolves.toBe(sandbox);
+    await expect(sandboxPath(sandbox, 'build/libs/app.jar')).resolves.toBe(path.join(sandbox, 'build', 'libs', 'app.jar'));
+    await expect(sandboxPath(sandbox, 'build/../docs')).resolves.toBe(path.join(sandbox, 'docs'));
+  });
+
+  it('refuses relative paths that climb out of the sandbox', async () => {
+    await expect(sandboxPath(sandbox, '../outside/file.txt')).rejects.toThrow(
+      'Path ../outside/file.txt is outside the sandbox directory'
+    );
+    await expect(sandboxPath(sandbox, 'build/../../sandbox-other')).rejects.toThrow(/outside the sandbox/);
+  });
+
+  it('refuses absolute paths outside the sandbox', async () => {
+    await expect(sandboxPath(sandbox, path.join(root, 'outside'))).rejects.toThrow(/outside the sandbox/);
+  });
+
+  it('refuses paths that leave the sandbox through a symlink', async () => {
+    await expect(sandboxPath(sandbox, 'escape')).rejects.toThrow(/outside the sandbox/);
+    await expect(sandboxPath(sandbox, 'escape/new/file.txt')).rejects.toThrow(/outside the sandbox/);
+  });
+});
@@ -0,0 +1,387 @@
+import { spawn } from 'node:child_process';
+import { cp, mkdir, readFile, readdir, realpath, rm, stat, writeFile } from 'node:fs/promises';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { deflateRawSync } from 'node:zlib';
+import type { Plugin } from 'vite';
+
+/**
+ * Endpoint the editor posts tasks to (LOCAL_BRIDGE_ENDPOINT in src/utils/localBridgeUtils.ts)
+ */
+const BRIDGE_ENDPOINT = '/__gradle-flow/execute';
+
+export interface ExecutorBridgeOptions {
+  /** Directory tasks run in and the only place files are touched, relative to the project root */
+  sandboxDir?: string;
+}
+
+interface BridgeRequest {
+  taskName: string;
+  taskType: string;
+  config: Record<string, unknown>;
+}
+
+type Emit = (stream: 'stdout' | 'stderr', text: string) => void;
+
+/**
+ * Host names the bridge answers on; anything else may be a DNS-rebinding attempt
+ */
+const LOOPBACK_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * Vite dev-server plugin that runs Exec, Copy, Delete and Zip tasks for the editor's
+ * local execution backend. Output is streamed back as newline-delimited JSON.
+ * Since it runs arbitrary commands, vite.config.ts only registers it when asked to.
+ */
+export function executorBridge(options: ExecutorBridgeOptions = {}): Plugin {
+  return {
+    name: 'gradle-flow-executor-bridge',
+    apply: 'serve',
+    configureServer(server) {
+      const sandbox = path.resolve(server.config.root, options.sandboxDir ?? '.gradle-flow/sandbox');
+
+      server.middlewares.use(BRIDGE_ENDPOINT, (req, res) => {
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+        const rejection = rejectRequest(req, server.config.server.host);
+        if (rejection) {
+          server.config.logger.warn(`[executor-bridge] Rejected request: ${rejection}`);
+          res.statusCode = 403;
+          res.end(rejection);
+          return;
+        }
+        handleRequest(req, res, sandbox).catch((error) => {
+          server.config.logger.error(`[executor-bridge] ${error instanceof Error ? error.message : String(error)}`);
+          if (!res.writableEnded) res.end();
+        });
+      });
+    },
+  };
+}
+
+function hostnameOf(host: string): string {
+  try {
+    return new URL(`http://${host}`).hostname;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Why a request must not be served, or null when it comes from the editor itself.
+ * Cross-site pages can send "simple" text/plain POSTs without a CORS preflight, so the
+ * JSON content type is required, and the Origin must be the dev server the Host names.
+ */
+function rejectRequest(req: IncomingMessage, configuredHost: string | boolean | undefined): string | null {
+  const contentType = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+  if (contentType !== 'application/json') return 'Content-Type must be application/json';
+
+  const host = req.headers.host;
+  if (!host) return 'Missing Host header';
+  const hostname = hostnameOf(host);
+  if (!LOOPBACK_HOSTNAMES.has(hostname) && !(typeof configuredHost === 'string' && hostname === configuredHost)) {
+    return `Host ${host} is not the dev server`;
+  }
+
+  const origin = req.headers.origin;
+  if (!origin) return 'Missing Origin header';
+  try {
+    if (new URL(origin).host !== host) return `Origin ${origin} does not match the dev server`;
+  } catch {
+    return `Invalid Origin ${origin}`;
+  }
+  return null;
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse, sandbox: string): Promise<void> {
+  let request: BridgeRequest;
+  try {
+    request = JSON.parse(await readBody(req)) as BridgeRequest;
+  } catch {
+    res.statusCode = 400;
+    res.end('Invalid JSON');
+    return;
+  }
+
+  // The client aborting the fetch closes the connection: cancel the task
+  const abortController = new AbortController();
+  res.on('close', () => abortController.abort());
+
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  const send = (message: Record<string, unknown>) => {
+    if (!res.writableEnded) res.write(`${JSON.stringify(message)}\n`);
+  };
+  const emit: Emit = (stream, text) => send({ type: 'output', stream, text });
+
+  await mkdir(sandbox, { recursive: true });
+  try {
+    await runTask(request, await realpath(sandbox), emit, abortController.signal);
+    send({ type: 'done', success: true });
+  } catch (error) {
+    send({ type: 'done', success: false, error: error instanceof Error ? error.message : String(error) });
+  }
+  res.end();
+}
+
+async function runTask(request: BridgeRequest, sandbox: string, emit: Emit, signal: AbortSignal): Promise<void> {
+  const config = request.config ?? {};
+  emit('stdout', `> Task :${request.taskName}`);
+
+  switch (request.taskType) {
+    case 'Exec':
+      return runExec(config, sandbox, emit, signal);
+    case 'Copy':
+      return runCopy(config, sandbox, emit);
+    case 'Delete':
+      return runDelete(config, sandbox, emit);
+    case 'Zip':
+      return runZip(config, sandbox, emit);
+    default:
+      throw new Error(`${request.taskType} tasks cannot run on the local bridge`);
+  }
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item !== '') : [];
+}
+
+function isInside(directory: string, target: string): boolean {
+  return target === directory || target.startsWith(directory + path.sep);
+}
+
+/**
+ * Real path of a file that may not exist yet: symlinks are resolved up to the deepest existing parent
+ */
+async function realpathOfPossiblyMissing(target: string): Promise<string> {
+  const missing: string[] = [];
+  let existing = target;
+  for (;;) {
+    try {
+      return path.join(await realpath(existing), ...missing);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      const parent = path.dirname(existing);
+      if (parent === existing) return target;
+      missing.unshift(path.basename(existing));
+      existing = parent;
+    }
+  }
+}
+
+/**
+ * Resolve a task path inside the (real path of the) sandbox, refusing anything that escapes
+ * it, including through symlinks
+ */
+export async function sandboxPath(sandbox: string, relativePath: string): Promise<string> {
+  const resolved = path.resolve(sandbox, relativePath);
+  const real = isInside(sandbox, resolved) ? await realpathOfPossiblyMissing(resolved) : resolved;
+  if (!isInside(sandbox, real)) {
+    throw new Error(`Path ${relativePath} is outside the sandbox directory`);
+  }
+  return real;
+}
+
+async function runExec(config: Record<string, unknown>, sandbox: string, emit: Emit, signal: AbortSignal): Promise<void> {
+  const [command, ...commandArgs] = [...stringList(config.commandLine), ...stringList(config.args)];
+  if (!command) throw new Error('No command line configured');
+
+  const cwd = await sandboxPath(sandbox, typeof config.workingDir === 'string' ? config.workingDir : '.');
+  await mkdir(cwd, { recursive: true });
+  const environment = (config.environment && typeof config.environment === 'object' ? config.environment : {}) as Record<string, string>;
+
+  const exitCode = await new Promise<number | null>((resolve, reject) => {
+    const child = spawn(command, commandArgs, { cwd, env: { ...process.env, ...environment }, signal });
+    const forward = (stream: 'stdout' | 'stderr') => {
+      let pending = '';
+      return (chunk: Buffer) => {
+        const lines = (pending + chunk.toString('utf8')).split('\n');
+        pending = lines.pop()!;
+        lines.forEach((line) => emit(stream, line));
+      };
+    };
+    child.stdout.on('data', forward('stdout'));
+    child.stderr.on('data', forward('stderr'));
+    child.on('error', (error) => reject(signal.aborted ? new Error('Cancelled') : error));
+    child.on('close', (code) => resolve(code));
+  });
+
+  if (exitCode !== 0 && config.ignoreExitValue !== true) {
+    throw new Error(`Process '${command}' finished with non-zero exit value ${exitCode}`);
+  }
+}
+
+/**
+ * Convert an Ant-style pattern (`**`, `*`, `?`) to a regular expression
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('**/')
+    .map((part) =>
+      part
+        .split('**')
+        .map((piece) => piece.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+        .join('.*')
+    )
+    .join('(?:.*/)?');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Files below the task's source paths, as absolute path plus path inside the copy or archive
+ */
+async function collectFiles(
+  config: Record<string, unknown>,
+  sandbox: string
+): Promise<{ absolute: string; relative: string }[]> {
+  const includes = stringList(config.include).map(patternToRegExp);
+  const excludes = stringList(config.exclude).map(patternToRegExp);
+  const accept = (relative: string) =>
+    (includes.length === 0 || includes.some((re) => re.test(relative))) && !excludes.some((re) => re.test(relative));
+
+  const files: { absolute: string; relative: string }[] = [];
+  const walk = async (directory: string, prefix: string) => {
+    for (const entry of await readdir(directory, { withFileTypes: true })) {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      const absolute = path.join(directory, entry.name);
+      if (entry.isDirectory()) await walk(absolute, relative);
+      else if (entry.isFile() && accept(relative)) files.push({ absolute, relative });
+    }
+  };
+
+  for (const source of stringList(config.from)) {
+    const absolute = await sandboxPath(sandbox, source);
+    const info = await stat(absolute).catch(() => null);
+    if (!info) throw new Error(`Source path ${source} does not exist`);
+    // Like Gradle, a directory contributes its contents, a file itself
+    if (info.isDirectory()) await walk(absolute, '');
+    else if (accept(path.basename(absolute))) files.push({ absolute, relative: path.basename(absolute) });
+  }
+  return files;
+}
+
+/**
+ * Apply the duplicates strategy; like Gradle, duplicates are included unless told otherwise
+ */
+function applyDuplicatesStrategy<T extends { relative: string }>(files: T[], strategy: unknown, emit: Emit): T[] {
+  const seen = new Set<string>();
+  return files.filter((file) => {
+    if (!seen.has(file.relative)) {
+      seen.add(file.relative);
+      return true;
+    }
+    if (strategy === 'FAIL') throw new Error(`Duplicate path ${file.relative}`);
+    if (strategy === 'WARN') emit('stderr', `Duplicate path ${file.relative}`);
+    return strategy !== 'EXCLUDE';
+  });
+}
+
+async function runCopy(config: Record<string, unknown>, sandbox: string, emit: Emit): Promise<void> {
+  if (typeof config.into !== 'string' || !config.into) throw new Error('No destination configured');
+  const into = await sandboxPath(sandbox, config.into);
+  const files = applyDuplicatesStrategy(await collectFiles(config, sandbox), config.duplicatesStrategy, emit);
+
+  for (const file of files) {
+    await cp(file.absolute, path.join(into, file.relative), { preserveTimestamps: config.preserveFileTimestamps !== false });
+  }
+  emit('stdout', `Copied ${files.length} file(s) into ${config.into}`);
+}
+
+async function runDelete(config: Record<string, unknown>, sandbox: string, emit: Emit): Promise<void> {
+  const targets = stringList(config.delete);
+  if (targets.length === 0) throw new Error('No paths to delete configured');
+
+  for (const target of targets) {
+    const absolute = await sandboxPath(sandbox, target);
+    if (absolute === sandbox) throw new Error('Refusing to delete the sandbox directory itself');
+    const existed = await stat(absolute).then(() => true, () => false);
+    await rm(absolute, { recursive: true, force: true });
+    emit('stdout', existed ? `Deleted ${target}` : `${target} did not exist`);
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a zip archive (deflate, no zip64) from in-memory entries
+ */
+function createZip(entries: { name: string; data: Buffer }[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data }) => {
+    const fileName = Buffer.from(name, 'utf8');
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    localParts.push(local, fileName, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, fileName);
+
+    offset += local.length + fileName.length + compressed.length;
+  });
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, ...centralParts, end]);
+}
+
+async function runZip(config: Record<string, unknown>, sandbox: string, emit: Emit): Promise<void> {
+  const fileName = typeof config.archiveFileName === 'string' && config.archiveFileName ? config.archiveFileName : 'archive.zip';
+  const directory = typeof config.destinationDirectory === 'string' && config.destinationDirectory
+    ? config.destinationDirectory
+    : 'build/distributions';
+  // The file name may itself hold a path, so the archive as a whole is checked against the sandbox
+  const archive = await sandboxPath(sandbox, path.join(directory, fileName));
+  const files = applyDuplicatesStrategy(await collectFiles(config, sandbox), config.duplicatesStrategy, emit);
+
+  const entries = await Promise.all(files.map(async (file) => ({ name: file.relative, data: await readFile(file.absolute) })));
+  await mkdir(path.dirname(archive), { recursive: true });
+  await writeFile(archive, createZip(entries));
+  emit('stdout', `Created ${path.relative(sandbox, archive)} with ${files.length} file(s)`);
+}
@@ -0,0 +1,108 @@
+import { useMemo } from 'react';
+import { Archive, ChevronDown, ChevronRight, Trash2 } from 'lucide-react';
+import { formatDuration } from '../utils/executionUtils';
+import { getCacheHitRate, type BuildCache } from '../utils/buildCacheUtils';
+
+interface BuildCachePanelProps {
+  cache: BuildCache;
+  isRunning: boolean;
+  onClean: () => void;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+}
+
+export function BuildCachePanel({
+  cache,
+  isRunning,
+  onClean,
+  isExpanded,
+  onToggleExpanded,
+}: BuildCachePanelProps) {
+  const entries = useMemo(
+    () => [...cache.entries.values()].sort((a, b) => (b.lastUsedAt ?? b.createdAt) - (a.lastUsedAt ?? a.createdAt)),
+    [cache.entries]
+  );
+  const hitRate = getCacheHitRate(cache.runs);
+
+  return (
+    <div className="build-cache-panel">
+      <button className="build-cache-header" onClick={onToggleExpanded}>
+        {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        <Archive size={16} />
+        <span className="build-cache-title">Build Cache</span>
+        <span className="build-cache-count">{cache.entries.size}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="build-cache-content">
+          <div className="build-cache-summary">
+            <span>
+              {hitRate === null
+                ? 'No cacheable tasks have run yet'
+                : `Hit rate ${Math.round(hitRate * 100)}% over the last ${cache.runs.length} run(s)`}
+            </span>
+            <button
+              className="execution-btn danger"
+              onClick={onClean}
+              disabled={isRunning || cache.entries.size === 0}
+              title="Remove every cache entry"
+            >
+              <Trash2 size={14} />
+              Clean Cache
+            </button>
+          </div>
+
+          {/* Hit and miss counts per run */}
+          {cache.runs.length > 0 && (
+            <table className="build-cache-runs">
+              <thead>
+                <tr>
+                  <th>Run</th>
+                  <th>Hits</th>
+                  <th>Misses</th>
+                  <th>Stored</th>
+                  <th>Saved</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cache.runs.map((run) => (
+                  <tr key={run.startTime}>
+                    <td>{new Date(run.startTime).toLocaleTimeString()}</td>
+                    <td>{run.hits}</td>
+                    <td>{run.misses}</td>
+                    <td>{run.stored}</td>
+                    <td>{formatDuration(run.timeSaved)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {/* Entries */}
+          {entries.length === 0 ? (
+            <div className="build-cache-empty">
+              Mark tasks with outputs as cacheable to store them here
+            </div>
+          ) : (
+            <ul className="build-cache-entries">
+              {entries.map((entry) => (
+                <li key={entry.key} className="build-cache-entry" title={entry.outputs.join('\n')}>
+                  <div className="build-cache-entry-header">
+                    <span className="build-cache-entry-task">{entry.taskName}</span>
+                    <span className="build-cache-entry-hits">
+                      {entry.hits} hit{entry.hits === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                  <div className="build-cache-entry-meta">
+                    <code>{entry.key}</code>
+                    <span>{formatDuration(entry.duration)}</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { Panel } from '@xyflow/react';
+import { FileInput, FolderOpen, ImageDown, Layers, Link, Route, Save, SaveAll } from 'lucide-react';
+import type { AutosaveStatus } from '../utils/workspaceUtils';
+
+interface CanvasToolbarProps {
+  documentName: string;
+  autosaveStatus: AutosaveStatus;
+  onOpenWorkspaces: () => void;
+  onOpen: () => void;
+  onSave: () => void;
+  onSaveAs: () => void;
+  onImport: () => void;
+  onExportImage: () => void;
+  onShareLink: () => void;
+  showCriticalPath: boolean;
+  onToggleCriticalPath: () => void;
+}
+
+/**
+ * Describe the autosave state for the toolbar
+ */
+function autosaveLabel(status: AutosaveStatus): { text: string; title?: string } {
+  switch (status.state) {
+    case 'saving':
+      return { text: 'Saving…' };
+    case 'saved':
+      return { text: `Autosaved ${new Date(status.savedAt).toLocaleTimeString()}` };
+    case 'error':
+      return { text: 'Autosave unavailable', title: status.message };
+    case 'idle':
+    default:
+      return { text: '' };
+  }
+}
+
+/**
+ * Floating toolbar with graph-level actions, shown in the corner of the canvas
+ */
+export function CanvasToolbar({
+  documentName,
+  autosaveStatus,
+  onOpenWorkspaces,
+  onOpen,
+  onSave,
+  onSaveAs,
+  onImport,
+  onExportImage,
+  onShareLink,
+  showCriticalPath,
+  onToggleCriticalPath,
+}: CanvasToolbarProps) {
+  const autosave = autosaveLabel(autosaveStatus);
+
+  return (
+    <Panel position="top-right" className="canvas-toolbar">
+      <button className="canvas-toolbar-btn" onClick={onOpenWorkspaces} title="Manage workspaces">
+        <Layers size={14} />
+        <span className="canvas-toolbar-title">{documentName}</span>
+      </button>
+      {autosave.text && (
+        <span className={`canvas-toolbar-status ${autosaveStatus.state}`} title={autosave.title}>
+          {autosave.text}
+        </span>
+      )}
+      <span className="canvas-toolbar-divider" />
+      <button className="canvas-toolbar-btn" onClick={onOpen} title="Open a graph file (Ctrl+O)">
+        <FolderOpen size={14} />
+        Open
+      </button>
+      <button className="canvas-toolbar-btn" onClick={onSave} title="Save (Ctrl+S)">
+        <Save size={14} />
+        Save
+      </button>
+      <button className="canvas-toolbar-btn" onClick={onSaveAs} title="Save as a new file (Ctrl+Shift+S)">
+        <SaveAll size={14} />
+        Save As
+      </button>
+      <span className="canvas-toolbar-divider" />
+      <button className="canvas-toolbar-btn" onClick={onImport} title="Import a task graph">
+        <FileInput size={14} />
+        Import
+      </button>
+      <button className="canvas-toolbar-btn" onClick={onExportImage} title="Export as SVG or PNG">
+        <ImageDown size={14} />
+        Image
+      </button>
+      <button className="canvas-toolbar-btn" onClick={onShareLink} title="Copy a link that opens this graph">
+        <Link size={14} />
+        Share
+      </button>
+      <span className="canvas-toolbar-divider" />
+      <button
+        className={`canvas-toolbar-btn ${showCriticalPath ? 'active' : ''}`}
+        onClick={onToggleCriticalPath}
+        title="Highlight the chain of tasks that determines the build time"
+      >
+        <Route size={14} />
+        Critical Path
+      </button>
+    </Panel>
+  );
+}
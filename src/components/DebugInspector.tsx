@@ -0,0 +1,115 @@
+import { Bug, CheckCircle, XCircle } from 'lucide-react';
+import type { GradleTaskNode, Variable } from '../types/gradle';
+import { evaluateCondition, formatCondition, shouldExecuteTask } from '../utils/conditionUtils';
+import { findVariablesInObject, resolveConfigVariables } from '../utils/variableUtils';
+
+interface DebugInspectorProps {
+  node: GradleTaskNode;
+  variables: Variable[];
+  onVariablesChange: (variables: Variable[]) => void;
+}
+
+function formatConfigValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * What the debugger shows for the task a run is paused before: its configuration with
+ * variables substituted, how its condition evaluates, and the variables to edit before continuing
+ */
+export function DebugInspector({ node, variables, onVariablesChange }: DebugInspectorProps) {
+  const config = (node.data.config ?? {}) as Record<string, unknown>;
+  const resolved = resolveConfigVariables(config, variables) as Record<string, unknown>;
+  const condition = node.data.condition;
+  const decision = shouldExecuteTask(condition, variables);
+
+  // Variables the task refers to come first
+  const used = new Set([
+    ...findVariablesInObject(config),
+    ...(condition?.conditions ?? []).flatMap((c) => [
+      c.leftSource === 'variable' ? c.leftValue : '',
+      c.rightSource === 'variable' ? (c.rightValue ?? '') : '',
+    ]),
+  ]);
+  const editableVariables = variables
+    .filter((v) => !v.isSystem)
+    .map((v) => ({ variable: v, isUsed: used.has(v.name) }))
+    .sort((a, b) => Number(b.isUsed) - Number(a.isUsed));
+
+  const handleValueChange = (id: string, value: string) => {
+    onVariablesChange(variables.map((v) => (v.id === id ? { ...v, value } : v)));
+  };
+
+  return (
+    <div className="debug-inspector">
+      <div className="debug-inspector-title">
+        <Bug size={14} />
+        Paused before <strong>{node.data.taskName}</strong>
+        <span className="debug-inspector-type">{node.data.taskType}</span>
+      </div>
+
+      {/* Condition evaluation */}
+      <div className="debug-inspector-section">
+        <div className="debug-inspector-heading">Condition</div>
+        {condition && condition.conditions.length > 0 ? (
+          <ul className="debug-condition-list">
+            {condition.conditions.map((c) => {
+              const result = evaluateCondition(c, variables);
+              return (
+                <li key={c.id} className={result ? 'true' : 'false'}>
+                  {result ? <CheckCircle size={12} /> : <XCircle size={12} />}
+                  <code>{formatCondition(c)}</code>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className="debug-inspector-empty">No onlyIf/skipIf condition</div>
+        )}
+        <div className={`debug-decision ${decision.execute ? 'run' : 'skip'}`}>
+          {decision.execute ? 'The task will run' : `The task will be skipped: ${decision.reason}`}
+        </div>
+      </div>
+
+      {/* Resolved configuration */}
+      <div className="debug-inspector-section">
+        <div className="debug-inspector-heading">Resolved configuration</div>
+        {Object.keys(resolved).length === 0 ? (
+          <div className="debug-inspector-empty">No configuration</div>
+        ) : (
+          <dl className="debug-config">
+            {Object.entries(resolved).map(([key, value]) => {
+              const raw = formatConfigValue(config[key]);
+              const text = formatConfigValue(value);
+              return (
+                <div key={key} className="debug-config-row" title={raw !== text ? `Declared as ${raw}` : undefined}>
+                  <dt>{key}</dt>
+                  <dd className={raw !== text ? 'substituted' : undefined}>{text}</dd>
+                </div>
+              );
+            })}
+          </dl>
+        )}
+      </div>
+
+      {/* Variables, editable before continuing */}
+      <div className="debug-inspector-section">
+        <div className="debug-inspector-heading">Variables</div>
+        {editableVariables.length === 0 ? (
+          <div className="debug-inspector-empty">No user variables</div>
+        ) : (
+          editableVariables.map(({ variable, isUsed }) => (
+            <label key={variable.id} className={`debug-variable ${isUsed ? 'used' : ''}`}>
+              <span>{variable.name}</span>
+              <input
+                type="text"
+                value={variable.value}
+                onChange={(e) => handleValueChange(variable.id, e.target.value)}
+              />
+            </label>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
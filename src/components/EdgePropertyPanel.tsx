@@ -83,6 +83,11 @@ export function EdgePropertyPanel({
             options={dependencyTypeOptions}
           />
           <p className="edge-type-description">{style.description}</p>
+          {selectedEdge.data?.inferred && (
+            <p className="edge-type-description">
+              Inferred from the order of an imported dry-run; the build may not declare this dependency.
+            </p>
+          )}
         </div>
 
         {/* Dependency type explanation */}
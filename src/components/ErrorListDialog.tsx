@@ -0,0 +1,44 @@
+import { X, CircleAlert } from 'lucide-react';
+
+interface ErrorListDialogProps {
+  title: string;
+  errors: string[];
+  onClose: () => void;
+}
+
+/**
+ * Modal listing the problems that prevented an action (e.g. opening an invalid file)
+ */
+export function ErrorListDialog({ title, errors, onClose }: ErrorListDialogProps) {
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div className="dialog dialog-narrow" onClick={(e) => e.stopPropagation()}>
+        <div className="panel-header">
+          <h2>{title}</h2>
+          <button className="dialog-close" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-content">
+          <div className="import-summary error">
+            <CircleAlert size={14} />
+            <span>{errors.length} problem(s) found</span>
+          </div>
+          <ul className="error-list">
+            {errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="panel-footer dialog-footer">
+          <span className="dialog-hint" />
+          <button className="execution-btn primary" onClick={onClose}>
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import {
   Play,
   Square,
   Pause,
   RotateCcw,
   CheckCircle,
+  CheckCheck,
+  Archive,
   XCircle,
   Clock,
   Loader,
@@ -12,13 +14,33 @@ import {
   Circle,
   ChevronDown,
   ChevronRight,
+  ListOrdered,
+  StepForward,
+  Redo,
 } from 'lucide-react';
 import type {
   ExecutionState,
   TaskExecutionStatus,
   GradleTaskNode,
+  Variable,
+  RunRecord,
 } from '../types/gradle';
-import { formatDuration, getStatusColor } from '../utils/executionUtils';
+import {
+  clockScaleOptions,
+  formatDuration,
+  getStatusColor,
+  type DebugStepMode,
+} from '../utils/executionUtils';
+import {
+  executionBackendOptions,
+  LOCAL_TASK_TYPES,
+  type ExecutionBackend,
+} from '../utils/taskExecutorUtils';
+import { describeAttempts, isFlaky } from '../utils/retryUtils';
+import { getFailedTestCount, summarizeTestReport } from '../utils/testReportUtils';
+import { DebugInspector } from './DebugInspector';
+import { RunHistory } from './RunHistory';
+import { TestReportView } from './TestReportView';
 
 interface ExecutionPanelProps {
   executionState: ExecutionState;
@@ -29,6 +51,26 @@ interface ExecutionPanelProps {
   onPause: () => void;
   onResume: () => void;
   onReset: () => void;
+  onDryRun: (taskIds?: string[]) => void;
+  onDebugResume: (mode: DebugStepMode) => void;
+  variables: Variable[];
+  onVariablesChange: (variables: Variable[]) => void;
+  runHistory: RunRecord[];
+  onViewRun: (record: RunRecord) => void;
+  onClearHistory: () => void;
+  maxWorkers: number;
+  onMaxWorkersChange: (maxWorkers: number) => void;
+  continueOnFailure: boolean;
+  onContinueOnFailureChange: (continueOnFailure: boolean) => void;
+  simulationSeed: string;
+  onSimulationSeedChange: (seed: string) => void;
+  executionBackend: ExecutionBackend;
+  onExecutionBackendChange: (backend: ExecutionBackend) => void;
+  /** Run timeout in minutes, undefined for none */
+  runTimeout?: number;
+  onRunTimeoutChange: (minutes: number | undefined) => void;
+  clockScale: number;
+  onClockScaleChange: (scale: number) => void;
   isExpanded: boolean;
   onToggleExpanded: () => void;
 }
@@ -38,6 +80,8 @@ const statusIcons: Record<TaskExecutionStatus, React.ReactNode> = {
   pending: <Clock size={14} />,
   running: <Loader size={14} className="animate-spin" />,
   success: <CheckCircle size={14} />,
+  upToDate: <CheckCheck size={14} />,
+  fromCache: <Archive size={14} />,
   failed: <XCircle size={14} />,
   skipped: <SkipForward size={14} />,
 };
@@ -51,37 +95,90 @@ export function ExecutionPanel({
   onPause,
   onResume,
   onReset,
+  onDryRun,
+  onDebugResume,
+  variables,
+  onVariablesChange,
+  runHistory,
+  onViewRun,
+  onClearHistory,
+  maxWorkers,
+  onMaxWorkersChange,
+  continueOnFailure,
+  onContinueOnFailureChange,
+  simulationSeed,
+  onSimulationSeedChange,
+  executionBackend,
+  onExecutionBackendChange,
+  runTimeout,
+  onRunTimeoutChange,
+  clockScale,
+  onClockScaleChange,
   isExpanded,
   onToggleExpanded,
 }: ExecutionPanelProps) {
-  const { isRunning, isPaused, taskResults, executionOrder, logs } = executionState;
+  const {
+    isRunning,
+    isPaused,
+    runningTaskIds,
+    taskResults,
+    executionOrder,
+    logs,
+    startTime,
+    endTime,
+    pausedBeforeTaskId,
+  } = executionState;
+  const pausedBeforeNode = pausedBeforeTaskId ? nodes.find((n) => n.id === pausedBeforeTaskId) : undefined;
+  const [activeTab, setActiveTab] = useState<'tasks' | 'tests'>('tasks');
+
+  // Test tasks with attached JUnit XML results, for the test report tab
+  const testNodes = useMemo(
+    () => nodes.filter((n) => n.data.taskType === 'Test' && n.data.testReport),
+    [nodes]
+  );
+  const failedTestCount = useMemo(
+    () => testNodes.reduce((sum, n) => sum + getFailedTestCount(summarizeTestReport(n.data.testReport!)), 0),
+    [testNodes]
+  );
+  const showTests = activeTab === 'tests' && testNodes.length > 0;
 
   // Calculate execution statistics
   const stats = useMemo(() => {
     let successCount = 0;
+    let upToDateCount = 0;
+    let fromCacheCount = 0;
     let failedCount = 0;
     let skippedCount = 0;
     let pendingCount = 0;
+    let flakyCount = 0;
     let totalDuration = 0;
 
     taskResults.forEach((result) => {
       if (result.status === 'success') successCount++;
+      else if (result.status === 'upToDate') upToDateCount++;
+      else if (result.status === 'fromCache') fromCacheCount++;
       else if (result.status === 'failed') failedCount++;
       else if (result.status === 'skipped') skippedCount++;
       else if (result.status === 'pending' || result.status === 'running') pendingCount++;
+      if (isFlaky(result.attempts)) flakyCount++;
       if (result.duration) totalDuration += result.duration;
     });
 
     return {
       total: executionOrder.length,
-      completed: successCount + failedCount + skippedCount,
+      // Wall-clock time of the run; shorter than the summed task time when tasks overlap
+      wallDuration: startTime && endTime ? endTime - startTime : 0,
+      completed: successCount + upToDateCount + fromCacheCount + failedCount + skippedCount,
       successCount,
+      upToDateCount,
+      fromCacheCount,
       failedCount,
       skippedCount,
       pendingCount,
+      flakyCount,
       totalDuration,
     };
-  }, [taskResults, executionOrder]);
+  }, [taskResults, executionOrder, startTime, endTime]);
 
   // Get selected task names for display
   const selectedTaskNames = useMemo(() => {
@@ -101,7 +198,7 @@ export function ExecutionPanel({
         {isRunning && (
           <span className="execution-status running">
             <Loader size={12} className="animate-spin" />
-            Running
+            {runningTaskIds.size > 1 ? `Running ${runningTaskIds.size} tasks` : 'Running'}
           </span>
         )}
         {!isRunning && stats.completed > 0 && (
@@ -116,7 +213,8 @@ export function ExecutionPanel({
             ) : (
               <>
                 <CheckCircle size={12} />
-                {stats.successCount} passed
+                {stats.successCount + stats.upToDateCount + stats.fromCacheCount} passed
+                {stats.flakyCount > 0 && `, ${stats.flakyCount} flaky`}
               </>
             )}
           </span>
@@ -137,6 +235,14 @@ export function ExecutionPanel({
                   <Play size={14} />
                   Run {selectedTaskIds.length > 0 ? 'Selected' : 'All'}
                 </button>
+                <button
+                  className="execution-btn secondary"
+                  onClick={() => onDryRun(selectedTaskIds.length > 0 ? selectedTaskIds : undefined)}
+                  title={`Preview which tasks a run of ${selectedTaskNames} would execute, without running anything`}
+                >
+                  <ListOrdered size={14} />
+                  Dry Run
+                </button>
                 {stats.completed > 0 && (
                   <button
                     className="execution-btn secondary"
@@ -150,7 +256,34 @@ export function ExecutionPanel({
               </>
             ) : (
               <>
-                {isPaused ? (
+                {pausedBeforeNode ? (
+                  <>
+                    <button
+                      className="execution-btn primary"
+                      onClick={() => onDebugResume('continue')}
+                      title="Run until the next breakpoint"
+                    >
+                      <Play size={14} />
+                      Continue
+                    </button>
+                    <button
+                      className="execution-btn secondary"
+                      onClick={() => onDebugResume('step')}
+                      title="Run this task, then pause before the next one"
+                    >
+                      <StepForward size={14} />
+                      Step
+                    </button>
+                    <button
+                      className="execution-btn secondary"
+                      onClick={() => onDebugResume('stepOver')}
+                      title="Run this task and the tasks that depend on it, then pause"
+                    >
+                      <Redo size={14} />
+                      Step Over
+                    </button>
+                  </>
+                ) : isPaused ? (
                   <button
                     className="execution-btn primary"
                     onClick={onResume}
@@ -181,14 +314,140 @@ export function ExecutionPanel({
             )}
           </div>
 
+          {/* Debugger */}
+          {pausedBeforeNode && (
+            <DebugInspector node={pausedBeforeNode} variables={variables} onVariablesChange={onVariablesChange} />
+          )}
+
+          {/* Settings */}
+          <label
+            className="execution-setting"
+            title={`Local runs ${LOCAL_TASK_TYPES.join(', ')} tasks for real in the dev server's sandbox directory; other task types stay simulated`}
+          >
+            <span>Backend</span>
+            <select
+              value={executionBackend}
+              disabled={isRunning}
+              onChange={(e) => onExecutionBackendChange(e.target.value as ExecutionBackend)}
+            >
+              {executionBackendOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="execution-setting" title="Maximum number of tasks run at the same time (--max-workers)">
+            <span>Max workers</span>
+            <input
+              type="number"
+              min={1}
+              max={64}
+              value={maxWorkers}
+              disabled={isRunning}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (value >= 1) onMaxWorkersChange(Math.min(64, value));
+              }}
+            />
+          </label>
+          <label
+            className="execution-setting"
+            title="Keep running tasks that do not depend on a failed task (--continue)"
+          >
+            <span>Continue after failure</span>
+            <input
+              type="checkbox"
+              checked={continueOnFailure}
+              disabled={isRunning}
+              onChange={(e) => onContinueOnFailureChange(e.target.checked)}
+            />
+          </label>
+          <label
+            className="execution-setting"
+            title="Fail the run and abort running tasks after this many minutes. Leave empty for no limit."
+          >
+            <span>Run timeout (min)</span>
+            <input
+              type="number"
+              min={1}
+              value={runTimeout ?? ''}
+              placeholder="none"
+              disabled={isRunning}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                onRunTimeoutChange(value > 0 ? value : undefined);
+              }}
+            />
+          </label>
+          <label
+            className="execution-setting"
+            title="Speed up the clock used for task and run timeouts, so minute-long timeouts can be tried in seconds"
+          >
+            <span>Timeout clock</span>
+            <select
+              value={clockScale}
+              disabled={isRunning}
+              onChange={(e) => onClockScaleChange(Number(e.target.value))}
+            >
+              {clockScaleOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label
+            className="execution-setting"
+            title="Runs with the same seed have the same durations and failures. Leave empty for random runs."
+          >
+            <span>Seed</span>
+            <input
+              type="text"
+              value={simulationSeed}
+              placeholder="random"
+              disabled={isRunning}
+              onChange={(e) => onSimulationSeedChange(e.target.value)}
+            />
+          </label>
+
+          {/* Run and test report tabs */}
+          {testNodes.length > 0 && (
+            <div className="execution-tabs">
+              <button
+                className={`execution-tab ${!showTests ? 'active' : ''}`}
+                onClick={() => setActiveTab('tasks')}
+              >
+                Tasks
+              </button>
+              <button
+                className={`execution-tab ${showTests ? 'active' : ''}`}
+                onClick={() => setActiveTab('tests')}
+              >
+                Tests
+                {failedTestCount > 0 && <span className="execution-tab-badge">{failedTestCount}</span>}
+              </button>
+            </div>
+          )}
+
+          {showTests && <TestReportView nodes={testNodes} />}
+
           {/* Progress */}
-          {executionOrder.length > 0 && (
+          {!showTests && executionOrder.length > 0 && (
             <div className="execution-progress">
               <div className="progress-bar">
                 <div
                   className="progress-fill success"
                   style={{ width: `${(stats.successCount / stats.total) * 100}%` }}
                 />
+                <div
+                  className="progress-fill up-to-date"
+                  style={{ width: `${(stats.upToDateCount / stats.total) * 100}%` }}
+                />
+                <div
+                  className="progress-fill from-cache"
+                  style={{ width: `${(stats.fromCacheCount / stats.total) * 100}%` }}
+                />
                 <div
                   className="progress-fill failed"
                   style={{ width: `${(stats.failedCount / stats.total) * 100}%` }}
@@ -199,10 +458,20 @@ export function ExecutionPanel({
                 />
               </div>
               <div className="progress-text">
-                {stats.completed} / {stats.total} tasks
+                <span>
+                  {stats.completed} / {stats.total} tasks
+                  {stats.flakyCount > 0 && (
+                    <span className="progress-flaky" title="Tasks that passed only after a retry">
+                      {stats.flakyCount} flaky
+                    </span>
+                  )}
+                </span>
                 {stats.totalDuration > 0 && (
-                  <span className="progress-duration">
-                    {formatDuration(stats.totalDuration)}
+                  <span
+                    className="progress-duration"
+                    title={`Task time ${formatDuration(stats.totalDuration)}`}
+                  >
+                    {formatDuration(stats.wallDuration || stats.totalDuration)}
                   </span>
                 )}
               </div>
@@ -210,7 +479,7 @@ export function ExecutionPanel({
           )}
 
           {/* Task list */}
-          {executionOrder.length > 0 && (
+          {!showTests && executionOrder.length > 0 && (
             <div className="execution-tasks">
               <div className="execution-tasks-header">Tasks</div>
               <div className="execution-tasks-list">
@@ -219,11 +488,24 @@ export function ExecutionPanel({
                   const node = nodes.find((n) => n.id === taskId);
                   const status = result?.status || 'idle';
                   const color = getStatusColor(status);
+                  const flaky = isFlaky(result?.attempts);
+                  const attemptSummary = describeAttempts(result?.attempts);
 
                   return (
                     <div
                       key={taskId}
-                      className={`execution-task-item ${status}`}
+                      className={`execution-task-item ${status}${flaky ? ' flaky' : ''}`}
+                      title={
+                        result?.skipReason
+                          ? `Skipped: ${result.skipReason}`
+                          : attemptSummary
+                            ? result!.attempts!
+                              .map((a) => `Attempt ${a.attempt}: ${a.status}${a.error ? ` - ${a.error}` : ''}`)
+                              .join('\n')
+                            : result?.outOfDateReasons
+                              ? `Not up-to-date: ${result.outOfDateReasons.join('; ')}`
+                              : undefined
+                      }
                     >
                       <span
                         className="task-status-icon"
@@ -233,6 +515,22 @@ export function ExecutionPanel({
                       </span>
                       <span className="task-name">
                         {node?.data.taskName || taskId}
+                        {flaky && <span className="task-flaky-badge">flaky</span>}
+                        {result?.skipReason && (
+                          <span className="task-skip-reason">{result.skipReason}</span>
+                        )}
+                        {status === 'upToDate' && (
+                          <span className="task-skip-reason">UP-TO-DATE</span>
+                        )}
+                        {status === 'fromCache' && (
+                          <span className="task-skip-reason">FROM-CACHE</span>
+                        )}
+                        {attemptSummary && (
+                          <span className="task-skip-reason">{attemptSummary}</span>
+                        )}
+                        {result?.outOfDateReasons && (
+                          <span className="task-skip-reason">{result.outOfDateReasons.join('; ')}</span>
+                        )}
                       </span>
                       {result?.duration && (
                         <span className="task-duration">
@@ -247,7 +545,7 @@ export function ExecutionPanel({
           )}
 
           {/* Logs */}
-          {logs.length > 0 && (
+          {!showTests && logs.length > 0 && (
             <div className="execution-logs">
               <div className="execution-logs-header">Output</div>
               <div className="execution-logs-content">
@@ -264,7 +562,7 @@ export function ExecutionPanel({
           )}
 
           {/* Empty state */}
-          {executionOrder.length === 0 && !isRunning && (
+          {!showTests && executionOrder.length === 0 && !isRunning && (
             <div className="execution-empty">
               <p>Click "Run" to execute tasks</p>
               <p className="hint">
@@ -274,6 +572,11 @@ export function ExecutionPanel({
               </p>
             </div>
           )}
+
+          {/* Run history */}
+          {runHistory.length > 0 && (
+            <RunHistory history={runHistory} isRunning={isRunning} onViewRun={onViewRun} onClear={onClearHistory} />
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,170 @@
+import { useCallback, useMemo, useState } from 'react';
+import { FileCode, Copy, Download, Check, ChevronRight, ChevronLeft } from 'lucide-react';
+import { Select, Checkbox } from './config';
+import type { GradleTaskNode, GradleEdge, Variable } from '../types/gradle';
+import { generateKotlinDsl } from '../utils/kotlinDslUtils';
+import { generateGroovyDsl } from '../utils/groovyDslUtils';
+import { generateMermaid, generateDot } from '../utils/diagramUtils';
+import { generateGithubActionsWorkflow, generateGitlabCi } from '../utils/ciExportUtils';
+import { downloadTextFile } from '../utils/fileUtils';
+
+interface ExportPanelProps {
+  nodes: GradleTaskNode[];
+  edges: GradleEdge[];
+  variables: Variable[];
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+}
+
+/**
+ * Supported build script dialects, diagram formats and CI pipelines
+ */
+type ScriptFormat = 'kotlin' | 'groovy' | 'mermaid' | 'dot' | 'githubActions' | 'gitlabCi';
+
+const scriptFormats: Record<ScriptFormat, { label: string; fileName: string; mimeType: string }> = {
+  kotlin: { label: 'Kotlin DSL', fileName: 'build.gradle.kts', mimeType: 'text/x-kotlin' },
+  groovy: { label: 'Groovy DSL', fileName: 'build.gradle', mimeType: 'text/x-groovy' },
+  mermaid: { label: 'Mermaid flowchart', fileName: 'task-graph.mmd', mimeType: 'text/vnd.mermaid' },
+  dot: { label: 'Graphviz DOT', fileName: 'task-graph.dot', mimeType: 'text/vnd.graphviz' },
+  githubActions: { label: 'GitHub Actions workflow', fileName: 'gradle.yml', mimeType: 'application/yaml' },
+  gitlabCi: { label: 'GitLab CI pipeline', fileName: '.gitlab-ci.yml', mimeType: 'application/yaml' },
+};
+
+const formatOptions = (Object.keys(scriptFormats) as ScriptFormat[]).map((format) => ({
+  value: format,
+  label: scriptFormats[format].label,
+}));
+
+/**
+ * Side panel that previews the generated build script and offers copy/download
+ */
+export function ExportPanel({
+  nodes,
+  edges,
+  variables,
+  isExpanded,
+  onToggleExpanded,
+}: ExportPanelProps) {
+  const [copied, setCopied] = useState(false);
+  const [format, setFormat] = useState<ScriptFormat>('kotlin');
+  const [lazyRegistration, setLazyRegistration] = useState(true);
+  const [markdownFence, setMarkdownFence] = useState(false);
+  const { fileName, mimeType } = scriptFormats[format];
+
+  // Regenerate the script whenever the graph, variables or options change
+  const script = useMemo(() => {
+    if (!isExpanded) return '';
+    if (format === 'groovy') {
+      return generateGroovyDsl({ nodes, edges }, variables, { lazy: lazyRegistration });
+    }
+    if (format === 'mermaid') {
+      return generateMermaid({ nodes, edges }, { markdownFence });
+    }
+    if (format === 'dot') {
+      return generateDot({ nodes, edges });
+    }
+    if (format === 'githubActions') {
+      return generateGithubActionsWorkflow({ nodes, edges }, variables);
+    }
+    if (format === 'gitlabCi') {
+      return generateGitlabCi({ nodes, edges }, variables);
+    }
+    return generateKotlinDsl({ nodes, edges }, variables);
+  }, [nodes, edges, variables, isExpanded, format, lazyRegistration, markdownFence]);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(script);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  }, [script]);
+
+  const handleDownload = useCallback(() => {
+    downloadTextFile(fileName, script, mimeType);
+  }, [fileName, script, mimeType]);
+
+  if (!isExpanded) {
+    return (
+      <div className="export-panel collapsed">
+        <button
+          className="export-toggle"
+          onClick={onToggleExpanded}
+          title="Show build script"
+        >
+          <ChevronLeft size={16} />
+          <FileCode size={16} />
+          <span className="export-toggle-label">Build Script</span>
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="export-panel">
+      <div className="panel-header">
+        <h2>Build Script</h2>
+        <button
+          className="export-collapse"
+          onClick={onToggleExpanded}
+          title="Hide build script"
+        >
+          <ChevronRight size={16} />
+        </button>
+      </div>
+
+      <div className="export-options">
+        <Select
+          label="Format"
+          value={format}
+          onChange={(value) => setFormat(value as ScriptFormat)}
+          options={formatOptions}
+        />
+        {format === 'groovy' && (
+          <Checkbox
+            label="Lazy task registration"
+            checked={lazyRegistration}
+            onChange={setLazyRegistration}
+            helperText={
+              lazyRegistration
+                ? "Uses tasks.register('name', Type)"
+                : 'Uses eager task name(type: Type) declarations'
+            }
+          />
+        )}
+        {format === 'mermaid' && (
+          <Checkbox
+            label="Markdown code fence"
+            checked={markdownFence}
+            onChange={setMarkdownFence}
+            helperText="Wraps the diagram in ```mermaid so it renders on GitHub"
+          />
+        )}
+        {format === 'githubActions' && (
+          <div className="form-helper">Save as .github/workflows/gradle.yml</div>
+        )}
+      </div>
+
+      <div className="export-toolbar">
+        <span className="export-file-name">
+          <FileCode size={14} />
+          {fileName}
+        </span>
+        <button className="execution-btn secondary" onClick={handleCopy} title="Copy to clipboard">
+          {copied ? <Check size={14} /> : <Copy size={14} />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button className="execution-btn primary" onClick={handleDownload} title={`Download ${fileName}`}>
+          <Download size={14} />
+          Download
+        </button>
+      </div>
+
+      <pre className="export-preview">
+        <code>{script}</code>
+      </pre>
+    </div>
+  );
+}
@@ -49,6 +49,11 @@ const edgeStyles: Record<
   },
 };
 
+/**
+ * Stroke of edges on the critical path
+ */
+const criticalStroke = '#dc2626';
+
 /**
  * Custom edge component for Gradle task dependencies
  */
@@ -80,6 +85,8 @@ function GradleDependencyEdgeComponent({
 
   // For finalizedBy, we use a different path direction indicator
   const isFinalizedBy = dependencyType === 'finalizedBy';
+  const isCritical = data?.critical === true;
+  const stroke = isCritical ? criticalStroke : style.stroke;
 
   return (
     <>
@@ -88,20 +95,24 @@ function GradleDependencyEdgeComponent({
         path={edgePath}
         markerEnd={markerEnd}
         style={{
-          stroke: style.stroke,
-          strokeWidth: selected ? 3 : 2,
+          stroke,
+          strokeWidth: isCritical ? 4 : selected ? 3 : 2,
           strokeDasharray: style.strokeDasharray,
-          filter: selected ? 'drop-shadow(0 0 4px rgba(59, 130, 246, 0.5))' : undefined,
+          filter: selected
+            ? 'drop-shadow(0 0 4px rgba(59, 130, 246, 0.5))'
+            : isCritical
+              ? 'drop-shadow(0 0 4px rgba(220, 38, 38, 0.5))'
+              : undefined,
         }}
       />
       <EdgeLabelRenderer>
         <div
-          className={`edge-label ${selected ? 'selected' : ''}`}
+          className={`edge-label ${selected ? 'selected' : ''} ${isCritical ? 'critical' : ''}`}
           style={{
             position: 'absolute',
             transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
             background: style.labelBg,
-            borderColor: style.stroke,
+            borderColor: stroke,
             pointerEvents: 'all',
           }}
         >
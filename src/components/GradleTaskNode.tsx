@@ -1,5 +1,5 @@
-import { memo } from 'react';
-import { Handle, Position, type NodeProps } from '@xyflow/react';
+import { memo, useMemo } from 'react';
+import { Handle, Position, useReactFlow, type NodeProps } from '@xyflow/react';
 import {
   Terminal,
   Copy,
@@ -12,17 +12,21 @@ import {
   Globe,
   Puzzle,
   CheckCircle,
+  CheckCheck,
+  Archive,
   XCircle,
   Loader,
   Clock,
   SkipForward,
   GitBranch,
 } from 'lucide-react';
-import type {
-  GradleTaskNode as GradleTaskNodeType,
-  GradleTaskType,
-  TaskExecutionStatus,
+import {
+  type GradleTaskNode as GradleTaskNodeType,
+  type GradleTaskType,
+  type TaskExecutionStatus,
+  executionStatusColors,
 } from '../types/gradle';
+import { formatTestSummary, getFailedTestCount, summarizeTestReport } from '../utils/testReportUtils';
 
 /**
  * Maps Gradle task types to their corresponding icons
@@ -56,28 +60,23 @@ export const taskTypeColors: Record<GradleTaskType, string> = {
   Custom: '#6b7280',    // gray
 };
 
-/**
- * Maps execution status to colors
- */
-const executionStatusColors: Record<TaskExecutionStatus, string> = {
-  idle: 'transparent',
-  pending: '#f59e0b',
-  running: '#3b82f6',
-  success: '#22c55e',
-  failed: '#ef4444',
-  skipped: '#94a3b8',
-};
-
 /**
  * Custom node component for Gradle tasks
  */
-function GradleTaskNodeComponent({ data, selected }: NodeProps<GradleTaskNodeType>) {
+function GradleTaskNodeComponent({ id, data, selected }: NodeProps<GradleTaskNodeType>) {
+  const { updateNodeData } = useReactFlow();
   const Icon = taskTypeIcons[data.taskType] || taskTypeIcons.Custom;
   const color = taskTypeColors[data.taskType] || taskTypeColors.Custom;
   const executionStatus = (data.executionStatus as TaskExecutionStatus) || 'idle';
   const statusColor = executionStatusColors[executionStatus];
   const isDisabled = data.enabled === false;
   const hasCondition = data.condition && data.condition.conditions.length > 0;
+  const dryRun = data.dryRun;
+  const testSummary = useMemo(
+    () => (data.testReport ? summarizeTestReport(data.testReport) : null),
+    [data.testReport]
+  );
+  const failedTests = testSummary ? getFailedTestCount(testSummary) : 0;
 
   // Determine border color based on execution status
   const borderColor =
@@ -89,7 +88,10 @@ function GradleTaskNodeComponent({ data, selected }: NodeProps<GradleTaskNodeTyp
 
   return (
     <div
-      className={`gradle-task-node ${selected ? 'selected' : ''} ${executionStatus} ${isDisabled ? 'disabled' : ''}`}
+      className={`gradle-task-node ${selected ? 'selected' : ''} ${executionStatus} ${isDisabled ? 'disabled' : ''} ${
+        dryRun ? `dry-run-${dryRun.decision}` : ''
+      }`}
+      title={dryRun?.reason ? `Would skip: ${dryRun.reason}` : undefined}
       style={{
         borderColor,
         boxShadow:
@@ -108,6 +110,19 @@ function GradleTaskNodeComponent({ data, selected }: NodeProps<GradleTaskNodeTyp
         style={{ background: color }}
       />
 
+      {/* Breakpoint marker: click to toggle */}
+      <button
+        className={`breakpoint-marker nodrag ${data.breakpoint ? 'active' : ''}`}
+        onClick={(e) => {
+          e.stopPropagation();
+          updateNodeData(id, { breakpoint: !data.breakpoint });
+        }}
+        title={data.breakpoint ? 'Remove breakpoint' : 'Pause runs before this task'}
+      />
+
+      {/* Position in the dry-run order */}
+      {dryRun?.order !== undefined && <div className="dry-run-order">{dryRun.order}</div>}
+
       <div className="gradle-task-content">
         {/* Task type icon */}
         <div
@@ -121,6 +136,16 @@ function GradleTaskNodeComponent({ data, selected }: NodeProps<GradleTaskNodeTyp
         <div className="gradle-task-info">
           <div className="gradle-task-name">{data.taskName}</div>
           <div className="gradle-task-type">{data.taskType}</div>
+          {dryRun?.reason && <div className="dry-run-reason">{dryRun.reason}</div>}
+          {testSummary && (
+            <div
+              className={`gradle-task-tests ${failedTests > 0 ? 'failed' : 'passed'}`}
+              title={formatTestSummary(testSummary)}
+            >
+              {failedTests > 0 ? <XCircle size={10} /> : <CheckCircle size={10} />}
+              {failedTests > 0 ? `${failedTests} failed tests` : `${testSummary.total} tests`}
+            </div>
+          )}
         </div>
 
         {/* Condition indicator */}
@@ -141,6 +166,8 @@ function GradleTaskNodeComponent({ data, selected }: NodeProps<GradleTaskNodeTyp
           >
             {executionStatus === 'running' && <Loader size={14} className="animate-spin" />}
             {executionStatus === 'success' && <CheckCircle size={14} />}
+            {executionStatus === 'upToDate' && <CheckCheck size={14} />}
+            {executionStatus === 'fromCache' && <Archive size={14} />}
             {executionStatus === 'failed' && <XCircle size={14} />}
             {executionStatus === 'pending' && <Clock size={14} />}
             {executionStatus === 'skipped' && <SkipForward size={14} />}
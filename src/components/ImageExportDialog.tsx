@@ -0,0 +1,137 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { Select, Checkbox } from './config';
+import type { GradleTaskNode, GradleEdge, GraphViewport } from '../types/gradle';
+import {
+  renderGraphSvg,
+  renderPng,
+  type ImageExportArea,
+} from '../utils/imageExportUtils';
+import { downloadBlob, downloadTextFile } from '../utils/fileUtils';
+
+interface ImageExportDialogProps {
+  nodes: GradleTaskNode[];
+  edges: GradleEdge[];
+  viewport: GraphViewport;
+  canvasSize: { width: number; height: number };
+  documentName: string;
+  onClose: () => void;
+}
+
+const areaOptions: { value: ImageExportArea; label: string }[] = [
+  { value: 'graph', label: 'Whole graph (fit to bounds)' },
+  { value: 'viewport', label: 'Current view' },
+];
+
+const pixelRatioOptions = [
+  { value: '1', label: '1x' },
+  { value: '2', label: '2x (high DPI)' },
+  { value: '3', label: '3x' },
+];
+
+/**
+ * Modal for exporting the canvas as an SVG or PNG image
+ */
+export function ImageExportDialog({
+  nodes,
+  edges,
+  viewport,
+  canvasSize,
+  documentName,
+  onClose,
+}: ImageExportDialogProps) {
+  const [area, setArea] = useState<ImageExportArea>('graph');
+  const [includeStatus, setIncludeStatus] = useState(false);
+  const [transparent, setTransparent] = useState(false);
+  const [pixelRatio, setPixelRatio] = useState('2');
+  const [error, setError] = useState<string | null>(null);
+  const baseName = documentName.trim().replace(/[^\w.-]+/g, '-') || 'task-graph';
+
+  const image = useMemo(
+    () =>
+      renderGraphSvg(nodes, edges, {
+        area,
+        includeStatus,
+        background: transparent ? null : '#ffffff',
+        viewport,
+        canvasSize,
+      }),
+    [nodes, edges, area, includeStatus, transparent, viewport, canvasSize]
+  );
+
+  const previewUrl = useMemo(
+    () => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`,
+    [image]
+  );
+
+  const handleDownloadSvg = useCallback(() => {
+    downloadTextFile(`${baseName}.svg`, image.svg, 'image/svg+xml');
+  }, [baseName, image]);
+
+  const handleDownloadPng = useCallback(async () => {
+    try {
+      downloadBlob(`${baseName}.png`, await renderPng(image, Number(pixelRatio)));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [baseName, image, pixelRatio]);
+
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div className="dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="panel-header">
+          <h2>Export Image</h2>
+          <button className="dialog-close" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-content">
+          <div className="image-export-options">
+            <Select
+              label="Area"
+              value={area}
+              onChange={(value) => setArea(value as ImageExportArea)}
+              options={areaOptions}
+            />
+            <Select
+              label="PNG resolution"
+              value={pixelRatio}
+              onChange={setPixelRatio}
+              options={pixelRatioOptions}
+            />
+          </div>
+          <Checkbox
+            label="Show execution status from the last run"
+            checked={includeStatus}
+            onChange={setIncludeStatus}
+          />
+          <Checkbox label="Transparent background" checked={transparent} onChange={setTransparent} />
+
+          <div className="image-export-preview">
+            <img src={previewUrl} alt="Task graph preview" />
+          </div>
+          <div className="dialog-hint">
+            {image.width} × {image.height} px
+            {` · PNG ${image.width * Number(pixelRatio)} × ${image.height * Number(pixelRatio)} px`}
+          </div>
+
+          {error && <div className="import-summary error">{error}</div>}
+        </div>
+
+        <div className="panel-footer dialog-footer">
+          <span className="dialog-hint" />
+          <button className="execution-btn secondary" onClick={handleDownloadSvg}>
+            <Download size={14} />
+            SVG
+          </button>
+          <button className="execution-btn primary" onClick={handleDownloadPng}>
+            <Download size={14} />
+            PNG
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
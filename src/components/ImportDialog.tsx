@@ -0,0 +1,193 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Upload, X, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Select } from './config';
+import { importKotlinDsl } from '../utils/kotlinDslImportUtils';
+import { importGradleOutput } from '../utils/gradleOutputImportUtils';
+import { importMermaid, importDot } from '../utils/diagramUtils';
+import type { GraphImportResult } from '../types/gradle';
+
+interface ImportDialogProps {
+  onImport: (result: GraphImportResult) => void;
+  onClose: () => void;
+}
+
+/**
+ * Supported import sources
+ */
+type ImportFormat = 'kotlin' | 'gradleOutput' | 'mermaid' | 'dot';
+
+const importFormats: Record<
+  ImportFormat,
+  { label: string; accept: string; placeholder: string; parse: (source: string) => GraphImportResult }
+> = {
+  kotlin: {
+    label: 'Kotlin DSL (build.gradle.kts)',
+    accept: '.kts,.kt,.txt',
+    placeholder: 'Paste the contents of build.gradle.kts...',
+    parse: importKotlinDsl,
+  },
+  gradleOutput: {
+    label: 'Gradle output (tasks --all / --dry-run)',
+    accept: '.txt,.log',
+    placeholder: 'Paste the output of `gradle tasks --all` and/or `gradle build --dry-run`...',
+    parse: importGradleOutput,
+  },
+  mermaid: {
+    label: 'Mermaid flowchart',
+    accept: '.mmd,.mermaid,.md,.txt',
+    placeholder: 'flowchart TD\n    compileJava["compileJava<br/>JavaCompile"] --> jar["jar<br/>Jar"]\n    jar -.->|mustRunAfter| clean',
+    parse: importMermaid,
+  },
+  dot: {
+    label: 'Graphviz DOT',
+    accept: '.dot,.gv,.txt',
+    placeholder: 'digraph tasks {\n    compileJava [label="compileJava\\nJavaCompile"];\n    compileJava -> jar;\n    clean -> jar [style=dashed];\n}',
+    parse: importDot,
+  },
+};
+
+const formatOptions = (Object.keys(importFormats) as ImportFormat[]).map((format) => ({
+  value: format,
+  label: importFormats[format].label,
+}));
+
+/**
+ * Modal dialog that parses a pasted or uploaded file and replaces the canvas graph
+ */
+export function ImportDialog({ onImport, onClose }: ImportDialogProps) {
+  const [format, setFormat] = useState<ImportFormat>('kotlin');
+  const [source, setSource] = useState('');
+  const { accept, placeholder, parse } = importFormats[format];
+
+  // Parse on every change so the preview reflects what will be imported
+  const preview = useMemo((): { result?: GraphImportResult; error?: string } => {
+    if (!source.trim()) return {};
+    try {
+      return { result: parse(source) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [source, parse]);
+
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setSource(await file.text());
+    }
+    event.target.value = '';
+  }, []);
+
+  const handleImport = useCallback(() => {
+    if (preview.result) {
+      onImport(preview.result);
+    }
+  }, [preview, onImport]);
+
+  const result = preview.result;
+  const canImport = !!result && result.nodes.length > 0;
+
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div className="dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="panel-header">
+          <h2>Import Task Graph</h2>
+          <button className="dialog-close" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-content">
+          <Select
+            label="Format"
+            value={format}
+            onChange={(value) => setFormat(value as ImportFormat)}
+            options={formatOptions}
+          />
+
+          <label className="execution-btn secondary import-file-button">
+            <Upload size={14} />
+            Choose File
+            <input type="file" accept={accept} onChange={handleFileChange} hidden />
+          </label>
+
+          <textarea
+            className="import-source"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            placeholder={placeholder}
+            spellCheck={false}
+          />
+
+          {preview.error && (
+            <div className="import-summary error">
+              <AlertTriangle size={14} />
+              <span>{preview.error}</span>
+            </div>
+          )}
+
+          {result && (
+            <div className={`import-summary ${canImport ? 'ok' : 'error'}`}>
+              {canImport ? <CheckCircle size={14} /> : <AlertTriangle size={14} />}
+              <span>
+                {result.nodes.length} task(s), {result.edges.length} relation(s),{' '}
+                {result.variables.length} variable(s)
+              </span>
+            </div>
+          )}
+
+          {result?.orderChecks?.map((check, index) => (
+            <div key={index} className="order-check">
+              <div className={`order-check-title ${check.mismatches.length > 0 ? 'mismatch' : ''}`}>
+                Execution order for {check.label}:{' '}
+                {check.mismatches.length > 0
+                  ? `${check.mismatches.length} position(s) differ`
+                  : 'inferred order matches the dry-run'}
+              </div>
+              {check.mismatches.length > 0 && (
+                <table className="order-check-table">
+                  <thead>
+                    <tr>
+                      <th>#</th>
+                      <th>Dry-run</th>
+                      <th>Inferred</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {check.imported.map((taskId, position) => (
+                      <tr
+                        key={position}
+                        className={check.mismatches.includes(position) ? 'mismatch' : ''}
+                      >
+                        <td>{position + 1}</td>
+                        <td>{taskId}</td>
+                        <td>{check.inferred[position] ?? '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+
+          {result && result.warnings.length > 0 && (
+            <ul className="import-warnings">
+              {result.warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="panel-footer dialog-footer">
+          <span className="dialog-hint">Importing replaces the current graph</span>
+          <button className="execution-btn secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="execution-btn primary" onClick={handleImport} disabled={!canImport}>
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useCallback, useMemo, useState } from 'react';
-import { Settings, AlertTriangle } from 'lucide-react';
+import { Settings, AlertTriangle, FileUp, Route, Trash2, Zap } from 'lucide-react';
 import {
   TextInput,
   Checkbox,
@@ -16,9 +16,29 @@ import {
   type PropertyFieldDef,
   type Variable,
   type TaskCondition,
+  type TaskSimulationSettings,
+  type SimulationOutcome,
+  type RetryPolicy,
+  type RetryBackoff,
   taskPropertySchemas,
   commonPropertyFields,
+  simulationOutcomeOptions,
+  DEFAULT_FAILURE_PROBABILITY,
+  DEFAULT_RETRY_POLICY,
+  retryBackoffOptions,
 } from '../types/gradle';
+import { hasItems } from '../utils/buildScriptUtils';
+import { formatDuration } from '../utils/executionUtils';
+import { openTextFiles } from '../utils/fileUtils';
+import {
+  JUNIT_XML_FILE_TYPE,
+  createTestReport,
+  formatTestSummary,
+  getFailedTestCount,
+  parseJUnitXml,
+  summarizeTestReport,
+} from '../utils/testReportUtils';
+import type { CriticalPathAnalysis } from '../utils/criticalPathUtils';
 
 interface PropertyPanelProps {
   selectedNode: GradleTaskNode | null;
@@ -26,6 +46,10 @@ interface PropertyPanelProps {
   variables: Variable[];
   onNodeUpdate: (nodeId: string, updates: Partial<GradleTaskNodeData>) => void;
   onNodeDelete: (nodeId: string) => void;
+  onWhatIfFails: (nodeId: string) => void;
+  criticalPath: CriticalPathAnalysis;
+  /** Estimated build time if a task took the given percentage less time */
+  estimateBuildTime: (nodeId: string, percentFaster: number) => number;
 }
 
 export function PropertyPanel({
@@ -34,8 +58,13 @@ export function PropertyPanel({
   variables,
   onNodeUpdate,
   onNodeDelete,
+  onWhatIfFails,
+  criticalPath,
+  estimateBuildTime,
 }: PropertyPanelProps) {
   const [conditionExpanded, setConditionExpanded] = useState(false);
+  const [speedupPercent, setSpeedupPercent] = useState(50);
+  const [testReportError, setTestReportError] = useState<{ nodeId: string; message: string } | null>(null);
 
   // Get the property schema for the selected node's task type
   const taskSchema = useMemo(() => {
@@ -52,6 +81,45 @@ export function PropertyPanel({
     [selectedNode, onNodeUpdate]
   );
 
+  // Handle simulation setting changes
+  const handleSimulationChange = useCallback(
+    (updates: Partial<TaskSimulationSettings>) => {
+      if (!selectedNode) return;
+      onNodeUpdate(selectedNode.id, { simulation: { ...selectedNode.data.simulation, ...updates } });
+    },
+    [selectedNode, onNodeUpdate]
+  );
+
+  // Attach JUnit XML reports to a Test task, replacing any attached before
+  const handleAttachTestReport = useCallback(async () => {
+    if (!selectedNode) return;
+    const nodeId = selectedNode.id;
+    try {
+      const files = await openTextFiles(JUNIT_XML_FILE_TYPE);
+      if (files.length === 0) return;
+      const parsed = files.map((file) => {
+        try {
+          return { name: file.name, suites: parseJUnitXml(file.content) };
+        } catch (error) {
+          throw new Error(`${file.name}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+        }
+      });
+      onNodeUpdate(nodeId, { testReport: createTestReport(parsed, Date.now()) });
+      setTestReportError(null);
+    } catch (error) {
+      setTestReportError({ nodeId, message: error instanceof Error ? error.message : String(error) });
+    }
+  }, [selectedNode, onNodeUpdate]);
+
+  // Handle retry policy changes
+  const handleRetryChange = useCallback(
+    (updates: Partial<RetryPolicy>) => {
+      if (!selectedNode) return;
+      onNodeUpdate(selectedNode.id, { retry: { ...DEFAULT_RETRY_POLICY, ...selectedNode.data.retry, ...updates } });
+    },
+    [selectedNode, onNodeUpdate]
+  );
+
   // Get available nodes for the node picker (excluding the selected node)
   const availableNodes = useMemo(() => {
     return allNodes
@@ -263,6 +331,11 @@ export function PropertyPanel({
 
   // Check if there are any validation errors
   const hasErrors = (selectedNode.data.errors?.length || 0) > 0;
+  const simulation = selectedNode.data.simulation;
+  const retry = selectedNode.data.retry;
+  const schedule = criticalPath.tasks.get(selectedNode.id);
+  const testReport = selectedNode.data.testReport;
+  const testSummary = testReport ? summarizeTestReport(testReport) : null;
 
   return (
     <div className="property-panel">
@@ -283,7 +356,7 @@ export function PropertyPanel({
         <div className="property-section">
           <h3 className="section-title">General</h3>
           {commonPropertyFields
-            .filter((f) => f.name !== 'dependsOn') // dependsOn rendered in task-specific section
+            .filter((f) => !['dependsOn', 'inputs', 'outputs', 'cacheable'].includes(f.name)) // rendered in their own sections
             .map((field) => renderField(field))}
         </div>
 
@@ -301,6 +374,201 @@ export function PropertyPanel({
           {renderField(commonPropertyFields.find((f) => f.name === 'dependsOn')!)}
         </div>
 
+        {/* Declared inputs and outputs for up-to-date checks and the build cache */}
+        <div className="property-section">
+          <h3 className="section-title">Inputs and Outputs</h3>
+          {commonPropertyFields
+            .filter((f) => ['inputs', 'outputs', 'cacheable'].includes(f.name))
+            .map((field) => renderField(field))}
+        </div>
+
+        {/* Statements kept verbatim from an imported build script */}
+        {hasItems(selectedNode.data.preservedStatements) && (
+          <div className="property-section">
+            <h3 className="section-title">Preserved Statements</h3>
+            <p className="preserved-hint">
+              Not editable here; emitted unchanged in the Kotlin build script
+            </p>
+            <pre className="preserved-statements">
+              <code>{selectedNode.data.preservedStatements.join('\n')}</code>
+            </pre>
+          </div>
+        )}
+
+        {/* Simulated execution section */}
+        <div className="property-section">
+          <h3 className="section-title">Simulation</h3>
+          <TextInput
+            label="Expected Duration (ms)"
+            type="number"
+            min={0}
+            value={simulation?.expectedDuration !== undefined ? String(simulation.expectedDuration) : ''}
+            onChange={(v) => handleSimulationChange({ expectedDuration: v ? Number(v) : undefined })}
+            placeholder="Default for the task type"
+          />
+          <Select
+            label="Outcome"
+            value={simulation?.outcome ?? 'random'}
+            onChange={(v) => handleSimulationChange({ outcome: v as SimulationOutcome })}
+            options={simulationOutcomeOptions}
+          />
+          {(simulation?.outcome ?? 'random') === 'random' && (
+            <TextInput
+              label="Failure Probability (%)"
+              type="number"
+              min={0}
+              max={100}
+              value={
+                simulation?.failureProbability !== undefined
+                  ? String(Math.round(simulation.failureProbability * 10000) / 100)
+                  : ''
+              }
+              onChange={(v) =>
+                handleSimulationChange({
+                  failureProbability: v ? Math.min(100, Math.max(0, Number(v))) / 100 : undefined,
+                })
+              }
+              placeholder={String(DEFAULT_FAILURE_PROBABILITY * 100)}
+            />
+          )}
+          <button
+            className="what-if-button"
+            onClick={() => onWhatIfFails(selectedNode.id)}
+            title="Show which tasks would be skipped if this task failed"
+          >
+            <Zap size={14} />
+            What if this fails?
+          </button>
+        </div>
+
+        {/* JUnit XML results of a Test task */}
+        {selectedNode.data.taskType === 'Test' && (
+          <div className="property-section">
+            <h3 className="section-title">Test Results</h3>
+            {testReport && testSummary ? (
+              <div className="test-report-attachment" title={testReport.fileNames.join('\n')}>
+                <span className={getFailedTestCount(testSummary) > 0 ? 'failed' : 'passed'}>
+                  {formatTestSummary(testSummary)}
+                </span>
+                <span className="test-report-meta">
+                  {testReport.fileNames.length} file(s), attached {new Date(testReport.importedAt).toLocaleString()}
+                </span>
+              </div>
+            ) : (
+              <p className="test-report-hint">
+                Attach JUnit XML reports from a CI run, e.g. build/test-results/test/TEST-*.xml
+              </p>
+            )}
+            {testReportError?.nodeId === selectedNode.id && (
+              <p className="test-report-error">{testReportError.message}</p>
+            )}
+            <div className="test-report-actions">
+              <button className="test-report-button" onClick={handleAttachTestReport}>
+                <FileUp size={14} />
+                {testReport ? 'Replace Reports' : 'Attach Reports'}
+              </button>
+              {testReport && (
+                <button
+                  className="test-report-button danger"
+                  onClick={() => onNodeUpdate(selectedNode.id, { testReport: undefined })}
+                  title="Remove the attached test results"
+                >
+                  <Trash2 size={14} />
+                  Remove
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Position on the critical path */}
+        {schedule && (
+          <div className="property-section">
+            <h3 className="section-title">Critical Path</h3>
+            <dl className="critical-path-stats">
+              <div>
+                <dt>Duration</dt>
+                <dd>
+                  {formatDuration(schedule.duration)}
+                  <span className="critical-path-source">
+                    {schedule.source === 'lastRun' ? 'last run' : 'estimate'}
+                  </span>
+                </dd>
+              </div>
+              <div>
+                <dt>Earliest start</dt>
+                <dd>{formatDuration(schedule.earliestStart)}</dd>
+              </div>
+              <div>
+                <dt>Slack</dt>
+                <dd>
+                  {criticalPath.path.includes(selectedNode.id) ? (
+                    <span className="critical-path-badge">
+                      <Route size={12} />
+                      On the critical path
+                    </span>
+                  ) : (
+                    formatDuration(schedule.slack)
+                  )}
+                </dd>
+              </div>
+            </dl>
+            <TextInput
+              label="What if this task were N% faster?"
+              type="number"
+              min={0}
+              max={100}
+              value={String(speedupPercent)}
+              onChange={(v) => setSpeedupPercent(Math.min(100, Math.max(0, Number(v) || 0)))}
+              helperText={`Build time ${formatDuration(criticalPath.totalDuration)} → ${formatDuration(
+                estimateBuildTime(selectedNode.id, speedupPercent)
+              )}, assuming every task can run in parallel`}
+            />
+          </div>
+        )}
+
+        {/* Retry policy for flaky tasks */}
+        <div className="property-section">
+          <h3 className="section-title">Retry</h3>
+          <TextInput
+            label="Max Attempts"
+            type="number"
+            min={1}
+            value={retry ? String(retry.maxAttempts) : ''}
+            onChange={(v) =>
+              v
+                ? handleRetryChange({ maxAttempts: Math.max(1, Math.floor(Number(v))) })
+                : onNodeUpdate(selectedNode.id, { retry: undefined })
+            }
+            placeholder="1 (no retries)"
+          />
+          {retry && retry.maxAttempts > 1 && (
+            <>
+              <Select
+                label="Backoff"
+                value={retry.backoff}
+                onChange={(v) => handleRetryChange({ backoff: v as RetryBackoff })}
+                options={retryBackoffOptions}
+              />
+              <TextInput
+                label="Delay (ms)"
+                type="number"
+                min={0}
+                value={String(retry.delayMs)}
+                onChange={(v) => handleRetryChange({ delayMs: v ? Math.max(0, Number(v)) : 0 })}
+                helperText={retry.backoff === 'exponential' ? 'Doubles after every retry' : undefined}
+              />
+              <ListEditor
+                label="Retry On"
+                value={retry.retryOn ?? []}
+                onChange={(v) => handleRetryChange({ retryOn: v.length > 0 ? v : undefined })}
+                placeholder="Error pattern, e.g. timed out"
+                helperText="Regular expressions matched against the error; retries any failure when empty"
+              />
+            </>
+          )}
+        </div>
+
         {/* Conditional execution section */}
         <div className="property-section">
           <ConditionBuilder
@@ -0,0 +1,73 @@
+import { History, X } from 'lucide-react';
+import type { GraphDocument, Workspace } from '../types/gradle';
+
+interface RecoveryDialogProps {
+  fileName: string;
+  fileDocument: GraphDocument;
+  workspace: Workspace;
+  onRestore: () => void;
+  onOpenFile: () => void;
+  onClose: () => void;
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleString();
+}
+
+/**
+ * Offer to restore an autosaved copy that is newer than the file being opened
+ */
+export function RecoveryDialog({
+  fileName,
+  fileDocument,
+  workspace,
+  onRestore,
+  onOpenFile,
+  onClose,
+}: RecoveryDialogProps) {
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div className="dialog dialog-narrow" onClick={(e) => e.stopPropagation()}>
+        <div className="panel-header">
+          <h2>Restore unsaved changes?</h2>
+          <button className="dialog-close" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-content">
+          <div className="import-summary warning">
+            <History size={14} />
+            <span>
+              The browser has a newer autosaved copy of <strong>{fileName}</strong> than the file on disk.
+            </span>
+          </div>
+          <table className="recovery-table">
+            <tbody>
+              <tr>
+                <th>File on disk</th>
+                <td>{formatTime(Date.parse(fileDocument.metadata.updatedAt))}</td>
+                <td>{fileDocument.nodes.length} task(s)</td>
+              </tr>
+              <tr>
+                <th>Autosaved copy</th>
+                <td>{formatTime(workspace.savedAt)}</td>
+                <td>{workspace.document.nodes.length} task(s)</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="panel-footer dialog-footer">
+          <span className="dialog-hint" />
+          <button className="execution-btn secondary" onClick={onOpenFile}>
+            Open File
+          </button>
+          <button className="execution-btn primary" onClick={onRestore}>
+            Restore Autosave
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
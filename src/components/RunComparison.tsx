@@ -0,0 +1,110 @@
+import { useMemo } from 'react';
+import type { RunRecord } from '../types/gradle';
+import { formatDuration } from '../utils/executionUtils';
+import { compareRuns } from '../utils/runHistoryUtils';
+
+interface RunComparisonProps {
+  /** The earlier run */
+  base: RunRecord;
+  /** The later run */
+  other: RunRecord;
+  /** Relative slowdown that counts as a regression */
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+}
+
+/**
+ * Differences between two recorded runs
+ */
+export function RunComparison({ base, other, threshold, onThresholdChange }: RunComparisonProps) {
+  const comparison = useMemo(() => compareRuns(base, other, threshold), [base, other, threshold]);
+  const { outcomeChanges, regressions, onlyInBase, onlyInOther, variableChanges } = comparison;
+  const unchanged =
+    outcomeChanges.length + regressions.length + onlyInBase.length + onlyInOther.length + variableChanges.length === 0;
+  const time = (record: RunRecord) => new Date(record.startTime).toLocaleTimeString();
+
+  return (
+    <div className="run-comparison">
+      <div className="run-comparison-header">
+        <span>
+          {time(base)} → {time(other)}
+        </span>
+        <label title="How much slower a task must be to count as a regression">
+          Regression over
+          <input
+            type="number"
+            min={0}
+            value={Math.round(threshold * 100)}
+            onChange={(e) => onThresholdChange(Math.max(0, Number(e.target.value)) / 100)}
+          />
+          %
+        </label>
+      </div>
+
+      {unchanged && <div className="run-comparison-empty">Both runs had the same outcome</div>}
+
+      {outcomeChanges.length > 0 && (
+        <div className="run-comparison-section">
+          <div className="run-comparison-heading">Changed outcome</div>
+          {outcomeChanges.map((change) => (
+            <div key={change.taskId} className="run-comparison-row">
+              <span>{change.taskName}</span>
+              <span>
+                <span className={`run-comparison-status ${change.before}`}>{change.before}</span>
+                {' → '}
+                <span className={`run-comparison-status ${change.after}`}>{change.after}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {regressions.length > 0 && (
+        <div className="run-comparison-section">
+          <div className="run-comparison-heading">Slower</div>
+          {regressions.map((regression) => (
+            <div key={regression.taskId} className="run-comparison-row">
+              <span>{regression.taskName}</span>
+              <span>
+                {formatDuration(regression.before)} → {formatDuration(regression.after)}{' '}
+                <span className="run-comparison-regression">+{Math.round(regression.change * 100)}%</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(onlyInBase.length > 0 || onlyInOther.length > 0) && (
+        <div className="run-comparison-section">
+          <div className="run-comparison-heading">Ran in one run only</div>
+          {onlyInBase.map((result) => (
+            <div key={result.taskId} className="run-comparison-row">
+              <span>{result.taskName}</span>
+              <span>only in {time(base)}</span>
+            </div>
+          ))}
+          {onlyInOther.map((result) => (
+            <div key={result.taskId} className="run-comparison-row">
+              <span>{result.taskName}</span>
+              <span>only in {time(other)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {variableChanges.length > 0 && (
+        <div className="run-comparison-section">
+          <div className="run-comparison-heading">Variables</div>
+          {variableChanges.map((change) => (
+            <div key={change.name} className="run-comparison-row">
+              <span>{change.name}</span>
+              <span>
+                {change.before ?? '(unset)'} → {change.after ?? '(unset)'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
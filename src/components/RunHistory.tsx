@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { CheckCircle, History, Square, Trash2, XCircle } from 'lucide-react';
+import type { RunOutcome, RunRecord } from '../types/gradle';
+import { formatDuration } from '../utils/executionUtils';
+import { DEFAULT_REGRESSION_THRESHOLD, summarizeRun } from '../utils/runHistoryUtils';
+import { RunComparison } from './RunComparison';
+
+interface RunHistoryProps {
+  history: RunRecord[];
+  isRunning: boolean;
+  onViewRun: (record: RunRecord) => void;
+  onClear: () => void;
+}
+
+const outcomeIcons: Record<RunOutcome, React.ReactNode> = {
+  success: <CheckCircle size={12} />,
+  failed: <XCircle size={12} />,
+  stopped: <Square size={12} />,
+};
+
+/**
+ * Finished runs of the workspace; pick two to compare them
+ */
+export function RunHistory({ history, isRunning, onViewRun, onClear }: RunHistoryProps) {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [threshold, setThreshold] = useState(DEFAULT_REGRESSION_THRESHOLD);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) =>
+      prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  // Compare the older selected run against the newer one
+  const compared = history.filter((r) => compareIds.includes(r.id));
+  const [other, base] = compared;
+
+  return (
+    <div className="run-history">
+      <div className="run-history-header">
+        <History size={12} />
+        <span>History</span>
+        <span className="run-history-hint">
+          {compared.length < 2 ? 'Tick two runs to compare them' : `Comparing ${compared.length} runs`}
+        </span>
+        <button
+          className="run-history-clear"
+          onClick={() => {
+            setCompareIds([]);
+            onClear();
+          }}
+          disabled={isRunning}
+          title="Forget every recorded run"
+        >
+          <Trash2 size={12} />
+        </button>
+      </div>
+
+      <ul className="run-history-list">
+        {history.map((record) => {
+          const summary = summarizeRun(record);
+          return (
+            <li key={record.id} className={`run-history-item ${record.outcome}`}>
+              <input
+                type="checkbox"
+                checked={compareIds.includes(record.id)}
+                onChange={() => toggleCompare(record.id)}
+                title="Compare this run"
+              />
+              <span className="run-history-outcome">{outcomeIcons[record.outcome]}</span>
+              <button
+                className="run-history-run"
+                onClick={() => onViewRun(record)}
+                disabled={isRunning}
+                title="Show this run's results and output"
+              >
+                <span className="run-history-time">{new Date(record.startTime).toLocaleTimeString()}</span>
+                <span className="run-history-tasks">
+                  {record.requestedTaskNames.length > 0 ? record.requestedTaskNames.join(', ') : 'all tasks'}
+                </span>
+              </button>
+              <span className="run-history-counts">
+                {summary.passed}✓ {summary.failed}✗ {summary.skipped}↷
+              </span>
+              <span className="run-history-duration">{formatDuration(record.duration)}</span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {base && other && (
+        <RunComparison base={base} other={other} threshold={threshold} onThresholdChange={setThreshold} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useCallback, useState } from 'react';
+import { Check, Copy, Download, Link, X } from 'lucide-react';
+import { MAX_PERMALINK_LENGTH, type PermalinkResult } from '../utils/permalinkUtils';
+
+interface ShareLinkDialogProps {
+  permalink: PermalinkResult;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Shows a permalink to the graph, or offers a file download when the graph is too large for a URL
+ */
+export function ShareLinkDialog({ permalink, onDownload, onClose }: ShareLinkDialogProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = useCallback(async () => {
+    if (!permalink.ok) return;
+    try {
+      await navigator.clipboard.writeText(permalink.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  }, [permalink]);
+
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div className="dialog dialog-narrow" onClick={(e) => e.stopPropagation()}>
+        <div className="panel-header">
+          <h2>Share Link</h2>
+          <button className="dialog-close" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-content">
+          {permalink.ok ? (
+            <>
+              <div className="import-summary ok">
+                <Link size={14} />
+                <span>Anyone with this link can open a copy of the graph.</span>
+              </div>
+              <input
+                className="share-link-url"
+                value={permalink.url}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                autoFocus
+              />
+              <div className="dialog-hint">{permalink.url.length.toLocaleString()} characters</div>
+            </>
+          ) : (
+            <div className="import-summary warning">
+              <Link size={14} />
+              <span>
+                This graph needs a {permalink.length.toLocaleString()}-character link, more than the{' '}
+                {MAX_PERMALINK_LENGTH.toLocaleString()} characters that can be shared reliably. Share the
+                graph file instead.
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="panel-footer dialog-footer">
+          <span className="dialog-hint" />
+          {permalink.ok ? (
+            <button className="execution-btn primary" onClick={handleCopy}>
+              {copied ? <Check size={14} /> : <Copy size={14} />}
+              {copied ? 'Copied' : 'Copy Link'}
+            </button>
+          ) : (
+            <button className="execution-btn primary" onClick={onDownload}>
+              <Download size={14} />
+              Download File
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Link, X } from 'lucide-react';
+import type { GraphDocument } from '../types/gradle';
+
+interface SharedGraphDialogProps {
+  document: GraphDocument;
+  currentWorkspaceName: string;
+  onOpen: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Confirm opening a graph from a permalink; it never replaces the open workspace
+ */
+export function SharedGraphDialog({ document, currentWorkspaceName, onOpen, onClose }: SharedGraphDialogProps) {
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div className="dialog dialog-narrow" onClick={(e) => e.stopPropagation()}>
+        <div className="panel-header">
+          <h2>Open shared graph?</h2>
+          <button className="dialog-close" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-content">
+          <div className="import-summary ok">
+            <Link size={14} />
+            <span>
+              <strong>{document.metadata.name}</strong>: {document.nodes.length} task(s),{' '}
+              {document.edges.length} dependencies
+            </span>
+          </div>
+          <div className="dialog-hint">
+            The shared graph opens as a new workspace. Your current workspace
+            {' '}<strong>{currentWorkspaceName}</strong> stays saved in this browser.
+          </div>
+        </div>
+
+        <div className="panel-footer dialog-footer">
+          <span className="dialog-hint" />
+          <button className="execution-btn secondary" onClick={onClose}>
+            Keep Current
+          </button>
+          <button className="execution-btn primary" onClick={onOpen}>
+            Open as New Workspace
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
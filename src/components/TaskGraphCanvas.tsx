@@ -1,4 +1,4 @@
-import { useCallback, useState, useMemo, useRef } from 'react';
+import { useCallback, useEffect, useState, useMemo, useRef } from 'react';
 import {
   ReactFlow,
   Background,
@@ -26,15 +26,77 @@ import { EdgePropertyPanel } from './EdgePropertyPanel';
 import { NodePalette } from './NodePalette';
 import { VariablesPanel } from './VariablesPanel';
 import { ExecutionPanel } from './ExecutionPanel';
+import { BuildCachePanel } from './BuildCachePanel';
+import { TimelinePanel } from './TimelinePanel';
+import { ExportPanel } from './ExportPanel';
+import { ImportDialog } from './ImportDialog';
+import { CanvasToolbar } from './CanvasToolbar';
+import { ErrorListDialog } from './ErrorListDialog';
+import { RecoveryDialog } from './RecoveryDialog';
+import { WorkspaceManager } from './WorkspaceManager';
+import { ImageExportDialog } from './ImageExportDialog';
+import { ShareLinkDialog } from './ShareLinkDialog';
+import { SharedGraphDialog } from './SharedGraphDialog';
 import { sampleNodes, sampleEdges } from '../data/sampleGraph';
 import { validateConnection } from '../utils/graphUtils';
 import {
   createInitialExecutionState,
-  getExecutionOrder,
-  simulateTaskExecution,
+  getExecutionPlan,
+  getDryRun,
+  type DebugStepMode,
   createLogEntry,
+  DEFAULT_MAX_WORKERS,
+  parseSimulationSeed,
+  predictFailureImpact,
 } from '../utils/executionUtils';
-import { shouldExecuteTask } from '../utils/conditionUtils';
+import {
+  continueGraphRun,
+  createGraphRun,
+  discardGraphRun,
+  executeGraphRun,
+  pauseGraphRun,
+  resumeGraphRun,
+  stopGraphRun,
+  type GraphRun,
+} from '../utils/graphRunUtils';
+import { addRunRecord, createRunRecord, runRecordToExecutionState } from '../utils/runHistoryUtils';
+import { analyzeCriticalPath, estimateSpeedup, getTaskDurations } from '../utils/criticalPathUtils';
+import { createIncrementalState } from '../utils/upToDateUtils';
+import { cleanBuildCache, createBuildCache } from '../utils/buildCacheUtils';
+import type { ExecutionBackend } from '../utils/taskExecutorUtils';
+import {
+  GRAPH_FILE_TYPE,
+  createDocumentMetadata,
+  createGraphDocument,
+  documentFileName,
+  documentNameFromFile,
+  parseGraphDocument,
+  readGraphDocument,
+  serializeGraphDocument,
+} from '../utils/graphDocumentUtils';
+import {
+  AUTOSAVE_DELAY_MS,
+  type AutosaveStatus,
+  deleteWorkspace,
+  findWorkspaceByFileName,
+  generateWorkspaceId,
+  getLastWorkspaceId,
+  getWorkspace,
+  isSameGraph,
+  listWorkspaces,
+  putWorkspace,
+  restoreExecutionState,
+  saveExecutionState,
+  setLastWorkspaceId,
+} from '../utils/workspaceUtils';
+import { openTextFile, saveTextFile } from '../utils/fileUtils';
+import {
+  type PermalinkResult,
+  buildPermalink,
+  clearPermalinkFromUrl,
+  decodeGraphPermalink,
+  readPermalinkPayload,
+} from '../utils/permalinkUtils';
 import {
   type GradleTaskNode as GradleTaskNodeType,
   type GradleTaskNodeData,
@@ -45,6 +107,13 @@ import {
   type Variable,
   type ExecutionState,
   type TaskExecutionStatus,
+  type TaskExecutionResult,
+  type RunRecord,
+  type GraphImportResult,
+  type GraphDocument,
+  type GraphDocumentMetadata,
+  type Workspace,
+  type GraphViewport,
   defaultTaskConfigs,
   systemVariables,
 } from '../types/gradle';
@@ -64,11 +133,16 @@ const edgeTypes: EdgeTypes = {
 };
 
 /**
- * Generate a unique ID for new nodes
+ * Generate an ID for a new node that no node of the graph uses yet; graphs opened from
+ * files or workspaces may already contain task_N ids beyond the counter
  */
 let nodeIdCounter = 100;
-function generateNodeId(): string {
-  return `task_${++nodeIdCounter}`;
+function generateNodeId(usedIds: Set<string>): string {
+  let id: string;
+  do {
+    id = `task_${++nodeIdCounter}`;
+  } while (usedIds.has(id));
+  return id;
 }
 
 /**
@@ -116,7 +190,7 @@ function MultiSelectPanel({ selectedNodes, onDelete }: MultiSelectPanelProps) {
  */
 function TaskGraphCanvasInner() {
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
-  const { screenToFlowPosition } = useReactFlow();
+  const { screenToFlowPosition, fitView, getViewport, setViewport } = useReactFlow();
 
   const [nodes, setNodes, onNodesChange] = useNodesState<AppNode>(sampleNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState<GradleEdge>(sampleEdges);
@@ -130,7 +204,52 @@ function TaskGraphCanvasInner() {
     createInitialExecutionState()
   );
   const [executionPanelExpanded, setExecutionPanelExpanded] = useState(true);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const [runHistory, setRunHistory] = useState<RunRecord[]>([]);
+  const [maxWorkers, setMaxWorkers] = useState(DEFAULT_MAX_WORKERS);
+  const [continueOnFailure, setContinueOnFailure] = useState(false);
+  const [simulationSeed, setSimulationSeed] = useState('');
+  const [executionBackend, setExecutionBackend] = useState<ExecutionBackend>('simulated');
+  const [runTimeout, setRunTimeout] = useState<number | undefined>(undefined);
+  const [clockScale, setClockScale] = useState(1);
+  const [exportPanelExpanded, setExportPanelExpanded] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [documentMetadata, setDocumentMetadata] = useState<GraphDocumentMetadata>(() =>
+    createDocumentMetadata()
+  );
+  const [fileHandle, setFileHandle] = useState<FileSystemFileHandle | null>(null);
+  const [linkedFileName, setLinkedFileName] = useState<string | undefined>(undefined);
+  const [documentError, setDocumentError] = useState<{ title: string; errors: string[] } | null>(null);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [autosaveStatus, setAutosaveStatus] = useState<AutosaveStatus>({ state: 'idle' });
+  const [workspaceManagerOpen, setWorkspaceManagerOpen] = useState(false);
+  const [recoveryOffer, setRecoveryOffer] = useState<{
+    workspace: Workspace;
+    document: GraphDocument;
+    file: { name: string; handle: FileSystemFileHandle | null };
+  } | null>(null);
+  const [imageExport, setImageExport] = useState<{
+    viewport: GraphViewport;
+    canvasSize: { width: number; height: number };
+  } | null>(null);
+  const [shareLink, setShareLink] = useState<PermalinkResult | null>(null);
+  const [sharedGraph, setSharedGraph] = useState<GraphDocument | null>(null);
+  const pendingSaveRef = useRef<(() => Promise<void>) | null>(null);
+  const workspaceRestoreStartedRef = useRef(false);
+  const runRef = useRef<GraphRun | null>(null);
+  const variablesRef = useRef(variables);
+  useEffect(() => {
+    variablesRef.current = variables;
+  }, [variables]);
+  const nodesRef = useRef(nodes);
+  useEffect(() => {
+    nodesRef.current = nodes;
+  }, [nodes]);
+  const incrementalStateRef = useRef(createIncrementalState());
+  const [buildCache, setBuildCache] = useState(createBuildCache);
+  const buildCacheRef = useRef(buildCache);
+  const [buildCachePanelExpanded, setBuildCachePanelExpanded] = useState(false);
+  const [timelineExpanded, setTimelineExpanded] = useState(false);
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
 
   // Get the selected nodes from the node list
   const selectedNodes = useMemo(() => {
@@ -148,6 +267,31 @@ function TaskGraphCanvasInner() {
     return nodes.filter((n): n is GradleTaskNodeType => n.type === 'gradleTask');
   }, [nodes]);
 
+  // Critical path from the last run's durations, estimated for tasks that did not run
+  const taskDurations = useMemo(
+    () => getTaskDurations(allGradleNodes, executionState.taskResults),
+    [allGradleNodes, executionState.taskResults]
+  );
+  const criticalPath = useMemo(
+    () => analyzeCriticalPath(allGradleNodes, edges, taskDurations),
+    [allGradleNodes, edges, taskDurations]
+  );
+  const estimateBuildTime = useCallback(
+    (nodeId: string, percentFaster: number) =>
+      estimateSpeedup(allGradleNodes, edges, taskDurations, nodeId, percentFaster),
+    [allGradleNodes, edges, taskDurations]
+  );
+
+  // Edges as rendered, with the critical path emphasised when it is shown
+  const displayEdges = useMemo(() => {
+    if (!showCriticalPath) return edges;
+    return edges.map((edge) =>
+      criticalPath.pathEdgeIds.has(edge.id)
+        ? { ...edge, data: { dependencyType: 'dependsOn' as const, ...edge.data, critical: true } }
+        : edge
+    );
+  }, [edges, showCriticalPath, criticalPath]);
+
   // Get existing task names for unique name generation
   const existingTaskNames = useMemo(() => {
     return new Set(allGradleNodes.map((n) => n.data.taskName));
@@ -193,6 +337,20 @@ function TaskGraphCanvasInner() {
     []
   );
 
+  /**
+   * Select a task and bring it into view, e.g. from the timeline
+   */
+  const handleSelectTask = useCallback(
+    (taskId: string) => {
+      setNodes((nds) => nds.map((node) => ({ ...node, selected: node.id === taskId })));
+      setSelectedNodeIds([taskId]);
+      setSelectedEdgeId(null);
+      const { zoom } = getViewport();
+      fitView({ nodes: [{ id: taskId }], minZoom: zoom, maxZoom: zoom, duration: 300 });
+    },
+    [setNodes, getViewport, fitView]
+  );
+
   /**
    * Handle edge click for selection
    */
@@ -397,6 +555,7 @@ function TaskGraphCanvasInner() {
             data: {
               ...node.data,
               executionStatus: 'idle' as TaskExecutionStatus,
+              dryRun: undefined,
             },
           };
         }
@@ -406,14 +565,15 @@ function TaskGraphCanvasInner() {
   }, [setNodes]);
 
   /**
-   * Run execution for the specified tasks or all tasks
+   * Run the specified tasks (or all tasks). The run itself lives in graphRunUtils;
+   * this only feeds it the editor state and shows what it reports.
    */
   const handleRun = useCallback(
     async (taskIds?: string[]) => {
-      // Calculate execution order
-      const order = getExecutionOrder(allGradleNodes, edges, taskIds);
+      // Plan the run: which tasks take part and what each waits for
+      const plan = getExecutionPlan(allGradleNodes, edges, taskIds);
 
-      if (order.length === 0) {
+      if (plan.order.length === 0) {
         setExecutionState((prev) => ({
           ...prev,
           logs: [
@@ -424,217 +584,206 @@ function TaskGraphCanvasInner() {
         return;
       }
 
-      // Create abort controller for stopping execution
-      const abortController = new AbortController();
-      abortControllerRef.current = abortController;
-
-      // Initialize execution state
-      const initialResults = new Map<string, {
-        taskId: string;
-        taskName: string;
-        status: TaskExecutionStatus;
-      }>();
-      order.forEach((taskId) => {
-        const node = allGradleNodes.find((n) => n.id === taskId);
-        if (node) {
-          initialResults.set(taskId, {
-            taskId,
-            taskName: node.data.taskName,
-            status: 'pending',
-          });
-          updateNodeExecutionStatus(taskId, 'pending');
-        }
-      });
+      if (runRef.current) discardGraphRun(runRef.current);
+      const run = createGraphRun(setExecutionState);
+      runRef.current = run;
 
-      setExecutionState({
-        isRunning: true,
-        isPaused: false,
-        startTime: Date.now(),
-        executionOrder: order,
-        taskResults: initialResults,
-        logs: [createLogEntry('info', `Starting execution of ${order.length} tasks...`)],
+      // A real run replaces any dry-run preview
+      setNodes((nds) =>
+        nds.map((node) =>
+          node.type === 'gradleTask' && node.data.dryRun ? { ...node, data: { ...node.data, dryRun: undefined } } : node
+        )
+      );
+
+      const finished = await executeGraphRun(run, {
+        nodes: allGradleNodes,
+        edges,
+        plan,
+        settings: {
+          maxWorkers,
+          continueOnFailure,
+          seed: parseSimulationSeed(simulationSeed),
+          backend: executionBackend,
+          runTimeout,
+          clockScale,
+        },
+        getVariables: () => variablesRef.current,
+        hasBreakpoint: (taskId) =>
+          nodesRef.current.some((node) => node.id === taskId && node.type === 'gradleTask' && node.data.breakpoint === true),
+        incrementalState: incrementalStateRef.current,
+        getBuildCache: () => buildCacheRef.current,
+        setBuildCache: (cache) => {
+          buildCacheRef.current = cache;
+          setBuildCache(cache);
+        },
+        onTaskStatusChange: updateNodeExecutionStatus,
       });
+      if (runRef.current === run) runRef.current = null;
+      // A newer run or a different graph has taken over
+      if (!finished) return;
+
+      // Keep the finished run in the workspace's history
+      const names = new Map(allGradleNodes.map((n) => [n.id, n.data.taskName]));
+      const record = createRunRecord(
+        finished,
+        (taskIds ?? []).map((id) => names.get(id) ?? id),
+        variablesRef.current,
+        run.abortController.signal.aborted
+      );
+      setRunHistory((history) => addRunRecord(history, record));
+    },
+    [allGradleNodes, edges, setNodes, updateNodeExecutionStatus, maxWorkers, continueOnFailure, simulationSeed, executionBackend, runTimeout, clockScale]
+  );
 
-      // Execute tasks in order
-      for (const taskId of order) {
-        // Check for abort
-        if (abortController.signal.aborted) {
-          break;
-        }
+  /**
+   * Remove every build cache entry
+   */
+  const handleCleanBuildCache = useCallback(() => {
+    buildCacheRef.current = cleanBuildCache(buildCacheRef.current);
+    setBuildCache(buildCacheRef.current);
+  }, []);
 
-        // Wait while paused
-        while (
-          !abortController.signal.aborted &&
-          abortControllerRef.current === abortController
-        ) {
-          const state = await new Promise<ExecutionState>((resolve) => {
-            setExecutionState((prev) => {
-              resolve(prev);
-              return prev;
-            });
-          });
-          if (!state.isPaused) break;
-          await new Promise((r) => setTimeout(r, 100));
-        }
+  /**
+   * Show how a failure of one task would spread through a full run, without running anything
+   */
+  const handleWhatIfFails = useCallback(
+    (taskId: string) => {
+      if (runRef.current) return;
 
-        if (abortController.signal.aborted) break;
-
-        const node = allGradleNodes.find((n) => n.id === taskId);
-        if (!node) continue;
-
-        // Check if task should be executed based on conditions
-        const conditionResult = shouldExecuteTask(node.data.condition, variables);
-        if (!conditionResult.execute) {
-          // Skip this task due to condition
-          updateNodeExecutionStatus(taskId, 'skipped');
-          setExecutionState((prev) => ({
-            ...prev,
-            taskResults: new Map(prev.taskResults).set(taskId, {
-              taskId,
-              taskName: node.data.taskName,
-              status: 'skipped',
-            }),
-            logs: [
-              ...prev.logs,
-              createLogEntry(
-                'warn',
-                `Skipping task: ${node.data.taskName} - ${conditionResult.reason}`,
-                taskId,
-                node.data.taskName
-              ),
-            ],
-          }));
-          continue;
-        }
+      const plan = getExecutionPlan(allGradleNodes, edges);
+      const names = new Map(allGradleNodes.map((n) => [n.id, n.data.taskName]));
+      const taskName = (id: string) => names.get(id) ?? id;
+      const { statuses, skipReasons } = predictFailureImpact(plan, taskId, continueOnFailure, edges, taskName);
 
-        // Update status to running
-        updateNodeExecutionStatus(taskId, 'running');
-        setExecutionState((prev) => ({
-          ...prev,
-          currentTaskId: taskId,
-          taskResults: new Map(prev.taskResults).set(taskId, {
-            taskId,
-            taskName: node.data.taskName,
-            status: 'running',
-            startTime: Date.now(),
-          }),
-          logs: [...prev.logs, createLogEntry('info', `Running task: ${node.data.taskName}`, taskId, node.data.taskName)],
-        }));
+      setNodes((nds) =>
+        nds.map((node) =>
+          node.type === 'gradleTask'
+            ? { ...node, data: { ...node.data, executionStatus: statuses.get(node.id) ?? 'idle', dryRun: undefined } }
+            : node
+        )
+      );
 
-        // Simulate task execution
-        const startTime = Date.now();
-        const result = await simulateTaskExecution(node, (output) => {
-          setExecutionState((prev) => ({
-            ...prev,
-            logs: [...prev.logs, createLogEntry('info', output, taskId, node.data.taskName)],
-          }));
-        });
+      const taskResults = new Map<string, TaskExecutionResult>();
+      statuses.forEach((status, id) => {
+        taskResults.set(id, { taskId: id, taskName: taskName(id), status, skipReason: skipReasons.get(id) });
+      });
+      const ranAfterFailure = plan.order.slice(plan.order.indexOf(taskId) + 1).filter((id) => statuses.get(id) === 'success');
 
-        const endTime = Date.now();
-        const duration = endTime - startTime;
-        const status: TaskExecutionStatus = result.success ? 'success' : 'failed';
+      setExecutionState({
+        ...createInitialExecutionState(),
+        executionOrder: plan.order,
+        taskResults,
+        logs: [
+          createLogEntry(
+            'info',
+            `What if ${taskName(taskId)} fails${continueOnFailure ? ' (with --continue)' : ''}? Predicted outcome, nothing was run.`
+          ),
+          createLogEntry('error', `Task ${taskName(taskId)} failed`, taskId, taskName(taskId)),
+          ...[...skipReasons].map(([id, reason]) =>
+            createLogEntry('warn', `Would skip ${taskName(id)} - ${reason}`, id, taskName(id))
+          ),
+          ...ranAfterFailure.map((id) =>
+            createLogEntry('info', `Would still run ${taskName(id)}`, id, taskName(id))
+          ),
+          createLogEntry(
+            'info',
+            `${skipReasons.size} task(s) would be skipped and ${ranAfterFailure.length} would still run after the failure`
+          ),
+        ],
+      });
+      setExecutionPanelExpanded(true);
+    },
+    [allGradleNodes, edges, continueOnFailure, setNodes]
+  );
 
-        // Update node and execution state
-        updateNodeExecutionStatus(taskId, status);
-        setExecutionState((prev) => ({
-          ...prev,
-          taskResults: new Map(prev.taskResults).set(taskId, {
-            taskId,
-            taskName: node.data.taskName,
-            status,
-            startTime,
-            endTime,
-            duration,
-            output: result.output,
-            error: result.error,
-          }),
-          logs: [
-            ...prev.logs,
-            createLogEntry(
-              result.success ? 'success' : 'error',
-              result.success ? `Task ${node.data.taskName} completed` : `Task ${node.data.taskName} failed: ${result.error}`,
-              taskId,
-              node.data.taskName
-            ),
-          ],
-        }));
+  /**
+   * Preview a run on the canvas without executing anything, like `gradle --dry-run`
+   */
+  const handleDryRun = useCallback(
+    (taskIds?: string[]) => {
+      if (runRef.current) return;
 
-        // Stop on failure
-        if (!result.success) {
-          // Mark remaining tasks as skipped
-          const currentIndex = order.indexOf(taskId);
-          for (let i = currentIndex + 1; i < order.length; i++) {
-            const skipId = order[i];
-            const skipNode = allGradleNodes.find((n) => n.id === skipId);
-            if (skipNode) {
-              updateNodeExecutionStatus(skipId, 'skipped');
-              setExecutionState((prev) => ({
-                ...prev,
-                taskResults: new Map(prev.taskResults).set(skipId, {
-                  taskId: skipId,
-                  taskName: skipNode.data.taskName,
-                  status: 'skipped',
-                }),
-              }));
-            }
-          }
-          break;
-        }
-      }
+      const { plan, tasks, listing } = getDryRun(allGradleNodes, edges, variables, taskIds);
+      setNodes((nds) =>
+        nds.map((node) =>
+          node.type === 'gradleTask'
+            ? { ...node, data: { ...node.data, executionStatus: 'idle', dryRun: tasks.get(node.id) } }
+            : node
+        )
+      );
 
-      // Mark execution as complete
-      setExecutionState((prev) => ({
-        ...prev,
-        isRunning: false,
-        isPaused: false,
-        endTime: Date.now(),
-        currentTaskId: undefined,
-        logs: [...prev.logs, createLogEntry('info', 'Execution finished')],
-      }));
-
-      abortControllerRef.current = null;
+      const names = new Map(allGradleNodes.map((n) => [n.id, n.data.taskName]));
+      const skipped = [...tasks].filter(([, task]) => task.decision === 'skip');
+      const runCount = [...tasks.values()].filter((task) => task.decision === 'run').length;
+      setExecutionState({
+        ...createInitialExecutionState(),
+        executionOrder: plan.order,
+        logs: [
+          createLogEntry('info', 'Dry run: nothing was executed'),
+          ...listing.map((line) => createLogEntry('info', line)),
+          ...skipped.map(([id, task]) =>
+            createLogEntry('warn', `Would skip ${names.get(id) ?? id} - ${task.reason}`, id, names.get(id))
+          ),
+          createLogEntry(
+            'info',
+            `${runCount} task(s) would run, ${skipped.length} would be skipped and ${
+              tasks.size - runCount - skipped.length
+            } are not part of the run`
+          ),
+        ],
+      });
+      setExecutionPanelExpanded(true);
     },
-    [allGradleNodes, edges, updateNodeExecutionStatus, variables]
+    [allGradleNodes, edges, variables, setNodes]
   );
 
   /**
-   * Stop execution
+   * Stop execution, cancelling every task in flight
    */
   const handleStop = useCallback(() => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-
-    setExecutionState((prev) => ({
-      ...prev,
-      isRunning: false,
-      isPaused: false,
-      logs: [...prev.logs, createLogEntry('warn', 'Execution stopped by user')],
-    }));
+    if (runRef.current) stopGraphRun(runRef.current);
   }, []);
 
   /**
-   * Pause execution
+   * Pause execution: no new tasks start and running tasks are suspended
    */
   const handlePause = useCallback(() => {
-    setExecutionState((prev) => ({
-      ...prev,
-      isPaused: true,
-      logs: [...prev.logs, createLogEntry('info', 'Execution paused')],
-    }));
+    if (runRef.current) pauseGraphRun(runRef.current);
   }, []);
 
   /**
    * Resume execution
    */
   const handleResume = useCallback(() => {
-    setExecutionState((prev) => ({
-      ...prev,
-      isPaused: false,
-      logs: [...prev.logs, createLogEntry('info', 'Execution resumed')],
-    }));
+    if (runRef.current) resumeGraphRun(runRef.current);
   }, []);
 
+  /**
+   * Continue a run held by the debugger
+   */
+  const handleDebugResume = useCallback((mode: DebugStepMode) => {
+    if (runRef.current) continueGraphRun(runRef.current, mode);
+  }, []);
+
+  /**
+   * Show a recorded run again, on the canvas and in the execution panel
+   */
+  const handleViewRun = useCallback(
+    (record: RunRecord) => {
+      if (runRef.current) return;
+      const statuses = new Map(record.taskResults.map((r) => [r.taskId, r.status]));
+      setNodes((nds) =>
+        nds.map((node) =>
+          node.type === 'gradleTask'
+            ? { ...node, data: { ...node.data, executionStatus: statuses.get(node.id) ?? 'idle', dryRun: undefined } }
+            : node
+        )
+      );
+      setExecutionState(runRecordToExecutionState(record));
+    },
+    [setNodes]
+  );
+
   /**
    * Reset execution state
    */
@@ -643,11 +792,416 @@ function TaskGraphCanvasInner() {
     setExecutionState(createInitialExecutionState());
   }, [clearNodeExecutionStatuses]);
 
+  /**
+   * Replace the whole graph, stopping any run and clearing selection
+   */
+  const replaceGraph = useCallback(
+    (newNodes: GradleTaskNodeType[], newEdges: GradleEdge[], newVariables: Variable[]) => {
+      if (runRef.current) discardGraphRun(runRef.current);
+      runRef.current = null;
+
+      setNodes(newNodes);
+      setEdges(newEdges);
+      setVariables(newVariables);
+      setExecutionState(createInitialExecutionState());
+      setRunHistory([]);
+      incrementalStateRef.current = createIncrementalState();
+      buildCacheRef.current = createBuildCache();
+      setBuildCache(buildCacheRef.current);
+      setSelectedNodeIds([]);
+      setSelectedEdgeId(null);
+    },
+    [setNodes, setEdges]
+  );
+
+  /**
+   * Snapshot the editor state as a workspace record
+   */
+  const captureWorkspace = useCallback(
+    (id: string): Workspace => ({
+      id,
+      document: createGraphDocument(allGradleNodes, edges, variables, getViewport(), documentMetadata),
+      execution: saveExecutionState(executionState),
+      history: runHistory,
+      fileName: linkedFileName,
+      fileHandle,
+      savedAt: Date.now(),
+    }),
+    [allGradleNodes, edges, variables, getViewport, documentMetadata, executionState, runHistory, linkedFileName, fileHandle]
+  );
+
+  /**
+   * Write the current workspace to browser storage
+   */
+  const persistWorkspace = useCallback(async () => {
+    if (!workspaceId) return;
+    setAutosaveStatus({ state: 'saving' });
+    try {
+      const workspace = captureWorkspace(workspaceId);
+      // Keep the last good copy rather than store one that could not be opened again
+      const check = readGraphDocument(workspace.document);
+      if (!check.ok) throw new Error(`Not saved: ${check.errors[0]}`);
+      await putWorkspace(workspace);
+      setAutosaveStatus({ state: 'saved', savedAt: workspace.savedAt });
+    } catch (error) {
+      setAutosaveStatus({
+        state: 'error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, [workspaceId, captureWorkspace]);
+
+  // Autosave shortly after the last change
+  useEffect(() => {
+    if (!workspaceId) return;
+    pendingSaveRef.current = persistWorkspace;
+    const timer = setTimeout(() => {
+      pendingSaveRef.current = null;
+      persistWorkspace();
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [workspaceId, persistWorkspace]);
+
+  // Flush a pending autosave when the tab is hidden or closed
+  useEffect(() => {
+    const flush = () => {
+      if (document.visibilityState === 'hidden') {
+        pendingSaveRef.current?.();
+      }
+    };
+    document.addEventListener('visibilitychange', flush);
+    return () => document.removeEventListener('visibilitychange', flush);
+  }, []);
+
+  /**
+   * Load a document into the editor and make it the open workspace
+   */
+  const bindDocument = useCallback(
+    (
+      doc: GraphDocument,
+      id: string,
+      file?: { name: string; handle: FileSystemFileHandle | null }
+    ) => {
+      replaceGraph(doc.nodes, doc.edges, doc.variables);
+      setDocumentMetadata(doc.metadata);
+      setViewport(doc.viewport);
+      setFileHandle(file?.handle ?? null);
+      setLinkedFileName(file?.name);
+      setWorkspaceId(id);
+      setLastWorkspaceId(id).catch(() => undefined);
+    },
+    [replaceGraph, setViewport]
+  );
+
+  /**
+   * Open a stored workspace, including its last execution state
+   */
+  const applyWorkspace = useCallback(
+    (workspace: Workspace, handle: FileSystemFileHandle | null = workspace.fileHandle ?? null) => {
+      // Stored documents go through the same migrations as files
+      const result = readGraphDocument(workspace.document);
+      if (!result.ok) {
+        setDocumentError({ title: `Could not open workspace "${workspace.document.metadata.name}"`, errors: result.errors });
+        return;
+      }
+
+      const execution = workspace.execution
+        ? restoreExecutionState(workspace.execution)
+        : createInitialExecutionState();
+      const doc = {
+        ...result.document,
+        nodes: result.document.nodes.map((node) => {
+          const taskResult = execution.taskResults.get(node.id);
+          return taskResult
+            ? { ...node, data: { ...node.data, executionStatus: taskResult.status } }
+            : node;
+        }),
+      };
+
+      bindDocument(doc, workspace.id, workspace.fileName ? { name: workspace.fileName, handle } : undefined);
+      setExecutionState(execution);
+      setRunHistory(workspace.history ?? []);
+    },
+    [bindDocument]
+  );
+
+  /**
+   * Decode a graph permalink in the address bar and ask before opening it
+   */
+  const readPermalinkFromUrl = useCallback(async () => {
+    const payload = readPermalinkPayload(window.location.hash);
+    if (!payload) return;
+
+    const result = await decodeGraphPermalink(payload);
+    // Drop the payload so a reload does not ask again
+    clearPermalinkFromUrl();
+    if (result.ok) {
+      setSharedGraph(result.document);
+    } else {
+      setDocumentError({ title: 'Could not open shared link', errors: result.errors });
+    }
+  }, []);
+
+  // Restore the workspace that was open last time instead of the sample graph
+  useEffect(() => {
+    if (workspaceRestoreStartedRef.current) return;
+    workspaceRestoreStartedRef.current = true;
+
+    (async () => {
+      try {
+        const lastId = await getLastWorkspaceId();
+        const workspace = lastId ? await getWorkspace(lastId) : undefined;
+        if (workspace) {
+          applyWorkspace(workspace);
+        } else {
+          const id = generateWorkspaceId();
+          setWorkspaceId(id);
+          await setLastWorkspaceId(id);
+        }
+      } catch (error) {
+        setAutosaveStatus({
+          state: 'error',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      // A shared graph is offered on top of the restored workspace, never in place of it
+      await readPermalinkFromUrl();
+    })();
+  }, [applyWorkspace, readPermalinkFromUrl]);
+
+  // Pick up permalinks pasted into the address bar of an open tab
+  useEffect(() => {
+    const onHashChange = () => {
+      readPermalinkFromUrl();
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, [readPermalinkFromUrl]);
+
+  /**
+   * Replace the current graph with an imported one (in a new workspace)
+   */
+  const handleImportGraph = useCallback(
+    async (result: GraphImportResult) => {
+      setImportDialogOpen(false);
+      await persistWorkspace();
+      bindDocument(
+        createGraphDocument(result.nodes, result.edges, result.variables, getViewport(), createDocumentMetadata('Imported graph')),
+        generateWorkspaceId()
+      );
+
+      // Wait for React Flow to measure the new nodes before fitting
+      requestAnimationFrame(() => fitView({ padding: 0.2 }));
+    },
+    [persistWorkspace, bindDocument, getViewport, fitView]
+  );
+
+  /**
+   * Open a .gradleflow.json file, offering to restore a newer autosaved copy
+   */
+  const handleOpenDocument = useCallback(async () => {
+    try {
+      const opened = await openTextFile(GRAPH_FILE_TYPE);
+      if (!opened) return;
+
+      const result = parseGraphDocument(opened.content);
+      if (!result.ok) {
+        setDocumentError({ title: `Could not open ${opened.name}`, errors: result.errors });
+        return;
+      }
+
+      await persistWorkspace();
+      const doc = {
+        ...result.document,
+        metadata: { ...result.document.metadata, name: documentNameFromFile(opened.name) },
+      };
+      const file = { name: opened.name, handle: opened.handle };
+      const stored = await findWorkspaceByFileName(opened.name).catch(() => undefined);
+
+      if (
+        stored &&
+        stored.savedAt > Date.parse(doc.metadata.updatedAt) &&
+        !isSameGraph(stored.document, doc)
+      ) {
+        setRecoveryOffer({ workspace: stored, document: doc, file });
+        return;
+      }
+      bindDocument(doc, stored?.id ?? generateWorkspaceId(), file);
+    } catch (error) {
+      setDocumentError({
+        title: 'Could not open file',
+        errors: [error instanceof Error ? error.message : String(error)],
+      });
+    }
+  }, [persistWorkspace, bindDocument]);
+
+  /**
+   * Save the graph to its current file, or to a new one for Save As / unsaved graphs
+   */
+  const handleSaveDocument = useCallback(
+    async (saveAs: boolean) => {
+      const doc = createGraphDocument(allGradleNodes, edges, variables, getViewport(), documentMetadata);
+      const fileName = fileHandle?.name ?? linkedFileName ?? documentFileName(documentMetadata.name);
+
+      try {
+        const written = await saveTextFile(
+          fileName,
+          serializeGraphDocument(doc),
+          GRAPH_FILE_TYPE,
+          saveAs ? null : fileHandle
+        );
+        if (written === undefined) return;
+
+        setFileHandle(written);
+        setLinkedFileName(written?.name ?? fileName);
+        setDocumentMetadata(
+          written ? { ...doc.metadata, name: documentNameFromFile(written.name) } : doc.metadata
+        );
+      } catch (error) {
+        setDocumentError({
+          title: `Could not save ${fileName}`,
+          errors: [error instanceof Error ? error.message : String(error)],
+        });
+      }
+    },
+    [allGradleNodes, edges, variables, getViewport, documentMetadata, fileHandle, linkedFileName]
+  );
+
+  /**
+   * Build a permalink to the current graph
+   */
+  const handleShareLink = useCallback(async () => {
+    try {
+      const doc = createGraphDocument(allGradleNodes, edges, variables, getViewport(), documentMetadata);
+      setShareLink(await buildPermalink(doc));
+    } catch (error) {
+      setDocumentError({
+        title: 'Could not create a link',
+        errors: [error instanceof Error ? error.message : String(error)],
+      });
+    }
+  }, [allGradleNodes, edges, variables, getViewport, documentMetadata]);
+
+  /**
+   * Open a graph from a permalink as a new workspace, keeping the current one
+   */
+  const handleOpenSharedGraph = useCallback(async () => {
+    if (!sharedGraph) return;
+    setSharedGraph(null);
+    await persistWorkspace();
+    bindDocument(sharedGraph, generateWorkspaceId());
+  }, [sharedGraph, persistWorkspace, bindDocument]);
+
+  /**
+   * Start an empty workspace
+   */
+  const handleCreateWorkspace = useCallback(async () => {
+    await persistWorkspace();
+    bindDocument(
+      createGraphDocument([], [], systemVariables.map((v) => ({ ...v })), { x: 0, y: 0, zoom: 1 }, createDocumentMetadata()),
+      generateWorkspaceId()
+    );
+  }, [persistWorkspace, bindDocument]);
+
+  /**
+   * Switch to another stored workspace
+   */
+  const handleSwitchWorkspace = useCallback(
+    async (id: string) => {
+      if (id === workspaceId) return;
+      await persistWorkspace();
+      const workspace = await getWorkspace(id);
+      if (workspace) applyWorkspace(workspace);
+    },
+    [workspaceId, persistWorkspace, applyWorkspace]
+  );
+
+  /**
+   * Store a copy of a workspace under a new name
+   */
+  const handleDuplicateWorkspace = useCallback(
+    async (id: string) => {
+      if (id === workspaceId) await persistWorkspace();
+      const workspace = await getWorkspace(id);
+      if (!workspace) return;
+
+      const metadata = createDocumentMetadata(`${workspace.document.metadata.name} (copy)`);
+      await putWorkspace({
+        ...workspace,
+        id: generateWorkspaceId(),
+        document: { ...workspace.document, metadata },
+        fileName: undefined,
+        fileHandle: null,
+        savedAt: Date.now(),
+      });
+    },
+    [workspaceId, persistWorkspace]
+  );
+
+  /**
+   * Rename a workspace
+   */
+  const handleRenameWorkspace = useCallback(
+    async (id: string, name: string) => {
+      if (id === workspaceId) {
+        setDocumentMetadata((prev) => ({ ...prev, name }));
+      }
+      const workspace = await getWorkspace(id);
+      if (workspace) {
+        await putWorkspace({
+          ...workspace,
+          document: { ...workspace.document, metadata: { ...workspace.document.metadata, name } },
+        });
+      }
+    },
+    [workspaceId]
+  );
+
+  /**
+   * Delete a workspace; deleting the open one switches to the most recent other workspace
+   */
+  const handleDeleteWorkspace = useCallback(
+    async (id: string) => {
+      const isCurrent = id === workspaceId;
+      // Detach first so a pending autosave cannot recreate the deleted workspace
+      if (isCurrent) setWorkspaceId(null);
+      await deleteWorkspace(id);
+      if (!isCurrent) return;
+
+      const [next] = await listWorkspaces();
+      const workspace = next ? await getWorkspace(next.id) : undefined;
+      if (workspace) {
+        applyWorkspace(workspace);
+      } else {
+        bindDocument(
+          createGraphDocument([], [], systemVariables.map((v) => ({ ...v })), { x: 0, y: 0, zoom: 1 }, createDocumentMetadata()),
+          generateWorkspaceId()
+        );
+      }
+    },
+    [workspaceId, applyWorkspace, bindDocument]
+  );
+
   /**
    * Handle keyboard events for deletion
    */
   const onKeyDown = useCallback(
     (event: React.KeyboardEvent) => {
+      // File shortcuts
+      if (event.ctrlKey || event.metaKey) {
+        const key = event.key.toLowerCase();
+        if (key === 's') {
+          event.preventDefault();
+          handleSaveDocument(event.shiftKey);
+          return;
+        }
+        if (key === 'o') {
+          event.preventDefault();
+          handleOpenDocument();
+          return;
+        }
+      }
+
       if (event.key === 'Delete' || event.key === 'Backspace') {
         // Don't delete if focus is on an input
         if (
@@ -671,7 +1225,7 @@ function TaskGraphCanvasInner() {
         }
       }
     },
-    [selectedNodeIds, selectedEdgeId, handleDeleteSelected, handleEdgeDelete]
+    [selectedNodeIds, selectedEdgeId, handleDeleteSelected, handleEdgeDelete, handleSaveDocument, handleOpenDocument]
   );
 
   /**
@@ -706,7 +1260,7 @@ function TaskGraphCanvasInner() {
       });
 
       // Generate unique ID and name
-      const nodeId = generateNodeId();
+      const nodeId = generateNodeId(new Set(nodes.map((n) => n.id)));
       const taskName = generateTaskName(taskType, existingTaskNames);
 
       // Create the new node with default configuration
@@ -729,7 +1283,7 @@ function TaskGraphCanvasInner() {
       setSelectedNodeIds([nodeId]);
       setDraggedTaskType(null);
     },
-    [screenToFlowPosition, existingTaskNames, setNodes]
+    [screenToFlowPosition, nodes, existingTaskNames, setNodes]
   );
 
   return (
@@ -752,9 +1306,35 @@ function TaskGraphCanvasInner() {
           onPause={handlePause}
           onResume={handleResume}
           onReset={handleReset}
+          onDryRun={handleDryRun}
+          onDebugResume={handleDebugResume}
+          runHistory={runHistory}
+          onViewRun={handleViewRun}
+          onClearHistory={() => setRunHistory([])}
+          variables={variables}
+          onVariablesChange={setVariables}
+          maxWorkers={maxWorkers}
+          onMaxWorkersChange={setMaxWorkers}
+          continueOnFailure={continueOnFailure}
+          onContinueOnFailureChange={setContinueOnFailure}
+          simulationSeed={simulationSeed}
+          onSimulationSeedChange={setSimulationSeed}
+          executionBackend={executionBackend}
+          onExecutionBackendChange={setExecutionBackend}
+          runTimeout={runTimeout}
+          onRunTimeoutChange={setRunTimeout}
+          clockScale={clockScale}
+          onClockScaleChange={setClockScale}
           isExpanded={executionPanelExpanded}
           onToggleExpanded={() => setExecutionPanelExpanded((prev) => !prev)}
         />
+        <BuildCachePanel
+          cache={buildCache}
+          isRunning={executionState.isRunning}
+          onClean={handleCleanBuildCache}
+          isExpanded={buildCachePanelExpanded}
+          onToggleExpanded={() => setBuildCachePanelExpanded((prev) => !prev)}
+        />
       </div>
 
       {/* Canvas wrapper */}
@@ -766,7 +1346,7 @@ function TaskGraphCanvasInner() {
       >
         <ReactFlow<AppNode, GradleEdge>
           nodes={nodes}
-          edges={edges}
+          edges={displayEdges}
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
           onSelectionChange={onSelectionChange}
@@ -804,6 +1384,27 @@ function TaskGraphCanvasInner() {
             zoomable
             style={{ backgroundColor: '#f8fafc' }}
           />
+          <CanvasToolbar
+            documentName={documentMetadata.name}
+            autosaveStatus={autosaveStatus}
+            onOpenWorkspaces={() => setWorkspaceManagerOpen(true)}
+            onOpen={handleOpenDocument}
+            onSave={() => handleSaveDocument(false)}
+            onSaveAs={() => handleSaveDocument(true)}
+            onImport={() => setImportDialogOpen(true)}
+            onShareLink={handleShareLink}
+            showCriticalPath={showCriticalPath}
+            onToggleCriticalPath={() => setShowCriticalPath((prev) => !prev)}
+            onExportImage={() =>
+              setImageExport({
+                viewport: getViewport(),
+                canvasSize: {
+                  width: reactFlowWrapper.current?.clientWidth ?? 0,
+                  height: reactFlowWrapper.current?.clientHeight ?? 0,
+                },
+              })
+            }
+          />
         </ReactFlow>
 
         {/* Connection error message */}
@@ -812,6 +1413,14 @@ function TaskGraphCanvasInner() {
             {connectionError}
           </div>
         )}
+
+        <TimelinePanel
+          executionState={executionState}
+          selectedTaskIds={selectedNodeIds}
+          onSelectTask={handleSelectTask}
+          isExpanded={timelineExpanded}
+          onToggleExpanded={() => setTimelineExpanded((prev) => !prev)}
+        />
       </div>
 
       {/* Show multi-select panel when multiple nodes are selected */}
@@ -840,6 +1449,96 @@ function TaskGraphCanvasInner() {
           variables={variables}
           onNodeUpdate={handleNodeUpdate}
           onNodeDelete={handleNodeDelete}
+          onWhatIfFails={handleWhatIfFails}
+          criticalPath={criticalPath}
+          estimateBuildTime={estimateBuildTime}
+        />
+      )}
+
+      {/* Generated build script preview */}
+      <ExportPanel
+        nodes={allGradleNodes}
+        edges={edges}
+        variables={variables}
+        isExpanded={exportPanelExpanded}
+        onToggleExpanded={() => setExportPanelExpanded((prev) => !prev)}
+      />
+
+      {importDialogOpen && (
+        <ImportDialog
+          onImport={handleImportGraph}
+          onClose={() => setImportDialogOpen(false)}
+        />
+      )}
+
+      {imageExport && (
+        <ImageExportDialog
+          nodes={allGradleNodes}
+          edges={edges}
+          viewport={imageExport.viewport}
+          canvasSize={imageExport.canvasSize}
+          documentName={documentMetadata.name}
+          onClose={() => setImageExport(null)}
+        />
+      )}
+
+      {shareLink && (
+        <ShareLinkDialog
+          permalink={shareLink}
+          onDownload={() => {
+            setShareLink(null);
+            handleSaveDocument(true);
+          }}
+          onClose={() => setShareLink(null)}
+        />
+      )}
+
+      {sharedGraph && (
+        <SharedGraphDialog
+          document={sharedGraph}
+          currentWorkspaceName={documentMetadata.name}
+          onOpen={handleOpenSharedGraph}
+          onClose={() => setSharedGraph(null)}
+        />
+      )}
+
+      {workspaceManagerOpen && (
+        <WorkspaceManager
+          currentWorkspaceId={workspaceId}
+          onSwitch={handleSwitchWorkspace}
+          onCreate={handleCreateWorkspace}
+          onDuplicate={handleDuplicateWorkspace}
+          onRename={handleRenameWorkspace}
+          onDelete={handleDeleteWorkspace}
+          onClose={() => setWorkspaceManagerOpen(false)}
+        />
+      )}
+
+      {recoveryOffer && (
+        <RecoveryDialog
+          fileName={recoveryOffer.file.name}
+          fileDocument={recoveryOffer.document}
+          workspace={recoveryOffer.workspace}
+          onRestore={() => {
+            applyWorkspace(
+              { ...recoveryOffer.workspace, fileName: recoveryOffer.file.name },
+              recoveryOffer.file.handle
+            );
+            setRecoveryOffer(null);
+          }}
+          onOpenFile={() => {
+            bindDocument(recoveryOffer.document, recoveryOffer.workspace.id, recoveryOffer.file);
+            setRecoveryOffer(null);
+          }}
+          onClose={() => setRecoveryOffer(null)}
+        />
+      )}
+
+      {documentError && (
+        <ErrorListDialog
+          title={documentError.title}
+          errors={documentError.errors}
+          onClose={() => setDocumentError(null)}
         />
       )}
     </div>
@@ -0,0 +1,120 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, SkipForward, XCircle } from 'lucide-react';
+import { type GradleTaskNode, type TestCaseStatus, testCaseStatusOptions } from '../types/gradle';
+import { formatDuration } from '../utils/executionUtils';
+import { formatTestSummary, summarizeTestReport } from '../utils/testReportUtils';
+
+interface TestReportViewProps {
+  /** Test tasks with attached JUnit XML results */
+  nodes: GradleTaskNode[];
+}
+
+type TestCaseFilter = TestCaseStatus | 'all';
+
+const testCaseIcons: Record<TestCaseStatus, React.ReactNode> = {
+  passed: <CheckCircle size={12} />,
+  failed: <XCircle size={12} />,
+  error: <AlertTriangle size={12} />,
+  skipped: <SkipForward size={12} />,
+};
+
+/**
+ * Test report of the Test tasks: suites and test cases from their JUnit XML results,
+ * filtered by status, with the failure message and stack trace of each failed test
+ */
+export function TestReportView({ nodes }: TestReportViewProps) {
+  const [filter, setFilter] = useState<TestCaseFilter>('all');
+
+  const counts = useMemo(() => {
+    const byStatus: Record<TestCaseFilter, number> = { all: 0, passed: 0, failed: 0, error: 0, skipped: 0 };
+    nodes.forEach((node) =>
+      node.data.testReport?.suites.forEach((suite) =>
+        suite.cases.forEach((testCase) => {
+          byStatus.all++;
+          byStatus[testCase.status]++;
+        })
+      )
+    );
+    return byStatus;
+  }, [nodes]);
+
+  if (nodes.length === 0) {
+    return (
+      <div className="execution-empty">
+        <p>No test results attached</p>
+        <p className="hint">Attach JUnit XML reports to a Test task in its properties</p>
+      </div>
+    );
+  }
+
+  const filters: { value: TestCaseFilter; label: string }[] = [{ value: 'all', label: 'All' }, ...testCaseStatusOptions];
+
+  return (
+    <div className="test-report">
+      <div className="test-report-filters">
+        {filters.map((option) => (
+          <button
+            key={option.value}
+            className={`test-report-filter ${option.value} ${filter === option.value ? 'active' : ''}`}
+            onClick={() => setFilter(option.value)}
+            disabled={option.value !== 'all' && counts[option.value] === 0}
+          >
+            {option.label} <span className="test-report-filter-count">{counts[option.value]}</span>
+          </button>
+        ))}
+      </div>
+
+      {nodes.map((node) => {
+        const report = node.data.testReport;
+        if (!report) return null;
+        const suites = report.suites
+          .map((suite) => ({
+            ...suite,
+            cases: suite.cases.filter((testCase) => filter === 'all' || testCase.status === filter),
+          }))
+          .filter((suite) => suite.cases.length > 0);
+
+        return (
+          <div key={node.id} className="test-report-task">
+            <div className="test-report-task-header">
+              <span className="test-report-task-name">{node.data.taskName}</span>
+              <span className="test-report-meta">{formatTestSummary(summarizeTestReport(report))}</span>
+            </div>
+            {suites.length === 0 ? (
+              <div className="test-report-none">No matching tests</div>
+            ) : (
+              suites.map((suite, index) => (
+                <div key={`${suite.name}-${index}`} className="test-report-suite">
+                  <div className="test-report-suite-header">
+                    <span className="test-report-suite-name">{suite.name}</span>
+                    <span className="test-report-meta">{formatDuration(suite.duration)}</span>
+                  </div>
+                  <ul className="test-report-cases">
+                    {suite.cases.map((testCase, caseIndex) => (
+                      <li key={`${testCase.name}-${caseIndex}`} className={`test-report-case ${testCase.status}`}>
+                        <div className="test-report-case-row">
+                          <span className="test-report-case-icon">{testCaseIcons[testCase.status]}</span>
+                          <span className="test-report-case-name" title={testCase.className}>
+                            {testCase.name}
+                          </span>
+                          <span className="test-report-meta">{formatDuration(testCase.duration)}</span>
+                        </div>
+                        {testCase.message && <div className="test-report-case-message">{testCase.message}</div>}
+                        {testCase.stackTrace && (
+                          <details className="test-report-stack-trace">
+                            <summary>Stack trace</summary>
+                            <pre>{testCase.stackTrace}</pre>
+                          </details>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
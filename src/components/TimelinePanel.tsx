@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, GanttChart, Maximize2 } from 'lucide-react';
+import type { ExecutionState } from '../types/gradle';
+import { formatDuration, getStatusColor } from '../utils/executionUtils';
+import { getTickStep, getTimelineLayout, type TimelineBar } from '../utils/timelineUtils';
+
+interface TimelinePanelProps {
+  executionState: ExecutionState;
+  selectedTaskIds: string[];
+  onSelectTask: (taskId: string) => void;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+}
+
+/**
+ * Visible part of the time axis, in ms since the run started
+ */
+interface TimelineView {
+  runStart?: number;
+  offset: number;
+  span: number;
+}
+
+const LIVE_REFRESH_MS = 200;
+const MIN_SPAN_MS = 10;
+const ZOOM_FACTOR = 1.25;
+const MAX_OUTPUT_IN_TOOLTIP = 400;
+
+function describeBar(bar: TimelineBar): string {
+  const lines = [`${bar.taskName}: ${bar.status}, ${formatDuration(bar.end - bar.start)}`];
+  const detail = bar.result.error ?? bar.result.output;
+  if (detail) {
+    lines.push(detail.length > MAX_OUTPUT_IN_TOOLTIP ? `${detail.slice(0, MAX_OUTPUT_IN_TOOLTIP)}…` : detail);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Gantt chart of a run: one bar per task from its start to its end, in worker lanes.
+ * Scroll to zoom the time axis and drag to pan it.
+ */
+export function TimelinePanel({
+  executionState,
+  selectedTaskIds,
+  onSelectTask,
+  isExpanded,
+  onToggleExpanded,
+}: TimelinePanelProps) {
+  const { isRunning, taskResults, startTime } = executionState;
+  const [now, setNow] = useState(0);
+  const [view, setView] = useState<TimelineView | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; offset: number; moved: boolean; taskId?: string } | null>(null);
+
+  // Running bars grow while the run is in progress
+  useEffect(() => {
+    if (!isRunning || !isExpanded) return;
+    const timer = setInterval(() => setNow(Date.now()), LIVE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [isRunning, isExpanded]);
+
+  const layout = useMemo(
+    () => getTimelineLayout([...taskResults.values()], isRunning ? now : 0),
+    [taskResults, isRunning, now]
+  );
+  const runStart = startTime ?? layout.start;
+  const fullSpan = Math.max(layout.end - runStart, MIN_SPAN_MS);
+
+  // A zoomed view only applies to the run it was made for
+  const current = view && view.runStart === startTime ? view : { runStart: startTime, offset: 0, span: fullSpan };
+  const tickStep = getTickStep(current.span);
+  const firstTick = Math.ceil(current.offset / tickStep) * tickStep;
+  const ticks: number[] = [];
+  for (let tick = firstTick; tick <= current.offset + current.span; tick += tickStep) ticks.push(tick);
+
+  const toPercent = (time: number) => ((time - runStart - current.offset) / current.span) * 100;
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const fraction = (e.clientX - rect.left) / rect.width;
+    const cursorTime = current.offset + fraction * current.span;
+    const span = Math.min(
+      Math.max(current.span * (e.deltaY > 0 ? ZOOM_FACTOR : 1 / ZOOM_FACTOR), MIN_SPAN_MS),
+      fullSpan * 4
+    );
+    setView({ runStart: startTime, offset: cursorTime - fraction * span, span });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    // Remember the bar under the pointer now: once the pointer is captured, events target the track
+    const taskId = (e.target as HTMLElement).closest<HTMLElement>('[data-task-id]')?.dataset.taskId;
+    dragRef.current = { x: e.clientX, offset: current.offset, moved: false, taskId };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const width = trackRef.current?.clientWidth;
+    if (!drag || !width) return;
+    const dx = e.clientX - drag.x;
+    if (!drag.moved && Math.abs(dx) > 3) {
+      drag.moved = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    if (drag.moved) {
+      setView({ runStart: startTime, offset: drag.offset - (dx / width) * current.span, span: current.span });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    // A click without dragging selects the task that was under the pointer
+    if (drag && !drag.moved && drag.taskId) onSelectTask(drag.taskId);
+  };
+
+  return (
+    <div className={`timeline-panel ${isExpanded ? 'expanded' : ''}`}>
+      <div className="timeline-header">
+        <button className="timeline-toggle" onClick={onToggleExpanded}>
+          {isExpanded ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+          <GanttChart size={14} />
+          <span className="timeline-title">Timeline</span>
+          {layout.bars.length > 0 && (
+            <span className="timeline-summary">
+              {layout.bars.length} task(s) in {formatDuration(layout.end - runStart)}
+            </span>
+          )}
+        </button>
+        {isExpanded && view && view.runStart === startTime && (
+          <button className="timeline-fit" onClick={() => setView(null)} title="Show the whole run">
+            <Maximize2 size={12} />
+            Fit
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        layout.bars.length === 0 ? (
+          <div className="timeline-empty">Run tasks to see where the time goes</div>
+        ) : (
+          <div className="timeline-body">
+            <div className="timeline-labels">
+              <div className="timeline-axis-spacer" />
+              {layout.laneLabels.map((label, lane) => (
+                <div key={lane} className="timeline-lane-label" title={label}>
+                  {label}
+                </div>
+              ))}
+            </div>
+            <div
+              className="timeline-track"
+              ref={trackRef}
+              onWheel={handleWheel}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <div className="timeline-axis">
+                {ticks.map((tick) => (
+                  <span key={tick} className="timeline-tick" style={{ left: `${toPercent(runStart + tick)}%` }}>
+                    {formatDuration(tick)}
+                  </span>
+                ))}
+              </div>
+              {layout.laneLabels.map((_, lane) => (
+                <div key={lane} className="timeline-lane">
+                  {layout.bars
+                    .filter((bar) => bar.lane === lane)
+                    .map((bar) => (
+                      <div
+                        key={bar.taskId}
+                        data-task-id={bar.taskId}
+                        className={`timeline-bar ${bar.status} ${selectedTaskIds.includes(bar.taskId) ? 'selected' : ''}`}
+                        style={{
+                          left: `${toPercent(bar.start)}%`,
+                          width: `${((bar.end - bar.start) / current.span) * 100}%`,
+                          background: getStatusColor(bar.status),
+                        }}
+                        title={describeBar(bar)}
+                      >
+                        {bar.taskName}
+                      </div>
+                    ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, FolderOpen, Pencil, Plus, Trash2, X, Check } from 'lucide-react';
+import type { WorkspaceSummary } from '../types/gradle';
+import { listWorkspaces } from '../utils/workspaceUtils';
+
+interface WorkspaceManagerProps {
+  currentWorkspaceId: string | null;
+  onSwitch: (id: string) => Promise<void>;
+  onCreate: () => Promise<void>;
+  onDuplicate: (id: string) => Promise<void>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Modal listing the workspaces kept in browser storage
+ */
+export function WorkspaceManager({
+  currentWorkspaceId,
+  onSwitch,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onClose,
+}: WorkspaceManagerProps) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setWorkspaces(await listWorkspaces());
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  useEffect(() => {
+    listWorkspaces().then(setWorkspaces, (e) => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  /**
+   * Run a workspace action and reload the list afterwards
+   */
+  const runAction = useCallback(
+    async (action: () => Promise<void>) => {
+      try {
+        await action();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const handleSwitch = useCallback(
+    async (id: string) => {
+      await runAction(() => onSwitch(id));
+      onClose();
+    },
+    [runAction, onSwitch, onClose]
+  );
+
+  const handleDelete = useCallback(
+    (workspace: WorkspaceSummary) => {
+      if (window.confirm(`Delete workspace "${workspace.name}"? This cannot be undone.`)) {
+        runAction(() => onDelete(workspace.id));
+      }
+    },
+    [runAction, onDelete]
+  );
+
+  const commitRename = useCallback(() => {
+    const id = renamingId;
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (id && name) {
+      runAction(() => onRename(id, name));
+    }
+  }, [renamingId, renameValue, runAction, onRename]);
+
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div className="dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="panel-header">
+          <h2>Workspaces</h2>
+          <button className="dialog-close" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-content">
+          {error && <div className="import-summary error">{error}</div>}
+
+          <ul className="workspace-list">
+            {workspaces.map((workspace) => {
+              const isCurrent = workspace.id === currentWorkspaceId;
+              return (
+                <li key={workspace.id} className={`workspace-item ${isCurrent ? 'current' : ''}`}>
+                  <div className="workspace-info">
+                    {renamingId === workspace.id ? (
+                      <input
+                        className="workspace-rename"
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        onBlur={commitRename}
+                        autoFocus
+                      />
+                    ) : (
+                      <span className="workspace-name">
+                        {workspace.name}
+                        {isCurrent && <span className="workspace-current-badge">open</span>}
+                      </span>
+                    )}
+                    <span className="workspace-meta">
+                      {workspace.taskCount} task(s)
+                      {workspace.fileName && ` · ${workspace.fileName}`}
+                      {` · saved ${new Date(workspace.savedAt).toLocaleString()}`}
+                    </span>
+                  </div>
+                  <div className="workspace-actions">
+                    {!isCurrent && (
+                      <button onClick={() => handleSwitch(workspace.id)} title="Open workspace">
+                        <FolderOpen size={14} />
+                      </button>
+                    )}
+                    {renamingId === workspace.id ? (
+                      <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} title="Save name">
+                        <Check size={14} />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          setRenamingId(workspace.id);
+                          setRenameValue(workspace.name);
+                        }}
+                        title="Rename workspace"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                    )}
+                    <button onClick={() => runAction(() => onDuplicate(workspace.id))} title="Duplicate workspace">
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      className="danger"
+                      onClick={() => handleDelete(workspace)}
+                      title="Delete workspace"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+            {workspaces.length === 0 && !error && (
+              <li className="workspace-empty">No saved workspaces yet</li>
+            )}
+          </ul>
+        </div>
+
+        <div className="panel-footer dialog-footer">
+          <span className="dialog-hint">Workspaces are autosaved in this browser</span>
+          <button
+            className="execution-btn primary"
+            onClick={async () => {
+              await runAction(onCreate);
+              onClose();
+            }}
+          >
+            <Plus size={14} />
+            New Workspace
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
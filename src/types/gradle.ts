@@ -8,9 +8,25 @@ export type TaskExecutionStatus =
   | 'pending'    // Waiting for dependencies
   | 'running'    // Currently executing
   | 'success'    // Completed successfully
+  | 'upToDate'   // Not executed: inputs and outputs unchanged since the last successful run
+  | 'fromCache'  // Not executed: outputs restored from the build cache
   | 'failed'     // Execution failed
   | 'skipped';   // Skipped (disabled or condition not met)
 
+/**
+ * Maps execution status to colors
+ */
+export const executionStatusColors: Record<TaskExecutionStatus, string> = {
+  idle: 'transparent',
+  pending: '#f59e0b',
+  running: '#3b82f6',
+  success: '#22c55e',
+  upToDate: '#14b8a6',
+  fromCache: '#8b5cf6',
+  failed: '#ef4444',
+  skipped: '#94a3b8',
+};
+
 /**
  * Execution result for a single task
  */
@@ -23,6 +39,24 @@ export interface TaskExecutionResult {
   duration?: number;
   output?: string;
   error?: string;
+  /** Why a skipped task did not run */
+  skipReason?: string;
+  /** Why the task was not up to date and had to execute */
+  outOfDateReasons?: string[];
+  /** Every execution attempt, when the task has a retry policy */
+  attempts?: TaskAttempt[];
+}
+
+/**
+ * One execution attempt of a task with a retry policy
+ */
+export interface TaskAttempt {
+  attempt: number;
+  status: TaskExecutionStatus;
+  startTime?: number;
+  endTime?: number;
+  duration?: number;
+  error?: string;
 }
 
 /**
@@ -33,10 +67,13 @@ export interface ExecutionState {
   isPaused: boolean;
   startTime?: number;
   endTime?: number;
-  currentTaskId?: string;
+  /** Tasks currently executing (several at once when maxWorkers > 1) */
+  runningTaskIds: Set<string>;
   taskResults: Map<string, TaskExecutionResult>;
   executionOrder: string[];
   logs: ExecutionLogEntry[];
+  /** Set while the debugger holds the run before this task */
+  pausedBeforeTaskId?: string;
 }
 
 /**
@@ -348,12 +385,160 @@ export interface GradleTaskNodeData extends Record<string, unknown> {
   config?: TaskConfig;
   /** Task dependencies (other task IDs) */
   dependsOn?: string[];
+  /** Extra input files and directories, besides those implied by the configuration */
+  inputs?: string[];
+  /** Extra output files and directories, besides those implied by the configuration */
+  outputs?: string[];
+  /** Whether outputs may be stored in and restored from the build cache */
+  cacheable?: boolean;
   /** Conditional execution settings (onlyIf/skipIf) */
   condition?: TaskCondition;
   /** Validation errors */
   errors?: ValidationError[];
+  /** Build script statements kept verbatim because they could not be mapped on import */
+  preservedStatements?: string[];
+  /** How the simulated run treats this task */
+  simulation?: TaskSimulationSettings;
+  /** Retry a failed execution, e.g. for flaky network or test tasks */
+  retry?: RetryPolicy;
+  /** JUnit XML results attached to a Test task, e.g. from a CI run */
+  testReport?: TestReport;
+  /** Dry-run preview shown on the canvas (not saved) */
+  dryRun?: DryRunTaskState;
+  /** Pause the run before this task starts (not saved) */
+  breakpoint?: boolean;
+}
+
+/**
+ * What a dry run predicts for a task
+ */
+export type DryRunDecision = 'run' | 'skip' | 'untouched';
+
+/**
+ * Dry-run overlay of a task: its position among the tasks that run, or why it is skipped
+ */
+export interface DryRunTaskState {
+  decision: DryRunDecision;
+  order?: number;
+  reason?: string;
+}
+
+/**
+ * How the delay between attempts grows
+ */
+export type RetryBackoff = 'fixed' | 'exponential';
+
+/**
+ * Retry policy for a task
+ */
+export interface RetryPolicy {
+  /** Total attempts, including the first one */
+  maxAttempts: number;
+  backoff: RetryBackoff;
+  /** Delay before the first retry in milliseconds; doubles per retry with exponential backoff */
+  delayMs: number;
+  /** Only retry when the error matches one of these regular expressions (any error when empty) */
+  retryOn?: string[];
+}
+
+/**
+ * Retry policy of a task that does not retry
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  backoff: 'fixed',
+  delayMs: 1000,
+};
+
+/**
+ * Options for the retry backoff select
+ */
+export const retryBackoffOptions: { value: RetryBackoff; label: string }[] = [
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'exponential', label: 'Exponential' },
+];
+
+/**
+ * Result of a single test case
+ */
+export type TestCaseStatus = 'passed' | 'failed' | 'error' | 'skipped';
+
+/**
+ * A test case from a JUnit XML report
+ */
+export interface TestCaseResult {
+  name: string;
+  className: string;
+  status: TestCaseStatus;
+  /** Duration in milliseconds */
+  duration: number;
+  /** Failure, error or skip message */
+  message?: string;
+  stackTrace?: string;
+}
+
+/**
+ * A test suite from a JUnit XML report, usually one test class
+ */
+export interface TestSuiteResult {
+  name: string;
+  /** Duration in milliseconds */
+  duration: number;
+  timestamp?: string;
+  cases: TestCaseResult[];
+}
+
+/**
+ * Test results attached to a Test task
+ */
+export interface TestReport {
+  /** Names of the imported report files */
+  fileNames: string[];
+  importedAt: number;
+  suites: TestSuiteResult[];
+}
+
+/**
+ * Options for the test report status filter
+ */
+export const testCaseStatusOptions: { value: TestCaseStatus; label: string }[] = [
+  { value: 'failed', label: 'Failed' },
+  { value: 'error', label: 'Error' },
+  { value: 'skipped', label: 'Skipped' },
+  { value: 'passed', label: 'Passed' },
+];
+
+/**
+ * Outcome of a simulated task: random uses the failure probability, flaky fails half the time
+ */
+export type SimulationOutcome = 'random' | 'success' | 'fail' | 'flaky';
+
+/**
+ * Per-task settings for the execution simulator
+ */
+export interface TaskSimulationSettings {
+  /** Expected duration in milliseconds (defaults by task type) */
+  expectedDuration?: number;
+  /** Chance of failure between 0 and 1 when the outcome is random */
+  failureProbability?: number;
+  outcome?: SimulationOutcome;
 }
 
+/**
+ * Failure chance of a simulated task without its own setting
+ */
+export const DEFAULT_FAILURE_PROBABILITY = 0.05;
+
+/**
+ * Options for the simulation outcome select
+ */
+export const simulationOutcomeOptions: { value: SimulationOutcome; label: string }[] = [
+  { value: 'random', label: 'Random (failure probability)' },
+  { value: 'success', label: 'Always succeed' },
+  { value: 'fail', label: 'Always fail' },
+  { value: 'flaky', label: 'Flaky (fails half the time)' },
+];
+
 /**
  * Typed node for React Flow with Gradle task data
  */
@@ -365,6 +550,10 @@ export type GradleTaskNode = Node<GradleTaskNodeData, 'gradleTask'>;
 export interface GradleEdgeData extends Record<string, unknown> {
   /** The type of dependency relationship */
   dependencyType: DependencyType;
+  /** Whether the edge lies on the critical path; runtime only, not saved */
+  critical?: boolean;
+  /** Whether the edge was guessed from the order of a dry-run rather than declared */
+  inferred?: boolean;
 }
 
 /**
@@ -385,6 +574,122 @@ export interface GradleTaskGraph {
   edges: GradleEdge[];
 }
 
+/**
+ * Comparison of an imported execution order against the order inferred from the graph
+ */
+export interface ExecutionOrderCheck {
+  /** Task the imported run was requested for (the last task executed) */
+  label: string;
+  imported: string[];
+  inferred: string[];
+  /** Positions at which the two orders name different tasks */
+  mismatches: number[];
+}
+
+/**
+ * Result of importing a build script or Gradle output into the canvas
+ */
+export interface GraphImportResult {
+  nodes: GradleTaskNode[];
+  edges: GradleEdge[];
+  variables: Variable[];
+  warnings: string[];
+  orderChecks?: ExecutionOrderCheck[];
+}
+
+/**
+ * Canvas viewport (pan offset and zoom) saved with a graph document
+ */
+export interface GraphViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+/**
+ * Descriptive metadata saved with a graph document
+ */
+export interface GraphDocumentMetadata {
+  name: string;
+  description?: string;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A saved graph (.gradleflow.json).
+ * schemaVersion is bumped whenever the persisted node, edge or variable shape changes.
+ */
+export interface GraphDocument {
+  schemaVersion: number;
+  metadata: GraphDocumentMetadata;
+  nodes: GradleTaskNode[];
+  edges: GradleEdge[];
+  variables: Variable[];
+  viewport: GraphViewport;
+}
+
+/**
+ * Execution state as stored with a workspace (Map replaced by a list, running tasks dropped)
+ */
+export interface SavedExecutionState extends Omit<ExecutionState, 'taskResults' | 'runningTaskIds'> {
+  taskResults: TaskExecutionResult[];
+}
+
+/**
+ * How a recorded run ended
+ */
+export type RunOutcome = 'success' | 'failed' | 'stopped';
+
+/**
+ * A finished run kept in the execution history
+ */
+export interface RunRecord {
+  id: string;
+  startTime: number;
+  endTime: number;
+  /** Wall-clock duration of the run */
+  duration: number;
+  /** Names of the tasks that were asked for; empty when the whole graph ran */
+  requestedTaskNames: string[];
+  /** Variable values the run used, by name */
+  variables: Record<string, string>;
+  executionOrder: string[];
+  taskResults: TaskExecutionResult[];
+  logs: ExecutionLogEntry[];
+  outcome: RunOutcome;
+}
+
+/**
+ * A named workspace kept in browser storage and autosaved while editing
+ */
+export interface Workspace {
+  id: string;
+  /** Graph, variables and viewport; the workspace name is document.metadata.name */
+  document: GraphDocument;
+  /** Last execution state, restored with the graph */
+  execution?: SavedExecutionState;
+  /** Finished runs, most recent first */
+  history?: RunRecord[];
+  /** File the workspace was opened from or last saved to */
+  fileName?: string;
+  fileHandle?: FileSystemFileHandle | null;
+  /** Time of the last autosave (ms since epoch) */
+  savedAt: number;
+}
+
+/**
+ * Lightweight workspace entry for the workspace list
+ */
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  taskCount: number;
+  fileName?: string;
+  savedAt: number;
+}
+
 /**
  * Property field definition for dynamic form generation
  */
@@ -531,6 +836,9 @@ export const commonPropertyFields: PropertyFieldDef[] = [
   { name: 'description', label: 'Description', type: 'text', placeholder: 'What this task does' },
   { name: 'enabled', label: 'Enabled', type: 'checkbox' },
   { name: 'timeout', label: 'Timeout (minutes)', type: 'number', min: 1, placeholder: '30' },
+  { name: 'inputs', label: 'Inputs', type: 'list', placeholder: 'e.g., src/main', helperText: 'Extra files read by the task, used for up-to-date checks' },
+  { name: 'outputs', label: 'Outputs', type: 'list', placeholder: 'e.g., build/reports', helperText: 'Extra files written by the task, used for up-to-date checks' },
+  { name: 'cacheable', label: 'Cacheable', type: 'checkbox', helperText: 'Restore outputs from the build cache when the inputs match a previous run' },
   { name: 'dependsOn', label: 'Dependencies', type: 'nodepicker', helperText: 'Tasks that must run before this one' },
 ];
 
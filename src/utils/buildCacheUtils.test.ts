@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { GradleTaskNode, Variable } from '../types/gradle';
+import {
+  type BuildCacheEntry,
+  cleanBuildCache,
+  computeCacheKey,
+  createBuildCache,
+  getCacheHitRate,
+  isTaskCacheable,
+  recordCacheHit,
+  recordCacheMiss,
+  startBuildCacheRun,
+} from './buildCacheUtils';
+import { createIncrementalState, recordTaskExecution } from './upToDateUtils';
+
+const variables: Variable[] = [
+  { id: 'var_version', name: 'version', type: 'string', defaultValue: '1.0', value: '1.0' },
+];
+
+function zipTask(config: Record<string, unknown>): GradleTaskNode {
+  return {
+    id: 'zipDocs',
+    type: 'gradleTask',
+    position: { x: 0, y: 0 },
+    data: { taskName: 'zipDocs', taskType: 'Zip', cacheable: true, config: { from: ['docs'], ...config } },
+  };
+}
+
+function entry(key: string, duration: number): BuildCacheEntry {
+  return { key, taskId: 'zipDocs', taskName: 'zipDocs', taskType: 'Zip', outputs: ['build/distributions'], duration, createdAt: 0, hits: 0 };
+}
+
+describe('computeCacheKey', () => {
+  it('is stable for the same task, variables and inputs', () => {
+    const node = zipTask({ archiveFileName: 'docs-${version}.zip' });
+    expect(computeCacheKey(node, variables, createIncrementalState())).toBe(
+      computeCacheKey(zipTask({ archiveFileName: 'docs-${version}.zip' }), variables, createIncrementalState())
+    );
+  });
+
+  it('changes with the resolved configuration', () => {
+    const node = zipTask({ archiveFileName: 'docs-${version}.zip' });
+    const released = variables.map((v) => ({ ...v, value: '2.0' }));
+    const state = createIncrementalState();
+
+    expect(computeCacheKey(node, released, state)).not.toBe(computeCacheKey(node, variables, state));
+    expect(computeCacheKey(zipTask({ archiveFileName: 'docs-2.0.zip' }), variables, state)).toBe(
+      computeCacheKey(node, released, state)
+    );
+  });
+
+  it('changes when an input is rewritten with different content', () => {
+    const node = zipTask({});
+    const state = createIncrementalState();
+    const before = computeCacheKey(node, variables, state);
+    const generate = (into: string): GradleTaskNode => ({
+      id: 'generateDocs',
+      type: 'gradleTask',
+      position: { x: 0, y: 0 },
+      data: { taskName: 'generateDocs', taskType: 'Copy', config: { from: ['src/docs'], into } },
+    });
+
+    recordTaskExecution(generate('docs'), variables, state, true);
+    expect(computeCacheKey(node, variables, state)).not.toBe(before);
+  });
+});
+
+describe('isTaskCacheable', () => {
+  it('needs the cacheable flag and at least one output', () => {
+    expect(isTaskCacheable(zipTask({}), variables)).toBe(true);
+    const node = zipTask({});
+    expect(isTaskCacheable({ ...node, data: { ...node.data, cacheable: false } }, variables)).toBe(false);
+    expect(isTaskCacheable({ ...node, data: { ...node.data, taskType: 'Exec', config: {} } }, variables)).toBe(false);
+  });
+});
+
+describe('build cache runs', () => {
+  it('counts misses, stored entries, hits and the time saved', () => {
+    let cache = startBuildCacheRun(createBuildCache(), 1);
+    cache = recordCacheMiss(cache, entry('a', 300));
+    cache = recordCacheMiss(cache, null);
+    cache = startBuildCacheRun(cache, 2);
+    cache = recordCacheHit(cache, 'a', 5);
+    cache = recordCacheHit(cache, 'unknown', 5);
+
+    expect(cache.runs).toEqual([
+      { startTime: 2, hits: 1, misses: 0, stored: 0, timeSaved: 300 },
+      { startTime: 1, hits: 0, misses: 2, stored: 1, timeSaved: 0 },
+    ]);
+    expect(cache.entries.get('a')).toMatchObject({ hits: 1, lastUsedAt: 5 });
+    expect(getCacheHitRate(cache.runs)).toBeCloseTo(1 / 3);
+  });
+
+  it('keeps the run history when cleaned', () => {
+    const cache = recordCacheMiss(startBuildCacheRun(createBuildCache(), 1), entry('a', 10));
+    const cleaned = cleanBuildCache(cache);
+
+    expect(cleaned.entries.size).toBe(0);
+    expect(cleaned.runs).toEqual(cache.runs);
+    expect(getCacheHitRate([])).toBeNull();
+  });
+});
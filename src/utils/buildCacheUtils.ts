@@ -0,0 +1,118 @@
+import type { GradleTaskNode, Variable } from '../types/gradle';
+import { computeTaskContentKey, getTaskFileSets, type IncrementalState } from './upToDateUtils';
+
+/**
+ * Outputs of one successful task execution, stored under its cache key
+ */
+export interface BuildCacheEntry {
+  key: string;
+  taskId: string;
+  taskName: string;
+  taskType: string;
+  outputs: string[];
+  /** How long the task took to produce the outputs, i.e. the time a hit saves */
+  duration: number;
+  createdAt: number;
+  lastUsedAt?: number;
+  hits: number;
+}
+
+/**
+ * Cache activity of one run
+ */
+export interface BuildCacheRunStats {
+  startTime: number;
+  hits: number;
+  misses: number;
+  stored: number;
+  /** Summed duration of the tasks restored from the cache */
+  timeSaved: number;
+}
+
+/**
+ * A local build cache, shared by every run of the graph
+ */
+export interface BuildCache {
+  entries: Map<string, BuildCacheEntry>;
+  /** Most recent run first */
+  runs: BuildCacheRunStats[];
+}
+
+/**
+ * Runs kept for the inspector's hit/miss history
+ */
+const MAX_CACHE_RUNS = 10;
+
+export function createBuildCache(): BuildCache {
+  return { entries: new Map(), runs: [] };
+}
+
+/**
+ * Whether a task can be stored in and loaded from the cache: marked cacheable and has outputs
+ */
+export function isTaskCacheable(node: GradleTaskNode, variables: Variable[]): boolean {
+  return node.data.cacheable === true && getTaskFileSets(node, variables).outputs.length > 0;
+}
+
+/**
+ * Cache key of a task: task type, resolved configuration and input fingerprints
+ */
+export function computeCacheKey(node: GradleTaskNode, variables: Variable[], state: IncrementalState): string {
+  return computeTaskContentKey(node, variables, state);
+}
+
+function updateCurrentRun(cache: BuildCache, update: (run: BuildCacheRunStats) => BuildCacheRunStats): BuildCache {
+  if (cache.runs.length === 0) return cache;
+  const [current, ...previous] = cache.runs;
+  return { ...cache, runs: [update(current), ...previous] };
+}
+
+/**
+ * Start counting hits and misses for a new run
+ */
+export function startBuildCacheRun(cache: BuildCache, startTime: number): BuildCache {
+  const run: BuildCacheRunStats = { startTime, hits: 0, misses: 0, stored: 0, timeSaved: 0 };
+  return { ...cache, runs: [run, ...cache.runs].slice(0, MAX_CACHE_RUNS) };
+}
+
+/**
+ * Record a cache hit: the entry's outputs are restored instead of running the task
+ */
+export function recordCacheHit(cache: BuildCache, key: string, now: number): BuildCache {
+  const entry = cache.entries.get(key);
+  if (!entry) return cache;
+  const entries = new Map(cache.entries).set(key, { ...entry, hits: entry.hits + 1, lastUsedAt: now });
+  return updateCurrentRun({ ...cache, entries }, (run) => ({
+    ...run,
+    hits: run.hits + 1,
+    timeSaved: run.timeSaved + entry.duration,
+  }));
+}
+
+/**
+ * Record a cache miss, storing the outputs when the task then succeeded
+ */
+export function recordCacheMiss(cache: BuildCache, entry: BuildCacheEntry | null): BuildCache {
+  const entries = entry ? new Map(cache.entries).set(entry.key, entry) : cache.entries;
+  return updateCurrentRun({ ...cache, entries }, (run) => ({
+    ...run,
+    misses: run.misses + 1,
+    stored: run.stored + (entry ? 1 : 0),
+  }));
+}
+
+/**
+ * Remove every entry, keeping the run history
+ */
+export function cleanBuildCache(cache: BuildCache): BuildCache {
+  return { ...cache, entries: new Map() };
+}
+
+/**
+ * Share of cacheable task executions served from the cache, between 0 and 1
+ */
+export function getCacheHitRate(runs: BuildCacheRunStats[]): number | null {
+  const hits = runs.reduce((sum, run) => sum + run.hits, 0);
+  const lookups = runs.reduce((sum, run) => sum + run.hits + run.misses, 0);
+  return lookups > 0 ? hits / lookups : null;
+}
@@ -0,0 +1,536 @@
+import type {
+  GradleTaskGraph,
+  GradleTaskNode,
+  GradleTaskType,
+  DependencyType,
+  Condition,
+  ConditionSource,
+  TaskCondition,
+  Variable,
+  ExecConfig,
+  CopyConfig,
+  DeleteConfig,
+  ArchiveConfig,
+  TestConfig,
+  HttpRequestConfig,
+} from '../types/gradle';
+import { VARIABLE_PATTERN } from './variableUtils';
+
+/**
+ * Build script expressions for the predefined system variables
+ * (valid in both the Kotlin and Groovy DSL)
+ */
+export const systemVariableExpressions: Record<string, string> = {
+  projectDir: 'project.projectDir',
+  buildDir: 'project.layout.buildDirectory.get().asFile',
+  version: 'project.version',
+  group: 'project.group',
+};
+
+/**
+ * Gradle task classes registered for each task type.
+ * HttpRequest has no built-in Gradle type and is generated as an ad-hoc task.
+ */
+const gradleTaskClasses: Record<GradleTaskType, string | null> = {
+  Exec: 'Exec',
+  Copy: 'Copy',
+  Delete: 'Delete',
+  Zip: 'Zip',
+  Jar: 'Jar',
+  Test: 'Test',
+  JavaCompile: 'JavaCompile',
+  ProcessResources: 'ProcessResources',
+  HttpRequest: null,
+  Custom: null,
+};
+
+/**
+ * Names of the tasks a task is wired to, grouped by relationship.
+ * Relations are stored on the task whose configuration block declares them.
+ */
+export interface TaskRelations {
+  dependsOn: string[];
+  mustRunAfter: string[];
+  shouldRunAfter: string[];
+  finalizedBy: string[];
+}
+
+/**
+ * Relationship types in the order they are emitted in a task block
+ */
+export const relationTypes: DependencyType[] = [
+  'dependsOn',
+  'mustRunAfter',
+  'shouldRunAfter',
+  'finalizedBy',
+];
+
+/**
+ * Collect dependency relations for every task from the graph edges
+ * (and the legacy node-level dependsOn list).
+ *
+ * For dependsOn / mustRunAfter / shouldRunAfter edges the target declares the
+ * relation on the source; for finalizedBy edges the source declares it on the target.
+ */
+export function collectTaskRelations(graph: GradleTaskGraph): Map<string, TaskRelations> {
+  const nodeNames = new Map(graph.nodes.map((n) => [n.id, n.data.taskName]));
+  const relations = new Map<string, TaskRelations>();
+
+  graph.nodes.forEach((node) => {
+    relations.set(node.id, {
+      dependsOn: [],
+      mustRunAfter: [],
+      shouldRunAfter: [],
+      finalizedBy: [],
+    });
+  });
+
+  const addRelation = (ownerId: string, type: DependencyType, otherId: string) => {
+    const owner = relations.get(ownerId);
+    const otherName = nodeNames.get(otherId);
+    if (owner && otherName && !owner[type].includes(otherName)) {
+      owner[type].push(otherName);
+    }
+  };
+
+  graph.edges.forEach((edge) => {
+    const dependencyType = edge.data?.dependencyType || 'dependsOn';
+    if (dependencyType === 'finalizedBy') {
+      addRelation(edge.source, dependencyType, edge.target);
+    } else {
+      addRelation(edge.target, dependencyType, edge.source);
+    }
+  });
+
+  graph.nodes.forEach((node) => {
+    node.data.dependsOn?.forEach((depId) => addRelation(node.id, 'dependsOn', depId));
+  });
+
+  return relations;
+}
+
+/**
+ * A piece of a configuration value: literal text or a variable reference
+ */
+export type TemplateSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'userVariable'; name: string }
+  | { kind: 'systemVariable'; expression: string };
+
+/**
+ * Split a configuration value into literal text and ${var} references.
+ * References to unknown variables are kept as literal text.
+ */
+export function splitTemplate(text: string, userVariables: Set<string>): TemplateSegment[] {
+  const segments: TemplateSegment[] = [];
+  let pending = '';
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    const varName = match[1];
+    pending += text.slice(lastIndex, match.index);
+    lastIndex = match.index + match[0].length;
+
+    if (userVariables.has(varName)) {
+      if (pending) segments.push({ kind: 'text', text: pending });
+      segments.push({ kind: 'userVariable', name: varName });
+      pending = '';
+    } else if (varName in systemVariableExpressions) {
+      if (pending) segments.push({ kind: 'text', text: pending });
+      segments.push({ kind: 'systemVariable', expression: systemVariableExpressions[varName] });
+      pending = '';
+    } else {
+      pending += match[0];
+    }
+  }
+
+  pending += text.slice(lastIndex);
+  if (pending) segments.push({ kind: 'text', text: pending });
+  return segments;
+}
+
+/**
+ * Append an indented line to the script output
+ */
+export function appendLine(out: string[], depth: number, text = ''): void {
+  out.push(text ? `${'    '.repeat(depth)}${text}` : '');
+}
+
+/**
+ * Check that an optional list value has entries
+ */
+export function hasItems(values: unknown): values is string[] {
+  return Array.isArray(values) && values.length > 0;
+}
+
+/**
+ * Spelling of a build script language. generateBuildScript decides what the script
+ * says; the dialect decides how each statement is written.
+ */
+export interface ScriptDialect {
+  /** String literal for a value; ${var} references to known variables become expressions */
+  string(text: string, userVariables: Set<string>): string;
+  /** Script identifier for a user variable */
+  identifier(name: string): string;
+  /** Keyword declaring a local value, e.g. `val` */
+  local: string;
+  /** Keyword before a constructor call, empty when there is none */
+  newKeyword: string;
+  /** Opening line of a task block */
+  taskDeclaration(taskName: string, taskClass: string | null, quotedName: string): string;
+  /** Method call with already formatted arguments */
+  call(method: string, args: string[]): string;
+  /** Assignment to a lazy Property */
+  setProperty(property: string, value: string): string;
+  /** Name of a boolean property, which Kotlin prefixes with `is` */
+  booleanProperty(property: string): string;
+  /** Literal for a long number */
+  long(value: number): string;
+  /** Append values to a list property */
+  addAll(property: string, values: string[]): string;
+  /** Input stream reading the bytes of a string expression */
+  byteStream(value: string): string;
+  /** Statement writing text to a file expression */
+  writeText(file: string, text: string): string;
+  /** Statement kept from an imported Kotlin script */
+  preservedStatement(text: string): string;
+  matches(text: string, pattern: string): string;
+  /** Number of a string expression, NaN when it is not one */
+  toNumber(operand: string): string;
+  isBlank(operand: string): string;
+  isNotBlank(operand: string): string;
+  lowercase(operand: string): string;
+}
+
+/**
+ * Context shared while generating a build script
+ */
+interface ScriptContext {
+  dialect: ScriptDialect;
+  userVariables: Set<string>;
+}
+
+function scriptString(text: string, ctx: ScriptContext): string {
+  return ctx.dialect.string(text, ctx.userVariables);
+}
+
+function scriptArgs(values: string[], ctx: ScriptContext): string[] {
+  return values.map((value) => scriptString(value, ctx));
+}
+
+/**
+ * Get a String expression for a condition operand
+ */
+function conditionOperand(source: ConditionSource, value: string, ctx: ScriptContext): string {
+  const empty = scriptString('', ctx);
+  switch (source) {
+    case 'variable':
+      if (ctx.userVariables.has(value)) return ctx.dialect.identifier(value);
+      if (value in systemVariableExpressions) {
+        return `${systemVariableExpressions[value]}.toString()`;
+      }
+      return empty;
+    case 'environment':
+      return `(System.getenv(${scriptString(value, ctx)}) ?: ${empty})`;
+    case 'property':
+      return `(project.findProperty(${scriptString(value, ctx)})?.toString() ?: ${empty})`;
+    case 'literal':
+    default:
+      return scriptString(value, ctx);
+  }
+}
+
+/**
+ * Convert a single condition into a boolean expression
+ */
+function conditionExpression(condition: Condition, ctx: ScriptContext): string {
+  const { dialect } = ctx;
+  const left = conditionOperand(condition.leftSource, condition.leftValue, ctx);
+  const right = condition.rightSource && condition.rightValue
+    ? conditionOperand(condition.rightSource, condition.rightValue, ctx)
+    : scriptString('', ctx);
+  const number = dialect.toNumber;
+
+  switch (condition.operator) {
+    case 'equals':
+      return `${left} == ${right}`;
+    case 'notEquals':
+      return `${left} != ${right}`;
+    case 'contains':
+      return `${left}.contains(${right})`;
+    case 'notContains':
+      return `!${left}.contains(${right})`;
+    case 'startsWith':
+      return `${left}.startsWith(${right})`;
+    case 'endsWith':
+      return `${left}.endsWith(${right})`;
+    case 'matches':
+      return dialect.matches(left, right);
+    case 'greaterThan':
+      return `${number(left)} > ${number(right)}`;
+    case 'lessThan':
+      return `${number(left)} < ${number(right)}`;
+    case 'greaterOrEqual':
+      return `${number(left)} >= ${number(right)}`;
+    case 'lessOrEqual':
+      return `${number(left)} <= ${number(right)}`;
+    case 'isEmpty':
+      return dialect.isBlank(left);
+    case 'isNotEmpty':
+      return dialect.isNotBlank(left);
+    case 'isTrue':
+      return `(${dialect.lowercase(left)} == ${scriptString('true', ctx)} || ${left} == ${scriptString('1', ctx)})`;
+    case 'isFalse':
+      return `(${dialect.lowercase(left)} == ${scriptString('false', ctx)} || ${left} == ${scriptString('0', ctx)} || ${left} == ${scriptString('', ctx)})`;
+    default:
+      return 'false';
+  }
+}
+
+/**
+ * Convert a task condition into the body of an onlyIf {} block
+ */
+function taskConditionExpression(taskCondition: TaskCondition, ctx: ScriptContext): string {
+  const joiner = taskCondition.logic === 'and' ? ' && ' : ' || ';
+  const combined = taskCondition.conditions
+    .map((c) => `(${conditionExpression(c, ctx)})`)
+    .join(joiner);
+
+  return taskCondition.type === 'onlyIf' ? combined : `!(${combined})`;
+}
+
+function emitExecConfig(config: ExecConfig, ctx: ScriptContext, out: string[]) {
+  const { dialect } = ctx;
+  if (hasItems(config.commandLine)) appendLine(out, 1, dialect.call('commandLine', scriptArgs(config.commandLine, ctx)));
+  if (hasItems(config.args)) appendLine(out, 1, dialect.call('args', scriptArgs(config.args, ctx)));
+  if (config.workingDir) appendLine(out, 1, `workingDir = file(${scriptString(config.workingDir, ctx)})`);
+  Object.entries(config.environment || {}).forEach(([key, value]) => {
+    appendLine(out, 1, dialect.call('environment', scriptArgs([key, value], ctx)));
+  });
+  if (config.standardInput) {
+    appendLine(out, 1, `standardInput = ${dialect.byteStream(scriptString(config.standardInput, ctx))}`);
+  }
+  if (config.ignoreExitValue) appendLine(out, 1, `${dialect.booleanProperty('ignoreExitValue')} = true`);
+}
+
+function emitCopySpec(config: CopyConfig & ArchiveConfig, ctx: ScriptContext, out: string[]) {
+  const { dialect } = ctx;
+  if (hasItems(config.from)) appendLine(out, 1, dialect.call('from', scriptArgs(config.from, ctx)));
+  if (config.into) appendLine(out, 1, dialect.call('into', [scriptString(config.into, ctx)]));
+  if (hasItems(config.include)) appendLine(out, 1, dialect.call('include', scriptArgs(config.include, ctx)));
+  if (hasItems(config.exclude)) appendLine(out, 1, dialect.call('exclude', scriptArgs(config.exclude, ctx)));
+  if (config.duplicatesStrategy) {
+    appendLine(out, 1, `duplicatesStrategy = DuplicatesStrategy.${config.duplicatesStrategy}`);
+  }
+}
+
+function emitArchiveConfig(config: ArchiveConfig, ctx: ScriptContext, out: string[]) {
+  const { dialect } = ctx;
+  emitCopySpec(config, ctx, out);
+  if (config.archiveFileName) {
+    appendLine(out, 1, dialect.setProperty('archiveFileName', scriptString(config.archiveFileName, ctx)));
+  }
+  if (config.destinationDirectory) {
+    appendLine(out, 1, dialect.setProperty('destinationDirectory', `file(${scriptString(config.destinationDirectory, ctx)})`));
+  }
+  if (config.preserveFileTimestamps === false) {
+    appendLine(out, 1, `${dialect.booleanProperty('preserveFileTimestamps')} = false`);
+  }
+}
+
+function emitDeleteConfig(config: DeleteConfig, ctx: ScriptContext, out: string[]) {
+  const { dialect } = ctx;
+  if (hasItems(config.delete)) appendLine(out, 1, dialect.call('delete', scriptArgs(config.delete, ctx)));
+  if (config.followSymlinks) appendLine(out, 1, `${dialect.booleanProperty('followSymlinks')} = true`);
+}
+
+function emitTestConfig(config: TestConfig, ctx: ScriptContext, out: string[]) {
+  const { dialect } = ctx;
+  if (hasItems(config.testClassesDirs)) {
+    appendLine(out, 1, `testClassesDirs = files(${scriptArgs(config.testClassesDirs, ctx).join(', ')})`);
+  }
+  if (hasItems(config.include)) appendLine(out, 1, dialect.call('include', scriptArgs(config.include, ctx)));
+  if (hasItems(config.exclude)) appendLine(out, 1, dialect.call('exclude', scriptArgs(config.exclude, ctx)));
+  if (config.maxParallelForks !== undefined) appendLine(out, 1, `maxParallelForks = ${config.maxParallelForks}`);
+  if (config.forkEvery) appendLine(out, 1, `forkEvery = ${dialect.long(config.forkEvery)}`);
+  if (config.failFast) appendLine(out, 1, 'failFast = true');
+  if (config.ignoreFailures) appendLine(out, 1, 'ignoreFailures = true');
+  if (hasItems(config.jvmArgs)) appendLine(out, 1, dialect.call('jvmArgs', scriptArgs(config.jvmArgs, ctx)));
+}
+
+function emitJavaCompileConfig(config: Record<string, unknown>, ctx: ScriptContext, out: string[]) {
+  const { dialect } = ctx;
+  // Compiler options may be stored flat (palette defaults) or nested under `options`
+  const options = { ...config, ...((config.options as Record<string, unknown>) || {}) };
+
+  if (config.sourceCompatibility) {
+    appendLine(out, 1, `sourceCompatibility = ${scriptString(String(config.sourceCompatibility), ctx)}`);
+  }
+  if (config.targetCompatibility) {
+    appendLine(out, 1, `targetCompatibility = ${scriptString(String(config.targetCompatibility), ctx)}`);
+  }
+  if (options.encoding) appendLine(out, 1, `options.encoding = ${scriptString(String(options.encoding), ctx)}`);
+  if (hasItems(options.compilerArgs)) {
+    appendLine(out, 1, dialect.addAll('options.compilerArgs', scriptArgs(options.compilerArgs, ctx)));
+  }
+  if (typeof options.deprecation === 'boolean') {
+    appendLine(out, 1, `${dialect.booleanProperty('options.deprecation')} = ${options.deprecation}`);
+  }
+  if (typeof options.warnings === 'boolean') {
+    appendLine(out, 1, `${dialect.booleanProperty('options.warnings')} = ${options.warnings}`);
+  }
+}
+
+function emitHttpRequestConfig(config: HttpRequestConfig, ctx: ScriptContext, out: string[]) {
+  const { dialect } = ctx;
+  const method = scriptString(config.method || 'GET', ctx);
+
+  appendLine(out, 1, 'doLast {');
+  appendLine(out, 2, `${dialect.local} client = java.net.http.HttpClient.newBuilder()`);
+  if (config.followRedirects !== false) {
+    appendLine(out, 3, '.followRedirects(java.net.http.HttpClient.Redirect.NORMAL)');
+  }
+  if (config.timeout) {
+    appendLine(out, 3, `.connectTimeout(java.time.Duration.ofSeconds(${config.timeout}))`);
+  }
+  appendLine(out, 3, '.build()');
+  appendLine(out, 2, `${dialect.local} request = java.net.http.HttpRequest.newBuilder(uri(${scriptString(config.url || '', ctx)}))`);
+  if (config.body) {
+    appendLine(out, 3, `.method(${method}, java.net.http.HttpRequest.BodyPublishers.ofString(${scriptString(config.body, ctx)}))`);
+  } else {
+    appendLine(out, 3, `.method(${method}, java.net.http.HttpRequest.BodyPublishers.noBody())`);
+  }
+  if (config.contentType) {
+    appendLine(out, 3, `.header(${scriptString('Content-Type', ctx)}, ${scriptString(config.contentType, ctx)})`);
+  }
+  Object.entries(config.headers || {}).forEach(([key, value]) => {
+    appendLine(out, 3, `.header(${scriptString(key, ctx)}, ${scriptString(value, ctx)})`);
+  });
+  appendLine(out, 3, '.build()');
+  appendLine(out, 2, `${dialect.local} response = client.send(request, java.net.http.HttpResponse.BodyHandlers.ofString())`);
+  appendLine(out, 2, 'if (response.statusCode() >= 400) {');
+  appendLine(out, 3, `throw ${dialect.newKeyword}GradleException("HTTP \${response.statusCode()} from \${request.uri()}")`);
+  appendLine(out, 2, '}');
+  if (config.outputFile) {
+    appendLine(out, 2, dialect.writeText(`file(${scriptString(config.outputFile, ctx)})`, 'response.body()'));
+  }
+  appendLine(out, 1, '}');
+}
+
+/**
+ * Emit the type-specific configuration of a task
+ */
+function emitTaskConfig(node: GradleTaskNode, ctx: ScriptContext, out: string[]) {
+  const config = (node.data.config || {}) as Record<string, unknown>;
+
+  switch (node.data.taskType) {
+    case 'Exec':
+      emitExecConfig(config as ExecConfig, ctx, out);
+      break;
+    case 'Copy':
+      emitCopySpec(config as CopyConfig, ctx, out);
+      if (config.preserveFileTimestamps === false) {
+        appendLine(out, 1, '// preserveFileTimestamps = false is only supported by archive tasks');
+      }
+      break;
+    case 'ProcessResources':
+      emitCopySpec(config as CopyConfig, ctx, out);
+      break;
+    case 'Delete':
+      emitDeleteConfig(config as DeleteConfig, ctx, out);
+      break;
+    case 'Zip':
+    case 'Jar':
+      emitArchiveConfig(config as ArchiveConfig, ctx, out);
+      break;
+    case 'Test':
+      emitTestConfig(config as TestConfig, ctx, out);
+      break;
+    case 'JavaCompile':
+      emitJavaCompileConfig(config, ctx, out);
+      break;
+    case 'HttpRequest':
+      emitHttpRequestConfig(config as HttpRequestConfig, ctx, out);
+      break;
+    case 'Custom':
+    default:
+      break;
+  }
+}
+
+/**
+ * Emit a complete task block for a node
+ */
+function emitTask(node: GradleTaskNode, relations: TaskRelations | undefined, ctx: ScriptContext, out: string[]) {
+  const { data } = node;
+  const { dialect } = ctx;
+
+  appendLine(out, 0, dialect.taskDeclaration(data.taskName, gradleTaskClasses[data.taskType], scriptString(data.taskName, ctx)));
+  if (data.group) appendLine(out, 1, `group = ${scriptString(data.group, ctx)}`);
+  if (data.description) appendLine(out, 1, `description = ${scriptString(data.description, ctx)}`);
+  if (data.enabled === false) appendLine(out, 1, 'enabled = false');
+  if (data.timeout) appendLine(out, 1, dialect.setProperty('timeout', `java.time.Duration.ofMinutes(${data.timeout})`));
+
+  if (relations) {
+    relationTypes.forEach((type) => {
+      if (relations[type].length > 0) {
+        appendLine(out, 1, dialect.call(type, scriptArgs(relations[type], ctx)));
+      }
+    });
+  }
+
+  if (data.condition && data.condition.conditions.length > 0) {
+    appendLine(out, 1, `onlyIf { ${taskConditionExpression(data.condition, ctx)} }`);
+  }
+
+  emitTaskConfig(node, ctx, out);
+
+  // Statements kept from an imported Kotlin script
+  data.preservedStatements?.forEach((statement) => {
+    statement.split('\n').forEach((text) => appendLine(out, 1, dialect.preservedStatement(text)));
+  });
+  appendLine(out, 0, '}');
+}
+
+/**
+ * Generate a build script from the task graph in the given dialect
+ */
+export function generateBuildScript(graph: GradleTaskGraph, variables: Variable[], dialect: ScriptDialect): string {
+  const userVariables = variables.filter((v) => !v.isSystem);
+  const ctx: ScriptContext = {
+    dialect,
+    userVariables: new Set(userVariables.map((v) => v.name)),
+  };
+  const relations = collectTaskRelations(graph);
+  const out: string[] = [];
+
+  appendLine(out, 0, '// Generated by Gradle Flow');
+  appendLine(out, 0);
+
+  // Project coordinates from the system variables
+  const version = variables.find((v) => v.isSystem && v.name === 'version')?.value;
+  const group = variables.find((v) => v.isSystem && v.name === 'group')?.value;
+  if (group) appendLine(out, 0, `group = ${scriptString(group, ctx)}`);
+  if (version) appendLine(out, 0, `version = ${scriptString(version, ctx)}`);
+  if (group || version) appendLine(out, 0);
+
+  // User variables become project properties with their current value as default
+  if (userVariables.length > 0) {
+    userVariables.forEach((variable) => {
+      if (variable.description) appendLine(out, 0, `// ${variable.description}`);
+      appendLine(
+        out,
+        0,
+        `${dialect.local} ${dialect.identifier(variable.name)} = providers.gradleProperty(${dialect.string(variable.name, new Set())}).getOrElse(${dialect.string(variable.value, new Set())})`
+      );
+    });
+    appendLine(out, 0);
+  }
+
+  graph.nodes.forEach((node, index) => {
+    emitTask(node, relations.get(node.id), ctx, out);
+    if (index < graph.nodes.length - 1) appendLine(out, 0);
+  });
+
+  return out.join('\n') + '\n';
+}
@@ -0,0 +1,402 @@
+import type {
+  Condition,
+  GradleTaskGraph,
+  GradleTaskNode,
+  TaskCondition,
+  Variable,
+  VariableType,
+} from '../types/gradle';
+import { getExecutionOrder } from './executionUtils';
+import { getUpstreamDependencies } from './graphUtils';
+import { formatTaskCondition, isUnaryOperator } from './conditionUtils';
+
+/**
+ * A CI job: a chain of tasks run by one Gradle invocation
+ */
+export interface CiJob {
+  id: string;
+  /** Task node ids in execution order */
+  taskIds: string[];
+  /** Ids of the jobs that must finish first */
+  needs: string[];
+  /** Condition shared by every task in the job */
+  condition?: TaskCondition;
+}
+
+const GITHUB_INPUT_TYPES: Record<VariableType, string> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  path: 'string',
+  list: 'string',
+};
+
+/**
+ * Append a line indented with two spaces per level, as is usual for YAML
+ */
+function line(out: string[], depth: number, text = ''): void {
+  out.push(text ? `${'  '.repeat(depth)}${text}` : '');
+}
+
+/**
+ * Quote a YAML scalar when it cannot be written plain
+ */
+function yamlScalar(value: string): string {
+  const plain = /^[\w$./(^+][^\n]*$/.test(value) &&
+    !/:\s|\s#|:$|\s$/.test(value) &&
+    !/^(?:true|false|yes|no|on|off|null|[-+]?\d[\d.e+-]*)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function jobIdentifier(taskName: string, used: Set<string>): string {
+  const base = taskName.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'job';
+  let id = base;
+  for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+  used.add(id);
+  return id;
+}
+
+function sameCondition(a: TaskCondition | undefined, b: TaskCondition | undefined): boolean {
+  const normalize = (c: TaskCondition | undefined) =>
+    c && c.conditions.length > 0 ? JSON.stringify(c) : '';
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Split the graph into CI jobs. Linear dependsOn chains of tasks with the same condition
+ * share a job; branches become separate jobs that can run in parallel. Each job needs the
+ * jobs holding its upstream tasks, minus those already implied by another need.
+ */
+export function computeCiJobs(graph: GradleTaskGraph): CiJob[] {
+  const order = getExecutionOrder(graph.nodes, graph.edges);
+  const enabled = new Set(order);
+  const nodesById = new Map(graph.nodes.map((n) => [n.id, n]));
+  const dependsOn = graph.edges.filter(
+    (e) => e.data?.dependencyType === 'dependsOn' && enabled.has(e.source) && enabled.has(e.target)
+  );
+
+  const predecessors = (id: string) => dependsOn.filter((e) => e.target === id).map((e) => e.source);
+  const successors = (id: string) => dependsOn.filter((e) => e.source === id).map((e) => e.target);
+
+  const jobs: CiJob[] = [];
+  const jobOfTask = new Map<string, CiJob>();
+
+  order.forEach((taskId) => {
+    const condition = nodesById.get(taskId)!.data.condition;
+    const [predecessor, ...others] = predecessors(taskId);
+    const previousJob = predecessor !== undefined && others.length === 0 ? jobOfTask.get(predecessor) : undefined;
+
+    if (
+      previousJob &&
+      previousJob.taskIds[previousJob.taskIds.length - 1] === predecessor &&
+      successors(predecessor).length === 1 &&
+      sameCondition(previousJob.condition, condition)
+    ) {
+      previousJob.taskIds.push(taskId);
+      jobOfTask.set(taskId, previousJob);
+      return;
+    }
+
+    const job: CiJob = { id: '', taskIds: [taskId], needs: [], condition };
+    jobs.push(job);
+    jobOfTask.set(taskId, job);
+  });
+
+  // Name each job after the last task of its chain
+  const usedIds = new Set<string>();
+  jobs.forEach((job) => {
+    job.id = jobIdentifier(nodesById.get(job.taskIds[job.taskIds.length - 1])!.data.taskName, usedIds);
+  });
+
+  // Upstream job sets, computed from the tasks' transitive dependsOn dependencies
+  const upstreamJobs = new Map<CiJob, Set<CiJob>>();
+  jobs.forEach((job) => {
+    const upstream = new Set<CiJob>();
+    job.taskIds.forEach((taskId) => {
+      getUpstreamDependencies(dependsOn, taskId).forEach((depId) => {
+        const depJob = jobOfTask.get(depId);
+        if (depJob && depJob !== job) upstream.add(depJob);
+      });
+    });
+    upstreamJobs.set(job, upstream);
+  });
+
+  jobs.forEach((job) => {
+    const upstream = [...upstreamJobs.get(job)!];
+    job.needs = upstream
+      .filter((candidate) => !upstream.some((other) => other !== candidate && upstreamJobs.get(other)!.has(candidate)))
+      .map((needed) => needed.id);
+  });
+
+  return jobs;
+}
+
+/**
+ * Gradle command line for a job, passing user variables as project properties
+ */
+function gradleCommand(job: CiJob, nodesById: Map<string, GradleTaskNode>, userVariables: Variable[]): string {
+  const tasks = job.taskIds.map((id) => nodesById.get(id)!.data.taskName);
+  const properties = userVariables.map((v) => `-P${v.name}="$${v.name}"`);
+  return ['./gradlew', ...tasks, ...properties].join(' ');
+}
+
+/**
+ * Translate a condition into a CI expression, or null when the platform cannot express it
+ */
+type ConditionTranslator = (condition: Condition, userVariables: Set<string>) => string | null;
+
+function translateTaskCondition(
+  taskCondition: TaskCondition,
+  userVariables: Variable[],
+  translate: ConditionTranslator
+): string | null {
+  const names = new Set(userVariables.map((v) => v.name));
+  const parts = taskCondition.conditions.map((c) => translate(c, names));
+  if (parts.some((part) => part === null)) return null;
+
+  const joiner = taskCondition.logic === 'and' ? ' && ' : ' || ';
+  return parts.length === 1 ? parts[0] : parts.map((part) => `(${part})`).join(joiner);
+}
+
+const githubCondition: ConditionTranslator = (condition, userVariables) => {
+  const operand = (source: Condition['leftSource'], value: string): string | null => {
+    if (source === 'environment') return `env.${value}`;
+    if (source === 'variable') return userVariables.has(value) ? `env.${value}` : null;
+    if (source === 'literal') return /^-?\d+(?:\.\d+)?$/.test(value) ? value : `'${value.replace(/'/g, "''")}'`;
+    return null;
+  };
+
+  const left = operand(condition.leftSource, condition.leftValue);
+  const right = isUnaryOperator(condition.operator)
+    ? "''"
+    : operand(condition.rightSource ?? 'literal', condition.rightValue ?? '');
+  if (left === null || right === null) return null;
+
+  switch (condition.operator) {
+    case 'equals':
+      return `${left} == ${right}`;
+    case 'notEquals':
+      return `${left} != ${right}`;
+    case 'contains':
+      return `contains(${left}, ${right})`;
+    case 'notContains':
+      return `!contains(${left}, ${right})`;
+    case 'startsWith':
+      return `startsWith(${left}, ${right})`;
+    case 'endsWith':
+      return `endsWith(${left}, ${right})`;
+    case 'greaterThan':
+      return `${left} > ${right}`;
+    case 'lessThan':
+      return `${left} < ${right}`;
+    case 'greaterOrEqual':
+      return `${left} >= ${right}`;
+    case 'lessOrEqual':
+      return `${left} <= ${right}`;
+    case 'isEmpty':
+      return `${left} == ''`;
+    case 'isNotEmpty':
+      return `${left} != ''`;
+    // String comparison in GitHub expressions is case-insensitive
+    case 'isTrue':
+      return `(${left} == 'true' || ${left} == '1')`;
+    case 'isFalse':
+      return `(${left} == 'false' || ${left} == '0' || ${left} == '')`;
+    default:
+      return null;
+  }
+};
+
+const gitlabCondition: ConditionTranslator = (condition, userVariables) => {
+  const variable = (source: Condition['leftSource'], value: string): string | null => {
+    if (source === 'environment') return `$${value}`;
+    if (source === 'variable') return userVariables.has(value) ? `$${value}` : null;
+    return null;
+  };
+
+  const left = variable(condition.leftSource, condition.leftValue);
+  if (left === null) return null;
+  if (isUnaryOperator(condition.operator)) {
+    switch (condition.operator) {
+      case 'isEmpty':
+        return `${left} == null || ${left} == ""`;
+      case 'isNotEmpty':
+        return `${left} != null && ${left} != ""`;
+      case 'isTrue':
+        return `${left} =~ /^(true|1)$/i`;
+      default:
+        return `${left} == null || ${left} =~ /^(false|0|)$/i`;
+    }
+  }
+
+  const rightSource = condition.rightSource ?? 'literal';
+  const rightValue = condition.rightValue ?? '';
+  if (rightSource !== 'literal') {
+    // Only equality can compare two variables; patterns must be literal
+    const right = variable(rightSource, rightValue);
+    if (right === null) return null;
+    if (condition.operator === 'equals') return `${left} == ${right}`;
+    if (condition.operator === 'notEquals') return `${left} != ${right}`;
+    return null;
+  }
+
+  const escaped = rightValue.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  switch (condition.operator) {
+    case 'equals':
+      return `${left} == ${JSON.stringify(rightValue)}`;
+    case 'notEquals':
+      return `${left} != ${JSON.stringify(rightValue)}`;
+    case 'contains':
+      return `${left} =~ /${escaped}/`;
+    case 'notContains':
+      return `${left} !~ /${escaped}/`;
+    case 'startsWith':
+      return `${left} =~ /^${escaped}/`;
+    case 'endsWith':
+      return `${left} =~ /${escaped}$/`;
+    case 'matches':
+      return `${left} =~ /${rightValue.replace(/\//g, '\\/')}/`;
+    // GitLab rules cannot compare numbers
+    default:
+      return null;
+  }
+};
+
+function hasConditions(condition: TaskCondition | undefined): condition is TaskCondition {
+  return !!condition && condition.conditions.length > 0;
+}
+
+/**
+ * Generate a GitHub Actions workflow with one job per chain of tasks.
+ * Conditions become step-level `if:` expressions so that, as with Gradle's onlyIf,
+ * a skipped task does not block the jobs after it.
+ */
+export function generateGithubActionsWorkflow(graph: GradleTaskGraph, variables: Variable[]): string {
+  const jobs = computeCiJobs(graph);
+  const nodesById = new Map(graph.nodes.map((n) => [n.id, n]));
+  const userVariables = variables.filter((v) => !v.isSystem);
+  const out: string[] = [];
+
+  line(out, 0, 'name: Gradle');
+  line(out, 0);
+  line(out, 0, 'on:');
+  line(out, 1, 'push:');
+  line(out, 1, 'pull_request:');
+  line(out, 1, 'workflow_dispatch:');
+  if (userVariables.length > 0) {
+    line(out, 2, 'inputs:');
+    userVariables.forEach((variable) => {
+      line(out, 3, `${variable.name}:`);
+      if (variable.description) line(out, 4, `description: ${yamlScalar(variable.description)}`);
+      line(out, 4, `type: ${GITHUB_INPUT_TYPES[variable.type]}`);
+      line(out, 4, `default: ${JSON.stringify(variable.value)}`);
+    });
+
+    // Inputs are empty for push and pull_request events, so fall back to the default value
+    line(out, 0);
+    line(out, 0, 'env:');
+    userVariables.forEach((variable) => {
+      line(out, 1, `${variable.name}: \${{ inputs.${variable.name} || '${variable.value.replace(/'/g, "''")}' }}`);
+    });
+  }
+
+  line(out, 0);
+  line(out, 0, 'jobs:');
+  if (jobs.length === 0) line(out, 1, '{}');
+
+  jobs.forEach((job, index) => {
+    if (index > 0) line(out, 0);
+    line(out, 1, `${job.id}:`);
+    line(out, 2, 'runs-on: ubuntu-latest');
+    if (job.needs.length > 0) line(out, 2, `needs: [${job.needs.join(', ')}]`);
+    line(out, 2, 'steps:');
+    line(out, 3, '- uses: actions/checkout@v4');
+    line(out, 3, '- uses: actions/setup-java@v4');
+    line(out, 4, 'with:');
+    line(out, 5, 'distribution: temurin');
+    line(out, 5, "java-version: '17'");
+    line(out, 3, '- uses: gradle/actions/setup-gradle@v4');
+    line(out, 3, `- name: ${yamlScalar(job.taskIds.map((id) => nodesById.get(id)!.data.taskName).join(' → '))}`);
+
+    if (hasConditions(job.condition)) {
+      const expression = translateTaskCondition(job.condition, userVariables, githubCondition);
+      if (expression) {
+        const condition = job.condition.type === 'onlyIf' ? expression : `!(${expression})`;
+        line(out, 4, `if: ${yamlScalar(`\${{ ${condition} }}`)}`);
+      } else {
+        line(out, 4, `# Not translated, left to Gradle: ${formatTaskCondition(job.condition)}`);
+      }
+    }
+    line(out, 4, `run: ${yamlScalar(gradleCommand(job, nodesById, userVariables))}`);
+  });
+
+  return out.join('\n');
+}
+
+/**
+ * Generate a .gitlab-ci.yml with one job per chain of tasks, linked with `needs:`.
+ * Conditions become `rules:`; needs on conditional jobs are optional so that an
+ * excluded job does not block the pipeline.
+ */
+export function generateGitlabCi(graph: GradleTaskGraph, variables: Variable[]): string {
+  const jobs = computeCiJobs(graph);
+  const nodesById = new Map(graph.nodes.map((n) => [n.id, n]));
+  const userVariables = variables.filter((v) => !v.isSystem);
+  const jobsById = new Map(jobs.map((job) => [job.id, job]));
+  const out: string[] = [];
+
+  line(out, 0, 'image: gradle:jdk17');
+  line(out, 0);
+  line(out, 0, 'stages:');
+  line(out, 1, '- build');
+
+  if (userVariables.length > 0) {
+    line(out, 0);
+    line(out, 0, 'variables:');
+    userVariables.forEach((variable) => {
+      line(out, 1, `${variable.name}:`);
+      line(out, 2, `value: ${JSON.stringify(variable.value)}`);
+      if (variable.description) line(out, 2, `description: ${yamlScalar(variable.description)}`);
+    });
+  }
+
+  jobs.forEach((job) => {
+    line(out, 0);
+    line(out, 0, `${job.id}:`);
+    line(out, 1, 'stage: build');
+
+    if (job.needs.length > 0) {
+      line(out, 1, 'needs:');
+      job.needs.forEach((needed) => {
+        if (hasConditions(jobsById.get(needed)!.condition)) {
+          line(out, 2, `- job: ${needed}`);
+          line(out, 3, 'optional: true');
+        } else {
+          line(out, 2, `- ${needed}`);
+        }
+      });
+    } else {
+      line(out, 1, 'needs: []');
+    }
+
+    if (hasConditions(job.condition)) {
+      const expression = translateTaskCondition(job.condition, userVariables, gitlabCondition);
+      if (expression) {
+        line(out, 1, 'rules:');
+        line(out, 2, `- if: ${yamlScalar(expression)}`);
+        if (job.condition.type === 'skipIf') {
+          line(out, 3, 'when: never');
+          line(out, 2, '- when: on_success');
+        }
+      } else {
+        line(out, 1, `# Not translated, left to Gradle: ${formatTaskCondition(job.condition)}`);
+      }
+    }
+
+    line(out, 1, 'script:');
+    line(out, 2, `- ${yamlScalar(gradleCommand(job, nodesById, userVariables))}`);
+  });
+
+  return out.join('\n');
+}
+
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { DependencyType, GradleEdge, GradleTaskNode, TaskExecutionResult } from '../types/gradle';
+import { analyzeCriticalPath, estimateSpeedup, getTaskDurations, type TaskDuration } from './criticalPathUtils';
+
+function task(id: string, expectedDuration: number, enabled = true): GradleTaskNode {
+  return {
+    id,
+    type: 'gradleTask',
+    position: { x: 0, y: 0 },
+    data: { taskName: id, taskType: 'Exec', enabled, simulation: { expectedDuration } },
+  };
+}
+
+function edge(source: string, target: string, dependencyType: DependencyType = 'dependsOn'): GradleEdge {
+  return { id: `${source}-${target}`, source, target, type: 'dependency', data: { dependencyType } };
+}
+
+function durations(entries: Record<string, number>): Map<string, TaskDuration> {
+  return new Map(Object.entries(entries).map(([id, duration]) => [id, { duration, source: 'lastRun' }]));
+}
+
+// compile → (test, docs) → assemble; docs is shorter than test, so it has slack
+const nodes = ['compile', 'test', 'docs', 'assemble'].map((id) => task(id, 100));
+const edges = [edge('compile', 'test'), edge('compile', 'docs'), edge('test', 'assemble'), edge('docs', 'assemble')];
+
+describe('getTaskDurations', () => {
+  it('uses the last run, no time for tasks that did not execute, and estimates otherwise', () => {
+    const result = (taskId: string, status: TaskExecutionResult['status'], duration?: number): [string, TaskExecutionResult] =>
+      [taskId, { taskId, taskName: taskId, status, duration }];
+    const results = new Map([
+      result('compile', 'success', 420),
+      result('test', 'upToDate', 5),
+      result('docs', 'fromCache', 5),
+      result('assemble', 'skipped'),
+    ]);
+    const graph = [...nodes, task('lint', 250), task('publish', 900, false)];
+
+    expect(Object.fromEntries(getTaskDurations(graph, results))).toEqual({
+      compile: { duration: 420, source: 'lastRun' },
+      test: { duration: 0, source: 'lastRun' },
+      docs: { duration: 0, source: 'lastRun' },
+      assemble: { duration: 0, source: 'lastRun' },
+      lint: { duration: 250, source: 'estimate' },
+      publish: { duration: 0, source: 'estimate' },
+    });
+  });
+});
+
+describe('analyzeCriticalPath', () => {
+  const analysis = analyzeCriticalPath(nodes, edges, durations({ compile: 100, test: 300, docs: 50, assemble: 20 }));
+
+  it('follows the longest chain of dependencies', () => {
+    expect(analysis.totalDuration).toBe(420);
+    expect(analysis.path).toEqual(['compile', 'test', 'assemble']);
+    expect([...analysis.pathEdgeIds]).toEqual(['test-assemble', 'compile-test']);
+  });
+
+  it('gives tasks off the path their slack', () => {
+    expect(analysis.tasks.get('docs')).toMatchObject({ earliestStart: 100, latestStart: 350, slack: 250 });
+    expect(['compile', 'test', 'assemble'].map((id) => analysis.tasks.get(id)!.slack)).toEqual([0, 0, 0]);
+  });
+
+  it('ignores ordering edges and leaves out tasks in a cycle', () => {
+    const result = analyzeCriticalPath(
+      [...nodes, task('loopA', 100), task('loopB', 100)],
+      [...edges, edge('assemble', 'compile', 'mustRunAfter'), edge('loopA', 'loopB'), edge('loopB', 'loopA')],
+      durations({ compile: 100, test: 300, docs: 50, assemble: 20, loopA: 1000, loopB: 1000 })
+    );
+
+    expect(result.totalDuration).toBe(420);
+    expect(result.tasks.has('loopA')).toBe(false);
+  });
+});
+
+describe('estimateSpeedup', () => {
+  const taskDurations = durations({ compile: 100, test: 300, docs: 50, assemble: 20 });
+
+  it('shortens the build down to the next longest chain at most', () => {
+    expect(estimateSpeedup(nodes, edges, taskDurations, 'test', 50)).toBe(270);
+    expect(estimateSpeedup(nodes, edges, taskDurations, 'test', 100)).toBe(170);
+  });
+
+  it('leaves the build time alone for tasks off the critical path', () => {
+    expect(estimateSpeedup(nodes, edges, taskDurations, 'docs', 100)).toBe(420);
+  });
+});
@@ -0,0 +1,165 @@
+import type { GradleEdge, GradleTaskNode, TaskExecutionResult, TaskExecutionStatus } from '../types/gradle';
+import { getEstimatedDuration } from './executionUtils';
+
+/**
+ * Where a task's duration comes from
+ */
+export type DurationSource = 'lastRun' | 'estimate';
+
+export interface TaskDuration {
+  duration: number;
+  source: DurationSource;
+}
+
+/**
+ * Earliest and latest start of a task when every task runs as soon as its dependencies finish
+ */
+export interface TaskSchedule extends TaskDuration {
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  /** How much the task can be delayed without delaying the build */
+  slack: number;
+}
+
+export interface CriticalPathAnalysis {
+  tasks: Map<string, TaskSchedule>;
+  /** Task ids on the critical path, first task first */
+  path: string[];
+  pathEdgeIds: Set<string>;
+  /** Build time with unlimited workers: the length of the critical path */
+  totalDuration: number;
+}
+
+/**
+ * Statuses of tasks that took part in the last run without executing
+ */
+const notExecutedStatuses: TaskExecutionStatus[] = ['upToDate', 'fromCache', 'skipped'];
+
+/**
+ * Duration of each task: measured in the last run when it executed, and no time when it was
+ * up to date, restored from the cache or skipped. Tasks that never ran are estimated;
+ * disabled tasks never run and take no time.
+ */
+export function getTaskDurations(
+  nodes: GradleTaskNode[],
+  taskResults: Map<string, TaskExecutionResult>
+): Map<string, TaskDuration> {
+  const durations = new Map<string, TaskDuration>();
+  nodes.forEach((node) => {
+    const result = taskResults.get(node.id);
+    if (node.data.enabled === false) {
+      durations.set(node.id, { duration: 0, source: 'estimate' });
+    } else if (result && notExecutedStatuses.includes(result.status)) {
+      durations.set(node.id, { duration: 0, source: 'lastRun' });
+    } else if (result?.duration !== undefined) {
+      durations.set(node.id, { duration: result.duration, source: 'lastRun' });
+    } else {
+      durations.set(node.id, { duration: getEstimatedDuration(node), source: 'estimate' });
+    }
+  });
+  return durations;
+}
+
+/**
+ * Critical path through the dependsOn graph: the chain of tasks that determines the
+ * build time, found with a forward and a backward pass. Tasks in a cycle are left out.
+ */
+export function analyzeCriticalPath(
+  nodes: GradleTaskNode[],
+  edges: GradleEdge[],
+  durations: Map<string, TaskDuration>
+): CriticalPathAnalysis {
+  const ids = new Set(nodes.map((node) => node.id));
+  const dependsOn = edges.filter(
+    (edge) => (edge.data?.dependencyType || 'dependsOn') === 'dependsOn' && ids.has(edge.source) && ids.has(edge.target)
+  );
+  const incoming = new Map<string, GradleEdge[]>();
+  const outgoing = new Map<string, GradleEdge[]>();
+  dependsOn.forEach((edge) => {
+    incoming.set(edge.target, [...(incoming.get(edge.target) ?? []), edge]);
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge]);
+  });
+
+  // Topological order, dependencies first
+  const remaining = new Map(nodes.map((node) => [node.id, incoming.get(node.id)?.length ?? 0]));
+  const order = nodes.filter((node) => remaining.get(node.id) === 0).map((node) => node.id);
+  for (let i = 0; i < order.length; i++) {
+    (outgoing.get(order[i]) ?? []).forEach((edge) => {
+      const count = (remaining.get(edge.target) ?? 0) - 1;
+      remaining.set(edge.target, count);
+      if (count === 0) order.push(edge.target);
+    });
+  }
+
+  const durationOf = (id: string) => durations.get(id) ?? { duration: 0, source: 'estimate' as const };
+  const earliestFinish = new Map<string, number>();
+  order.forEach((id) => {
+    const start = Math.max(0, ...(incoming.get(id) ?? []).map((edge) => earliestFinish.get(edge.source) ?? 0));
+    earliestFinish.set(id, start + durationOf(id).duration);
+  });
+  const totalDuration = Math.max(0, ...earliestFinish.values());
+
+  const latestFinish = new Map<string, number>();
+  [...order].reverse().forEach((id) => {
+    const finish = Math.min(
+      totalDuration,
+      ...(outgoing.get(id) ?? []).map((edge) => (latestFinish.get(edge.target) ?? totalDuration) - durationOf(edge.target).duration)
+    );
+    latestFinish.set(id, finish);
+  });
+
+  const tasks = new Map<string, TaskSchedule>();
+  order.forEach((id) => {
+    const { duration, source } = durationOf(id);
+    const finish = earliestFinish.get(id) ?? 0;
+    const latest = latestFinish.get(id) ?? totalDuration;
+    tasks.set(id, {
+      duration,
+      source,
+      earliestStart: finish - duration,
+      earliestFinish: finish,
+      latestStart: latest - duration,
+      latestFinish: latest,
+      slack: latest - finish,
+    });
+  });
+
+  // Walk back from the task that finishes last through the dependency that finishes last
+  const path: string[] = [];
+  const pathEdgeIds = new Set<string>();
+  let current = order.reduce<string | undefined>(
+    (last, id) => (last === undefined || (earliestFinish.get(id) ?? 0) > (earliestFinish.get(last) ?? 0) ? id : last),
+    undefined
+  );
+  while (current !== undefined && totalDuration > 0) {
+    path.unshift(current);
+    const start = tasks.get(current)?.earliestStart ?? 0;
+    const previous: GradleEdge | undefined = (incoming.get(current) ?? []).find(
+      (edge) => earliestFinish.get(edge.source) === start && tasks.has(edge.source)
+    );
+    if (!previous) break;
+    pathEdgeIds.add(previous.id);
+    current = previous.source;
+  }
+
+  return { tasks, path, pathEdgeIds, totalDuration };
+}
+
+/**
+ * Estimated build time if one task took `percent`% less time
+ */
+export function estimateSpeedup(
+  nodes: GradleTaskNode[],
+  edges: GradleEdge[],
+  durations: Map<string, TaskDuration>,
+  taskId: string,
+  percent: number
+): number {
+  const current = durations.get(taskId);
+  if (!current) return analyzeCriticalPath(nodes, edges, durations).totalDuration;
+  const factor = 1 - Math.min(100, Math.max(0, percent)) / 100;
+  const faster = new Map(durations).set(taskId, { ...current, duration: current.duration * factor });
+  return analyzeCriticalPath(nodes, edges, faster).totalDuration;
+}
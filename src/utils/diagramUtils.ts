@@ -0,0 +1,604 @@
+import {
+  type DependencyType,
+  type GradleEdge,
+  type GradleTaskGraph,
+  type GradleTaskNode,
+  type GradleTaskType,
+  type GraphImportResult,
+  systemVariables,
+  taskPropertySchemas,
+} from '../types/gradle';
+import { edgeStyles } from '../components/GradleDependencyEdge';
+import { relationTypes } from './buildScriptUtils';
+import { computeLayeredLayout } from './graphUtils';
+
+/**
+ * Options for Mermaid flowchart generation
+ */
+export interface MermaidOptions {
+  /** Wrap the diagram in a ```mermaid fence for pasting into Markdown */
+  markdownFence: boolean;
+}
+
+/**
+ * Mermaid arrow for each relation; finalizedBy uses a circle head to stand out
+ */
+const mermaidArrows: Record<DependencyType, string> = {
+  dependsOn: '-->',
+  mustRunAfter: '-.->',
+  shouldRunAfter: '-.->',
+  finalizedBy: '--o',
+};
+
+/**
+ * Graphviz edge attributes for each relation
+ */
+const dotEdgeAttributes: Record<DependencyType, string> = {
+  dependsOn: 'style=solid',
+  mustRunAfter: 'style=dashed',
+  shouldRunAfter: 'style=dotted',
+  finalizedBy: 'style=solid, arrowhead=odot',
+};
+
+/**
+ * A node or edge read from a diagram, before it is turned into canvas elements
+ */
+interface DiagramNode {
+  id: string;
+  label?: string;
+}
+
+interface DiagramEdge {
+  source: string;
+  target: string;
+  dependencyType: DependencyType;
+}
+
+/**
+ * Derive diagram identifiers from task names, made unique and safe for both formats
+ */
+function diagramIds(nodes: GradleTaskNode[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+
+  nodes.forEach((node) => {
+    const base = (node.data.taskName || node.id).replace(/\W+/g, '_').replace(/^(\d)/, '_$1') || 'task';
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+    used.add(id);
+    ids.set(node.id, id);
+  });
+
+  return ids;
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;');
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Generate a Mermaid flowchart of the task graph.
+ * Nodes are labelled with task name and type; relations other than dependsOn are labelled
+ * and styled through linkStyle so they render distinctly on GitHub.
+ */
+export function generateMermaid(graph: GradleTaskGraph, options: MermaidOptions = { markdownFence: false }): string {
+  const ids = diagramIds(graph.nodes);
+  const out: string[] = ['flowchart TD'];
+
+  graph.nodes.forEach((node) => {
+    const label = `${escapeMermaid(node.data.taskName)}<br/>${node.data.taskType}`;
+    out.push(`    ${ids.get(node.id)}["${label}"]`);
+  });
+
+  const linkStyles: string[] = [];
+  let linkIndex = 0;
+  graph.edges.forEach((edge) => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) return;
+
+    const dependencyType = edge.data?.dependencyType || 'dependsOn';
+    const label = dependencyType === 'dependsOn' ? '' : `|${dependencyType}|`;
+    out.push(`    ${source} ${mermaidArrows[dependencyType]}${label} ${target}`);
+
+    const style = edgeStyles[dependencyType];
+    const dash = style.strokeDasharray ? `,stroke-dasharray:${style.strokeDasharray}` : '';
+    linkStyles.push(`    linkStyle ${linkIndex} stroke:${style.stroke}${dash}`);
+    linkIndex++;
+  });
+  out.push(...linkStyles);
+
+  const diagram = out.join('\n');
+  return options.markdownFence ? `\`\`\`mermaid\n${diagram}\n\`\`\`\n` : `${diagram}\n`;
+}
+
+/**
+ * Generate a Graphviz DOT digraph of the task graph
+ */
+export function generateDot(graph: GradleTaskGraph): string {
+  const ids = diagramIds(graph.nodes);
+  const out: string[] = [
+    'digraph tasks {',
+    '    rankdir=TB;',
+    '    node [shape=box, style=rounded, fontname="Helvetica"];',
+    '    edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  if (graph.nodes.length > 0) out.push('');
+  graph.nodes.forEach((node) => {
+    const label = `${escapeDot(node.data.taskName)}\\n${node.data.taskType}`;
+    out.push(`    "${ids.get(node.id)}" [label="${label}"];`);
+  });
+
+  if (graph.edges.length > 0) out.push('');
+  graph.edges.forEach((edge) => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) return;
+
+    const dependencyType = edge.data?.dependencyType || 'dependsOn';
+    const attributes = [dotEdgeAttributes[dependencyType], `color="${edgeStyles[dependencyType].stroke}"`];
+    if (dependencyType !== 'dependsOn') attributes.push(`label="${dependencyType}"`);
+    out.push(`    "${source}" -> "${target}" [${attributes.join(', ')}];`);
+  });
+
+  out.push('}');
+  return `${out.join('\n')}\n`;
+}
+
+/**
+ * Match an edge label against the relation names ("mustRunAfter" or "must run after")
+ */
+function relationFromLabel(label: string | undefined): DependencyType | undefined {
+  const normalized = label?.replace(/[\s_-]+/g, '').toLowerCase();
+  return relationTypes.find((type) => type.toLowerCase() === normalized);
+}
+
+/**
+ * Turn parsed diagram nodes and edges into canvas elements.
+ * A label's first line is the task name and its second line, when it names a known
+ * task type, the task type. Edges that would duplicate or close a cycle are skipped.
+ */
+function buildImportResult(
+  diagramNodes: Map<string, DiagramNode>,
+  diagramEdges: DiagramEdge[],
+  warnings: string[]
+): GraphImportResult {
+  const edges: GradleEdge[] = [];
+  const adjacency = new Map<string, Set<string>>([...diagramNodes.keys()].map((id) => [id, new Set()]));
+
+  const reaches = (from: string, to: string) => {
+    const visited = new Set<string>();
+    const stack = [from];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === to) return true;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      adjacency.get(current)?.forEach((next) => stack.push(next));
+    }
+    return false;
+  };
+
+  diagramEdges.forEach(({ source, target, dependencyType }) => {
+    if (adjacency.get(source)!.has(target)) {
+      warnings.push(`Skipped duplicate edge ${source} → ${target}`);
+      return;
+    }
+    if (reaches(target, source)) {
+      warnings.push(`Skipped ${dependencyType} edge ${source} → ${target}: it would create a cycle`);
+      return;
+    }
+    adjacency.get(source)!.add(target);
+    edges.push({ id: `${source}-${target}`, source, target, type: 'dependency', data: { dependencyType } });
+  });
+
+  const positions = computeLayeredLayout([...diagramNodes.keys()], edges);
+  const nodes: GradleTaskNode[] = [...diagramNodes.values()].map(({ id, label }) => {
+    const [name, type] = (label ?? '').split(/\n/).map((part) => part.trim());
+    let taskType: GradleTaskType = 'Custom';
+    if (type && type in taskPropertySchemas) {
+      taskType = type as GradleTaskType;
+    } else if (type) {
+      warnings.push(`Unknown task type '${type}' for '${id}', imported as Custom`);
+    }
+
+    return {
+      id,
+      type: 'gradleTask',
+      position: positions.get(id)!,
+      data: { taskName: name || id, taskType, enabled: true },
+    };
+  });
+
+  if (nodes.length === 0) warnings.push('No tasks found in the diagram');
+
+  return { nodes, edges, variables: systemVariables.map((v) => ({ ...v })), warnings };
+}
+
+const MERMAID_ID_PATTERN = /^[\w]+(?:[.-]\w+)*/;
+const MERMAID_IGNORED_PATTERN = /^(?:flowchart|graph|classDef|class|style|linkStyle|click|direction|subgraph)\b|^end$|^%%/;
+
+/**
+ * Node shape delimiters, longest openers first
+ */
+const mermaidShapes: [string, string][] = [
+  ['([', '])'], ['[[', ']]'], ['[(', ')]'], ['((', '))'], ['{{', '}}'],
+  ['[/', '/]'], ['[\\', '\\]'], ['[', ']'], ['(', ')'], ['{', '}'], ['>', ']'],
+];
+
+/**
+ * A link between node groups: `-->`, `-.->`, `==>`, `--o`, `-->|label|` or `-- label -->`
+ */
+const MERMAID_TEXT_LINK_PATTERN = /^\s*(?:--|==|-\.)\s+(.+?)\s+(-{2,}|={2,}|\.+-)([>ox]?)/;
+const MERMAID_LINK_PATTERN = /^\s*<?(-{2,}|={2,}|-\.+-)([>ox]?)(?:\s*\|([^|]*)\|)?/;
+
+function decodeMermaidLabel(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/#quot;|&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read a node reference with an optional shape and label, e.g. `jar["jar<br/>Jar"]`
+ */
+function readMermaidNode(text: string): { node: DiagramNode; rest: string } | null {
+  const idMatch = text.match(MERMAID_ID_PATTERN);
+  if (!idMatch) return null;
+
+  const id = idMatch[0];
+  let rest = text.slice(id.length);
+  let label: string | undefined;
+
+  const shape = mermaidShapes.find(([open]) => rest.startsWith(open));
+  if (shape) {
+    const [open, close] = shape;
+    const body = rest.slice(open.length);
+    const quoted = body.match(/^"([^"]*)"/);
+    const end = quoted ? body.indexOf(close, quoted[0].length) : body.indexOf(close);
+    if (end < 0) return null;
+    label = decodeMermaidLabel(quoted ? quoted[1] : body.slice(0, end));
+    rest = body.slice(end + close.length);
+  }
+
+  rest = rest.replace(/^:::\w+/, '');
+  return { node: { id, label }, rest };
+}
+
+/**
+ * Read `a & b` groups of nodes
+ */
+function readMermaidNodeGroup(text: string): { nodes: DiagramNode[]; rest: string } | null {
+  const nodes: DiagramNode[] = [];
+  let rest = text;
+
+  for (;;) {
+    const read = readMermaidNode(rest.trimStart());
+    if (!read) return null;
+    nodes.push(read.node);
+    rest = read.rest;
+    const more = rest.match(/^\s*&\s*/);
+    if (!more) return { nodes, rest };
+    rest = rest.slice(more[0].length);
+  }
+}
+
+/**
+ * Read a link and classify it: an explicit relation label wins, then the arrow head
+ * (circle → finalizedBy) and stroke (dotted → shouldRunAfter)
+ */
+function readMermaidLink(text: string): { dependencyType: DependencyType; rest: string } | null {
+  const textLink = text.match(MERMAID_TEXT_LINK_PATTERN);
+  const link = textLink ?? text.match(MERMAID_LINK_PATTERN);
+  if (!link) return null;
+
+  const [matched, stroke, head] = textLink ? [link[0], link[2], link[3]] : [link[0], link[1], link[2]];
+  const label = textLink ? link[1] : link[3];
+  const dependencyType =
+    relationFromLabel(label) ??
+    (head === 'o' ? 'finalizedBy' : stroke.includes('.') ? 'shouldRunAfter' : 'dependsOn');
+
+  return { dependencyType, rest: text.slice(matched.length) };
+}
+
+/**
+ * Parse a Mermaid flowchart (optionally inside a ```mermaid fence) into a task graph
+ */
+export function importMermaid(source: string): GraphImportResult {
+  const warnings: string[] = [];
+  const nodes = new Map<string, DiagramNode>();
+  const edges: DiagramEdge[] = [];
+
+  const declare = (node: DiagramNode) => {
+    const existing = nodes.get(node.id);
+    if (!existing) {
+      nodes.set(node.id, node);
+    } else if (node.label !== undefined) {
+      existing.label = node.label;
+    }
+  };
+
+  const statements = source
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .flatMap((line, index) =>
+      // Statements may be separated by ';' outside quoted labels
+      (line.match(/(?:"[^"]*"|[^;"])+/g) ?? []).map((text) => ({ text: text.trim(), line: index + 1 }))
+    );
+
+  for (const { text, line } of statements) {
+    if (!text || text.startsWith('```') || MERMAID_IGNORED_PATTERN.test(text)) continue;
+
+    let group = readMermaidNodeGroup(text);
+    if (!group) {
+      warnings.push(`Line ${line}: could not parse "${text}"`);
+      continue;
+    }
+    group.nodes.forEach(declare);
+
+    while (group && group.rest.trim()) {
+      const link = readMermaidLink(group.rest);
+      const next = link && readMermaidNodeGroup(link.rest);
+      if (!link || !next) {
+        warnings.push(`Line ${line}: could not parse "${group.rest.trim()}"`);
+        break;
+      }
+      next.nodes.forEach(declare);
+      group.nodes.forEach((from) => {
+        next.nodes.forEach((to) => {
+          edges.push({ source: from.id, target: to.id, dependencyType: link.dependencyType });
+        });
+      });
+      group = next;
+    }
+  }
+
+  return buildImportResult(nodes, edges, warnings);
+}
+
+type DotToken =
+  | { kind: 'id'; value: string }
+  | { kind: 'punct'; value: string };
+
+/**
+ * Split DOT source into identifiers (bare, numeric, quoted or HTML) and punctuation
+ */
+function tokenizeDot(source: string): DotToken[] {
+  const tokens: DotToken[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const skip = rest.match(/^(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/);
+    if (skip) {
+      i += skip[0].length;
+      continue;
+    }
+    // Preprocessor-style lines starting with '#' are ignored
+    if (rest.startsWith('#') && (i === 0 || source[i - 1] === '\n')) {
+      const end = source.indexOf('\n', i);
+      i = end < 0 ? source.length : end;
+      continue;
+    }
+
+    const punct = rest.match(/^(?:->|--|[{}[\]=;,:])/);
+    if (punct) {
+      tokens.push({ kind: 'punct', value: punct[0] });
+      i += punct[0].length;
+      continue;
+    }
+
+    if (rest[0] === '"') {
+      let value = '';
+      let j = 1;
+      while (j < rest.length && rest[j] !== '"') {
+        if (rest[j] === '\\' && rest[j + 1] === '"') {
+          value += '"';
+          j += 2;
+        } else if (rest[j] === '\\' && rest[j + 1] === '\n') {
+          j += 2;
+        } else {
+          value += rest[j++];
+        }
+      }
+      tokens.push({ kind: 'id', value });
+      i += j + 1;
+      continue;
+    }
+
+    if (rest[0] === '<') {
+      let depth = 0;
+      let j = 0;
+      do {
+        if (rest[j] === '<') depth++;
+        if (rest[j] === '>') depth--;
+        j++;
+      } while (j < rest.length && depth > 0);
+      tokens.push({ kind: 'id', value: rest.slice(1, j - 1).replace(/<[^>]*>/g, '') });
+      i += j;
+      continue;
+    }
+
+    const bare = rest.match(/^(?:[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*|-?(?:\.\d+|\d+(?:\.\d*)?))/);
+    if (!bare) {
+      throw new Error(`Unexpected character '${rest[0]}' at offset ${i}`);
+    }
+    tokens.push({ kind: 'id', value: bare[0] });
+    i += bare[0].length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent reader for the DOT statement grammar
+ */
+function parseDotTokens(tokens: DotToken[], warnings: string[]): { nodes: Map<string, DiagramNode>; edges: DiagramEdge[] } {
+  const nodes = new Map<string, DiagramNode>();
+  const edges: DiagramEdge[] = [];
+  let pos = 0;
+
+  const peek = (offset = 0) => tokens[pos + offset];
+  const isPunct = (value: string, offset = 0) => peek(offset)?.kind === 'punct' && peek(offset).value === value;
+  const isKeyword = (value: string) => peek()?.kind === 'id' && peek().value.toLowerCase() === value;
+  const expect = (value: string) => {
+    if (!isPunct(value)) {
+      throw new Error(`Expected '${value}' but found '${peek()?.value ?? 'end of input'}'`);
+    }
+    pos++;
+  };
+  const readId = () => {
+    const token = peek();
+    if (token?.kind !== 'id') {
+      throw new Error(`Expected an identifier but found '${token?.value ?? 'end of input'}'`);
+    }
+    pos++;
+    return token.value;
+  };
+
+  const declare = (id: string, label?: string) => {
+    const existing = nodes.get(id);
+    if (!existing) {
+      nodes.set(id, { id, label });
+    } else if (label !== undefined) {
+      existing.label = label;
+    }
+  };
+
+  const readAttributes = (): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    while (isPunct('[')) {
+      pos++;
+      while (!isPunct(']')) {
+        const key = readId();
+        expect('=');
+        attributes[key] = readId();
+        if (isPunct(',') || isPunct(';')) pos++;
+      }
+      pos++;
+    }
+    return attributes;
+  };
+
+  // Node ids may carry a port (`a:n`), which is ignored
+  const readNodeId = () => {
+    const id = readId();
+    if (isPunct(':')) {
+      pos++;
+      readId();
+      if (isPunct(':')) {
+        pos++;
+        readId();
+      }
+    }
+    return id;
+  };
+
+  const edgeType = (attributes: Record<string, string>, defaults: Record<string, string>): DependencyType => {
+    const merged = { ...defaults, ...attributes };
+    const arrowhead = merged.arrowhead?.toLowerCase() ?? '';
+    return (
+      relationFromLabel(merged.label) ??
+      (/dot|odot|inv/.test(arrowhead) ? 'finalizedBy'
+        : merged.style === 'dashed' ? 'mustRunAfter'
+          : merged.style === 'dotted' ? 'shouldRunAfter'
+            : 'dependsOn')
+    );
+  };
+
+  // Reads `{ stmt_list }` and returns the node ids declared inside it
+  const readBlock = (inheritedEdgeDefaults: Record<string, string>): string[] => {
+    const edgeDefaults = { ...inheritedEdgeDefaults };
+    const blockNodes: string[] = [];
+    expect('{');
+
+    while (!isPunct('}')) {
+      if (!peek()) throw new Error("Expected '}' but found end of input");
+      if (isPunct(';')) {
+        pos++;
+        continue;
+      }
+
+      if (isKeyword('graph') || isKeyword('node') || isKeyword('edge')) {
+        const kind = readId().toLowerCase();
+        const attributes = readAttributes();
+        if (kind === 'edge') Object.assign(edgeDefaults, attributes);
+        continue;
+      }
+
+      if (peek()?.kind === 'id' && isPunct('=', 1)) {
+        pos += 3;
+        continue;
+      }
+
+      // Edge operands are node ids or subgraphs
+      const readOperand = (): string[] => {
+        if (isKeyword('subgraph') || isPunct('{')) {
+          if (isKeyword('subgraph')) {
+            pos++;
+            if (peek()?.kind === 'id') pos++;
+          }
+          return readBlock(edgeDefaults);
+        }
+        const id = readNodeId();
+        declare(id);
+        return [id];
+      };
+
+      const operands = [readOperand()];
+      while (isPunct('->') || isPunct('--')) {
+        pos++;
+        operands.push(readOperand());
+      }
+      const attributes = readAttributes();
+
+      if (operands.length === 1) {
+        if (operands[0].length === 1 && attributes.label !== undefined) {
+          declare(operands[0][0], attributes.label.replace(/\\[nlr]/g, '\n'));
+        }
+      } else {
+        const dependencyType = edgeType(attributes, edgeDefaults);
+        operands.slice(1).forEach((targets, index) => {
+          operands[index].forEach((source) => {
+            targets.forEach((target) => edges.push({ source, target, dependencyType }));
+          });
+        });
+      }
+      operands.forEach((ids) => blockNodes.push(...ids));
+    }
+
+    pos++;
+    return blockNodes;
+  };
+
+  if (isKeyword('strict')) pos++;
+  if (isKeyword('graph')) {
+    warnings.push('Undirected graph: edges are read in the order they are written');
+  } else if (!isKeyword('digraph')) {
+    throw new Error("Expected 'digraph' or 'graph'");
+  }
+  pos++;
+  if (peek()?.kind === 'id') pos++;
+  readBlock({});
+
+  if (pos < tokens.length) {
+    warnings.push(`Ignored content after the closing '}'`);
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Parse a Graphviz DOT digraph into a task graph
+ */
+export function importDot(source: string): GraphImportResult {
+  const warnings: string[] = [];
+  const { nodes, edges } = parseDotTokens(tokenizeDot(source), warnings);
+  return buildImportResult(nodes, edges, warnings);
+}
@@ -1,10 +1,51 @@
-import type {
-  GradleTaskNode,
-  GradleEdge,
-  TaskExecutionStatus,
-  ExecutionState,
-  ExecutionLogEntry,
+import {
+  DEFAULT_FAILURE_PROBABILITY,
+  type DependencyType,
+  type GradleTaskNode,
+  type GradleTaskType,
+  type GradleEdge,
+  type TaskExecutionStatus,
+  type ExecutionState,
+  type ExecutionLogEntry,
+  type Variable,
+  type DryRunTaskState,
 } from '../types/gradle';
+import { shouldExecuteTask } from './conditionUtils';
+import { getDownstreamDependents } from './graphUtils';
+import { formatTestSummary, hasFailingTests, summarizeTestReport } from './testReportUtils';
+
+/**
+ * Reason recorded for a task interrupted by Stop
+ */
+export const CANCELLED_REASON = 'cancelled when execution was stopped';
+
+/**
+ * Clock scales for timeouts: how many simulated milliseconds pass per real millisecond,
+ * so minute-long timeouts can be tried out in seconds
+ */
+export const clockScaleOptions: { value: number; label: string }[] = [
+  { value: 1, label: 'Real time' },
+  { value: 60, label: '1 min = 1 s' },
+  { value: 600, label: '10 min = 1 s' },
+  { value: 3600, label: '1 h = 1 s' },
+];
+
+/**
+ * Default number of tasks run at the same time, like Gradle's --max-workers
+ * (which defaults to the number of processors)
+ */
+export const DEFAULT_MAX_WORKERS = Math.min(
+  16,
+  Math.max(1, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 4)
+);
+
+/**
+ * Lets a run stop (abort) or pause every task it has in flight
+ */
+export interface ExecutionControl {
+  signal: AbortSignal;
+  isPaused: () => boolean;
+}
 
 /**
  * Create initial execution state
@@ -13,6 +54,7 @@ export function createInitialExecutionState(): ExecutionState {
   return {
     isRunning: false,
     isPaused: false,
+    runningTaskIds: new Set(),
     taskResults: new Map(),
     executionOrder: [],
     logs: [],
@@ -20,117 +62,555 @@ export function createInitialExecutionState(): ExecutionState {
 }
 
 /**
- * Get topological order of tasks for execution
- * Returns tasks in order such that all dependencies come before dependents
+ * Why a task waits for another one during a run
  */
-export function getExecutionOrder(
+export interface TaskPrerequisite {
+  taskId: string;
+  type: DependencyType;
+}
+
+/**
+ * An ordering or finalizer relationship considered while planning a run,
+ * with the reason it was applied or ignored (shown in the execution log)
+ */
+export interface PlanConstraint {
+  type: Exclude<DependencyType, 'dependsOn'>;
+  source: string;
+  target: string;
+  applied: boolean;
+  reason: string;
+}
+
+/**
+ * Tasks of a run, the order they are listed in, and what each has to wait for
+ */
+export interface ExecutionPlan {
+  /** Topological order honouring dependsOn, mustRunAfter, finalizedBy and accepted shouldRunAfter edges */
+  order: string[];
+  prerequisites: Map<string, TaskPrerequisite[]>;
+  /** Finalizer tasks of each task in the run */
+  finalizers: Map<string, string[]>;
+  /** Tasks that are only in the run because another task is finalized by them */
+  finalizerOnly: Set<string>;
+  constraints: PlanConstraint[];
+}
+
+/**
+ * Plan a run with Gradle's task relationship semantics:
+ * - dependsOn pulls tasks into the run and orders them
+ * - finalizedBy pulls the finalizer into the run and runs it after the finalized task
+ * - mustRunAfter orders two tasks only when both are in the run
+ * - shouldRunAfter is like mustRunAfter, but is dropped when it would create a cycle
+ */
+export function getExecutionPlan(
   nodes: GradleTaskNode[],
   edges: GradleEdge[],
   targetTaskIds?: string[]
-): string[] {
-  // Build adjacency and in-degree maps
-  const inDegree = new Map<string, number>();
-  const adjacency = new Map<string, string[]>();
-
+): ExecutionPlan {
   // Filter to only include enabled nodes
   const enabledNodes = nodes.filter((n) => n.data.enabled !== false);
   const enabledNodeIds = new Set(enabledNodes.map((n) => n.id));
-
-  // Initialize
-  enabledNodes.forEach((node) => {
-    inDegree.set(node.id, 0);
-    adjacency.set(node.id, []);
-  });
-
-  // Build graph from edges (only dependsOn creates execution order)
-  edges.forEach((edge) => {
-    if (
-      edge.data?.dependencyType === 'dependsOn' &&
-      enabledNodeIds.has(edge.source) &&
-      enabledNodeIds.has(edge.target)
-    ) {
-      inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1);
-      adjacency.get(edge.source)?.push(edge.target);
-    }
-  });
-
-  // If specific targets are requested, find all required dependencies
-  let requiredNodes: Set<string>;
-  if (targetTaskIds && targetTaskIds.length > 0) {
-    requiredNodes = new Set<string>();
-    const toVisit = [...targetTaskIds];
-
+  const names = new Map(nodes.map((n) => [n.id, n.data.taskName]));
+  const name = (id: string) => names.get(id) ?? id;
+  const relationEdges = edges.filter(
+    (e) => enabledNodeIds.has(e.source) && enabledNodeIds.has(e.target)
+  );
+  const edgesOfType = (type: DependencyType) =>
+    relationEdges.filter((e) => (e.data?.dependencyType || 'dependsOn') === type);
+
+  // Tasks requested directly or through dependsOn
+  const dependsOnClosure = (startIds: string[], into: Set<string>) => {
+    const toVisit = [...startIds];
     while (toVisit.length > 0) {
       const nodeId = toVisit.pop()!;
-      if (!requiredNodes.has(nodeId) && enabledNodeIds.has(nodeId)) {
-        requiredNodes.add(nodeId);
-        // Find all nodes this depends on
-        edges.forEach((edge) => {
-          if (edge.target === nodeId && edge.data?.dependencyType === 'dependsOn') {
-            toVisit.push(edge.source);
-          }
+      if (!into.has(nodeId) && enabledNodeIds.has(nodeId)) {
+        into.add(nodeId);
+        edgesOfType('dependsOn').forEach((edge) => {
+          if (edge.target === nodeId) toVisit.push(edge.source);
         });
       }
     }
+  };
+
+  const requested = new Set<string>();
+  if (targetTaskIds && targetTaskIds.length > 0) {
+    dependsOnClosure(targetTaskIds, requested);
   } else {
-    requiredNodes = enabledNodeIds;
+    enabledNodeIds.forEach((id) => requested.add(id));
+  }
+
+  // Finalizers join the run together with their own dependencies
+  const scheduled = new Set(requested);
+  const finalizers = new Map<string, string[]>();
+  const constraints: PlanConstraint[] = [];
+  let added = true;
+  while (added) {
+    added = false;
+    edgesOfType('finalizedBy').forEach((edge) => {
+      if (!scheduled.has(edge.source)) return;
+      const list = finalizers.get(edge.source) ?? [];
+      if (list.includes(edge.target)) return;
+      finalizers.set(edge.source, [...list, edge.target]);
+
+      const joined = !scheduled.has(edge.target);
+      if (joined) {
+        dependsOnClosure([edge.target], scheduled);
+        added = true;
+      }
+      constraints.push({
+        type: 'finalizedBy',
+        source: edge.source,
+        target: edge.target,
+        applied: true,
+        reason: `${name(edge.source)} is finalized by ${name(edge.target)}: ${name(edge.target)} ${
+          joined ? 'joins the run and ' : ''
+        }runs after ${name(edge.source)}, even if it fails`,
+      });
+    });
   }
 
-  // Kahn's algorithm for topological sort
-  const queue: string[] = [];
-  inDegree.forEach((degree, nodeId) => {
-    if (degree === 0 && requiredNodes.has(nodeId)) {
-      queue.push(nodeId);
+  const finalizerOnly = new Set(
+    [...finalizers.values()].flat().filter((id) => !requested.has(id))
+  );
+
+  // Hard ordering: dependsOn, finalizedBy, and mustRunAfter between scheduled tasks
+  const prerequisites = new Map<string, TaskPrerequisite[]>([...scheduled].map((id) => [id, []]));
+  const adjacency = new Map<string, Set<string>>([...scheduled].map((id) => [id, new Set()]));
+  const addOrdering = (source: string, target: string, type: DependencyType) => {
+    prerequisites.get(target)!.push({ taskId: source, type });
+    adjacency.get(source)!.add(target);
+  };
+  const reaches = (from: string, to: string) => {
+    const visited = new Set<string>();
+    const stack = [from];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === to) return true;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      adjacency.get(current)?.forEach((next) => stack.push(next));
+    }
+    return false;
+  };
+
+  relationEdges.forEach((edge) => {
+    const type = edge.data?.dependencyType || 'dependsOn';
+    if ((type === 'dependsOn' || type === 'finalizedBy') && scheduled.has(edge.source) && scheduled.has(edge.target)) {
+      addOrdering(edge.source, edge.target, type);
     }
   });
 
-  const result: string[] = [];
+  edgesOfType('mustRunAfter').forEach((edge) => {
+    const bothScheduled = scheduled.has(edge.source) && scheduled.has(edge.target);
+    if (bothScheduled) addOrdering(edge.source, edge.target, 'mustRunAfter');
+    constraints.push({
+      type: 'mustRunAfter',
+      source: edge.source,
+      target: edge.target,
+      applied: bothScheduled,
+      reason: bothScheduled
+        ? `${name(edge.target)} must run after ${name(edge.source)}: both are in the run, so it waits`
+        : `${name(edge.target)} must run after ${name(edge.source)}: ignored, ${name(
+          scheduled.has(edge.source) ? edge.target : edge.source
+        )} is not part of this run`,
+    });
+  });
+
+  // Soft ordering is added last, and only where it keeps the order acyclic
+  edgesOfType('shouldRunAfter').forEach((edge) => {
+    if (!scheduled.has(edge.source) || !scheduled.has(edge.target)) return;
+    const createsCycle = reaches(edge.target, edge.source);
+    if (!createsCycle) addOrdering(edge.source, edge.target, 'shouldRunAfter');
+    constraints.push({
+      type: 'shouldRunAfter',
+      source: edge.source,
+      target: edge.target,
+      applied: !createsCycle,
+      reason: createsCycle
+        ? `${name(edge.target)} should run after ${name(edge.source)}: ignored, it would create an ordering cycle`
+        : `${name(edge.target)} should run after ${name(edge.source)}: both are in the run, so it waits`,
+    });
+  });
+
+  // Kahn's algorithm for topological sort, in canvas order
+  const inDegree = new Map<string, number>([...scheduled].map((id) => [id, prerequisites.get(id)!.length]));
+  const queue = enabledNodes.map((n) => n.id).filter((id) => inDegree.get(id) === 0);
+  const order: string[] = [];
 
   while (queue.length > 0) {
     const current = queue.shift()!;
-    if (requiredNodes.has(current)) {
-      result.push(current);
+    order.push(current);
+    adjacency.get(current)!.forEach((neighbor) => {
+      const newDegree = inDegree.get(neighbor)! - 1;
+      inDegree.set(neighbor, newDegree);
+      if (newDegree === 0) queue.push(neighbor);
+    });
+  }
+
+  return { order, prerequisites, finalizers, finalizerOnly, constraints };
+}
+
+/**
+ * Get topological order of tasks for execution
+ * Returns tasks in order such that all dependencies come before dependents
+ */
+export function getExecutionOrder(
+  nodes: GradleTaskNode[],
+  edges: GradleEdge[],
+  targetTaskIds?: string[]
+): string[] {
+  return getExecutionPlan(nodes, edges, targetTaskIds).order;
+}
+
+/**
+ * Progress of a run as seen by the scheduler
+ */
+export interface ScheduleState {
+  started: Set<string>;
+  finished: Map<string, TaskExecutionStatus>;
+  /** Set once a task has failed */
+  failed: boolean;
+  /** Keep running tasks that do not depend on a failed task (Gradle's --continue) */
+  continueOnFailure: boolean;
+  /** Set when the whole run has to end, e.g. on the run timeout: nothing else starts */
+  stopReason?: string;
+}
+
+/**
+ * Work out which tasks can still run, given what has finished so far.
+ * A task cannot run when a dependsOn prerequisite failed or cannot run itself, when the
+ * build has failed (without --continue) and it is not needed by a finalizer, or when it is
+ * only a finalizer and none of the tasks it finalizes ran.
+ */
+function getRunnableTasks(plan: ExecutionPlan, state: ScheduleState): Set<string> {
+  const finalizedBy = new Map<string, string[]>();
+  plan.finalizers.forEach((list, finalized) => {
+    list.forEach((finalizer) => finalizedBy.set(finalizer, [...(finalizedBy.get(finalizer) ?? []), finalized]));
+  });
+
+  // After a failure, finalizers of tasks that ran still run, with their dependencies
+  const stopped = state.failed && !state.continueOnFailure;
+  const allowedAfterFailure = new Set<string>();
+  if (stopped) {
+    const toVisit = [...state.started].flatMap((id) => plan.finalizers.get(id) ?? []);
+    while (toVisit.length > 0) {
+      const id = toVisit.pop()!;
+      if (allowedAfterFailure.has(id)) continue;
+      allowedAfterFailure.add(id);
+      plan.prerequisites.get(id)?.forEach((p) => {
+        if (p.type === 'dependsOn') toVisit.push(p.taskId);
+      });
     }
+  }
 
-    const neighbors = adjacency.get(current) || [];
-    for (const neighbor of neighbors) {
-      const newDegree = (inDegree.get(neighbor) || 1) - 1;
-      inDegree.set(neighbor, newDegree);
-      if (newDegree === 0 && requiredNodes.has(neighbor)) {
-        queue.push(neighbor);
+  const memo = new Map<string, boolean>();
+  const canRun = (id: string): boolean => {
+    if (state.started.has(id)) return true;
+    if (memo.has(id)) return memo.get(id)!;
+    memo.set(id, false);
+
+    let result = !state.stopReason && (!stopped || allowedAfterFailure.has(id));
+    if (result) {
+      result = plan.prerequisites.get(id)!.every(
+        (p) => p.type !== 'dependsOn' ||
+          (state.finished.has(p.taskId) ? state.finished.get(p.taskId) !== 'failed' : canRun(p.taskId))
+      );
+    }
+    if (result && plan.finalizerOnly.has(id)) {
+      result = (finalizedBy.get(id) ?? []).some((finalized) => canRun(finalized));
+    }
+
+    memo.set(id, result);
+    return result;
+  };
+
+  return new Set(plan.order.filter((id) => !state.finished.has(id) && canRun(id)));
+}
+
+/**
+ * Tasks that can start now: every prerequisite has finished or will never run
+ */
+export function getReadyTasks(plan: ExecutionPlan, state: ScheduleState): string[] {
+  const runnable = getRunnableTasks(plan, state);
+  return plan.order.filter(
+    (id) =>
+      !state.started.has(id) &&
+      runnable.has(id) &&
+      plan.prerequisites.get(id)!.every((p) => state.finished.has(p.taskId) || !runnable.has(p.taskId))
+  );
+}
+
+/**
+ * How a run paused by the debugger continues: to the next breakpoint, one task at a time,
+ * or over the paused task and the tasks that depend on it
+ */
+export type DebugStepMode = 'continue' | 'step' | 'stepOver';
+
+/**
+ * Debugger state of a run
+ */
+export interface DebugState {
+  mode: DebugStepMode;
+  /** Task the run was resumed at, which starts without breaking again */
+  resumedTaskId?: string;
+  /** Tasks a Step Over runs without pausing, breakpoints included */
+  stepOverScope: Set<string>;
+}
+
+/**
+ * Whether the run pauses before starting a task. Breakpoints are passed in as they are now,
+ * since they can be toggled while the run is paused.
+ */
+export function shouldBreakBefore(taskId: string, hasBreakpoint: boolean, debug: DebugState): boolean {
+  if (taskId === debug.resumedTaskId) return false;
+  switch (debug.mode) {
+    case 'step':
+      return true;
+    case 'stepOver':
+      return !debug.stepOverScope.has(taskId);
+    default:
+      return hasBreakpoint;
+  }
+}
+
+/**
+ * Tasks a Step Over from the given task covers: the task and the scheduled tasks that depend on it
+ */
+export function getStepOverScope(plan: ExecutionPlan, edges: GradleEdge[], taskId: string): Set<string> {
+  const dependsOnEdges = edges.filter((e) => (e.data?.dependencyType || 'dependsOn') === 'dependsOn');
+  return new Set([taskId, ...getDownstreamDependents(dependsOnEdges, taskId).filter((id) => plan.order.includes(id))]);
+}
+
+/**
+ * Explain why each task that never started was skipped: a failed upstream task it
+ * depends on, the build stopping after a failure, or the tasks it finalizes not running
+ */
+export function getSkipReasons(
+  plan: ExecutionPlan,
+  state: ScheduleState,
+  edges: GradleEdge[],
+  getTaskName: (taskId: string) => string
+): Map<string, string> {
+  const notStarted = plan.order.filter((id) => !state.started.has(id));
+  const failedIds = plan.order.filter((id) => state.finished.get(id) === 'failed');
+  const dependsOnEdges = edges.filter((e) => (e.data?.dependencyType || 'dependsOn') === 'dependsOn');
+
+  const reasons = new Map<string, string>();
+  failedIds.forEach((failedId) => {
+    getDownstreamDependents(dependsOnEdges, failedId).forEach((id) => {
+      if (notStarted.includes(id) && !reasons.has(id)) {
+        reasons.set(id, `upstream task ${getTaskName(failedId)} failed`);
       }
+    });
+  });
+
+  notStarted.forEach((id) => {
+    if (reasons.has(id)) return;
+    const finalizedRan = [...plan.finalizers].some(
+      ([finalized, list]) => list.includes(id) && state.started.has(finalized)
+    );
+    if (state.stopReason) {
+      reasons.set(id, state.stopReason);
+    } else if (plan.finalizerOnly.has(id) && !finalizedRan) {
+      reasons.set(id, 'none of the tasks it finalizes ran');
+    } else if (state.failed && !state.continueOnFailure) {
+      reasons.set(id, `build stopped after ${failedIds.map(getTaskName).join(', ')} failed`);
+    } else {
+      reasons.set(id, 'execution was stopped');
     }
+  });
+
+  return reasons;
+}
+
+/**
+ * Predict how a failure of one task spreads through a run without executing anything.
+ * Tasks are taken one at a time in plan order and every other task succeeds.
+ */
+export function predictFailureImpact(
+  plan: ExecutionPlan,
+  failedTaskId: string,
+  continueOnFailure: boolean,
+  edges: GradleEdge[],
+  getTaskName: (taskId: string) => string
+): { statuses: Map<string, TaskExecutionStatus>; skipReasons: Map<string, string> } {
+  const state: ScheduleState = { started: new Set(), finished: new Map(), failed: false, continueOnFailure };
+  let next = getReadyTasks(plan, state)[0];
+  while (next) {
+    state.started.add(next);
+    state.finished.set(next, next === failedTaskId ? 'failed' : 'success');
+    if (next === failedTaskId) state.failed = true;
+    next = getReadyTasks(plan, state)[0];
+  }
+
+  const skipReasons = getSkipReasons(plan, state, edges, getTaskName);
+  const statuses = new Map(state.finished);
+  skipReasons.forEach((_, taskId) => statuses.set(taskId, 'skipped'));
+  return { statuses, skipReasons };
+}
+
+/**
+ * Preview of a run without executing anything, like `gradle --dry-run`
+ */
+export interface DryRun {
+  plan: ExecutionPlan;
+  /** What would happen to every task on the canvas */
+  tasks: Map<string, DryRunTaskState>;
+  /** The listing Gradle prints for --dry-run */
+  listing: string[];
+}
+
+/**
+ * Work out what a run of the given tasks would do: tasks in the plan run in order unless
+ * their condition skips them, disabled tasks they need are skipped, and the rest is untouched
+ */
+export function getDryRun(
+  nodes: GradleTaskNode[],
+  edges: GradleEdge[],
+  variables: Variable[],
+  targetTaskIds?: string[]
+): DryRun {
+  const plan = getExecutionPlan(nodes, edges, targetTaskIds);
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const tasks = new Map<string, DryRunTaskState>(nodes.map((n) => [n.id, { decision: 'untouched' }]));
+
+  let position = 0;
+  plan.order.forEach((taskId) => {
+    const result = shouldExecuteTask(nodesById.get(taskId)!.data.condition, variables);
+    tasks.set(
+      taskId,
+      result.execute ? { decision: 'run', order: ++position } : { decision: 'skip', reason: result.reason }
+    );
+  });
+
+  // Disabled tasks are left out of the plan; show the ones the requested tasks reach
+  const reached = new Set<string>();
+  const toVisit = targetTaskIds && targetTaskIds.length > 0 ? [...targetTaskIds] : nodes.map((n) => n.id);
+  while (toVisit.length > 0) {
+    const taskId = toVisit.pop()!;
+    if (reached.has(taskId)) continue;
+    reached.add(taskId);
+    edges.forEach((edge) => {
+      if (edge.target === taskId && (edge.data?.dependencyType || 'dependsOn') === 'dependsOn') toVisit.push(edge.source);
+    });
+  }
+  reached.forEach((taskId) => {
+    if (nodesById.get(taskId)?.data.enabled === false) {
+      tasks.set(taskId, { decision: 'skip', reason: 'Task is disabled' });
+    }
+  });
+
+  const listing = [
+    ...plan.order.map((taskId) => `:${nodesById.get(taskId)!.data.taskName} SKIPPED`),
+    '',
+    'BUILD SUCCESSFUL in 0s',
+  ];
+  return { plan, tasks, listing };
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32), so a run can be repeated exactly
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 32-bit FNV-1a hash of a string; a different basis gives an independent hash
+ */
+export function hashString(text: string, basis = 0x811c9dc5): number {
+  let hash = basis;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
   }
+  return hash >>> 0;
+}
 
-  return result;
+/**
+ * Read a seed typed by the user: whole numbers are used as they are, other text is hashed.
+ * Returns null for an empty seed, meaning unseeded (Math.random) runs.
+ */
+export function parseSimulationSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  return /^\d+$/.test(trimmed) ? Number(trimmed) >>> 0 : hashString(trimmed);
 }
 
 /**
- * Simulate task execution with random duration
+ * Random numbers for one task of a seeded run. Each task gets its own sequence,
+ * so results do not depend on the order parallel tasks happen to start in.
+ */
+export function createTaskRandom(seed: number, taskId: string): () => number {
+  return createSeededRandom(seed ^ hashString(taskId));
+}
+
+/**
+ * Decide whether a simulated task fails, from its simulation settings
+ */
+function shouldSimulatedTaskFail(node: GradleTaskNode, random: () => number): boolean {
+  const settings = node.data.simulation;
+  switch (settings?.outcome) {
+    case 'success':
+      return false;
+    case 'fail':
+      return true;
+    case 'flaky':
+      return random() < 0.5;
+    default:
+      return random() < (settings?.failureProbability ?? DEFAULT_FAILURE_PROBABILITY);
+  }
+}
+
+/**
+ * Shortest simulated duration of each task type; a simulated run takes up to 50% longer
+ */
+const simulatedBaseDurations: Record<GradleTaskType, number> = {
+  JavaCompile: 2000,
+  Test: 3000,
+  Jar: 1500,
+  Copy: 500,
+  Delete: 300,
+  Zip: 1000,
+  Exec: 1500,
+  ProcessResources: 800,
+  HttpRequest: 1200,
+  Custom: 200,
+};
+
+/**
+ * Expected duration of a task: its simulation setting, or the average simulated duration of its type
+ */
+export function getEstimatedDuration(node: GradleTaskNode): number {
+  return node.data.simulation?.expectedDuration ?? (simulatedBaseDurations[node.data.taskType] || 1000) * 1.25;
+}
+
+/**
+ * Simulate task execution with random duration. Pass a seeded `random` to make runs repeatable.
+ * Simulated time stands still while the run is paused, and the task ends early when it is stopped.
  */
 export async function simulateTaskExecution(
   node: GradleTaskNode,
-  onProgress?: (output: string) => void
-): Promise<{ success: boolean; output: string; error?: string }> {
+  onProgress?: (output: string) => void,
+  control?: ExecutionControl,
+  random: () => number = Math.random
+): Promise<{ success: boolean; output: string; error?: string; cancelled?: boolean }> {
   const taskType = node.data.taskType;
   const taskName = node.data.taskName;
 
   // Simulate different execution times based on task type
-  const baseDurations: Record<string, number> = {
-    JavaCompile: 2000,
-    Test: 3000,
-    Jar: 1500,
-    Copy: 500,
-    Delete: 300,
-    Zip: 1000,
-    Exec: 1500,
-    ProcessResources: 800,
-    HttpRequest: 1200,
-    Custom: 200,
-  };
-
-  const baseDuration = baseDurations[taskType] || 1000;
-  const duration = baseDuration + Math.random() * baseDuration * 0.5;
+  const baseDuration = simulatedBaseDurations[taskType] || 1000;
+  const expectedDuration = node.data.simulation?.expectedDuration;
+  const duration = expectedDuration
+    ? expectedDuration * (0.75 + random() * 0.5)
+    : baseDuration + random() * baseDuration * 0.5;
+  const sleep = (ms: number) => pausableSleep(ms, control);
 
   // Simulate progress output
   const outputs: string[] = [];
@@ -146,22 +626,32 @@ export async function simulateTaskExecution(
       outputs.push(`Compiling Java source files...`);
       onProgress?.(outputs.join('\n'));
       await sleep(duration * 0.4);
-      outputs.push(`Compiled ${Math.floor(Math.random() * 50 + 10)} source files`);
+      outputs.push(`Compiled ${Math.floor(random() * 50 + 10)} source files`);
       break;
 
     case 'Test':
       outputs.push(`Running tests...`);
       onProgress?.(outputs.join('\n'));
       await sleep(duration * 0.5);
-      const testCount = Math.floor(Math.random() * 100 + 20);
-      outputs.push(`${testCount} tests completed, ${testCount} passed`);
+      if (node.data.testReport) {
+        // Report the attached results, listing failures the way Gradle's console does
+        node.data.testReport.suites.forEach((suite) =>
+          suite.cases
+            .filter((c) => c.status === 'failed' || c.status === 'error')
+            .forEach((c) => outputs.push(`${c.className || suite.name} > ${c.name} FAILED`))
+        );
+        outputs.push(formatTestSummary(summarizeTestReport(node.data.testReport)));
+      } else {
+        const testCount = Math.floor(random() * 100 + 20);
+        outputs.push(`${testCount} tests completed, ${testCount} passed`);
+      }
       break;
 
     case 'Copy':
       outputs.push(`Copying files...`);
       onProgress?.(outputs.join('\n'));
       await sleep(duration * 0.3);
-      outputs.push(`Copied ${Math.floor(Math.random() * 30 + 5)} files`);
+      outputs.push(`Copied ${Math.floor(random() * 30 + 5)} files`);
       break;
 
     case 'Delete':
@@ -207,9 +697,19 @@ export async function simulateTaskExecution(
 
   await sleep(duration * 0.2);
 
-  // Small chance of failure for simulation
-  const shouldFail = Math.random() < 0.05;
-  if (shouldFail) {
+  if (control?.signal.aborted) {
+    const error = `Task :${taskName} was cancelled`;
+    outputs.push(error);
+    return { success: false, output: outputs.join('\n'), error, cancelled: true };
+  }
+
+  if (hasFailingTests(node)) {
+    const error = `Task :${taskName} FAILED: There were failing tests`;
+    outputs.push(error);
+    return { success: false, output: outputs.join('\n'), error };
+  }
+
+  if (shouldSimulatedTaskFail(node, random)) {
     const error = `Task :${taskName} FAILED`;
     outputs.push(error);
     return { success: false, output: outputs.join('\n'), error };
@@ -264,6 +764,10 @@ export function getStatusColor(status: TaskExecutionStatus): string {
       return '#3b82f6'; // blue
     case 'success':
       return '#22c55e'; // green
+    case 'upToDate':
+      return '#14b8a6'; // teal
+    case 'fromCache':
+      return '#8b5cf6'; // violet
     case 'failed':
       return '#ef4444'; // red
     case 'pending':
@@ -285,6 +789,10 @@ export function getStatusIcon(status: TaskExecutionStatus): string {
       return 'loader';
     case 'success':
       return 'check';
+    case 'upToDate':
+      return 'check-check';
+    case 'fromCache':
+      return 'archive';
     case 'failed':
       return 'x';
     case 'pending':
@@ -297,6 +805,66 @@ export function getStatusIcon(status: TaskExecutionStatus): string {
   }
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+const PAUSE_POLL_MS = 50;
+
+/**
+ * Wait for the given amount of unpaused time; resolves early when the run is aborted
+ */
+export function pausableSleep(ms: number, control?: ExecutionControl): Promise<void> {
+  if (!control) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  return new Promise((resolve) => {
+    let remaining = ms;
+    let last = Date.now();
+
+    const finish = () => {
+      clearInterval(timer);
+      control.signal.removeEventListener('abort', finish);
+      resolve();
+    };
+    const timer = setInterval(() => {
+      const now = Date.now();
+      if (!control.isPaused()) remaining -= now - last;
+      last = now;
+      if (remaining <= 0) finish();
+    }, Math.min(PAUSE_POLL_MS, Math.max(1, ms)));
+
+    if (control.signal.aborted) {
+      finish();
+    } else {
+      control.signal.addEventListener('abort', finish);
+    }
+  });
+}
+
+/**
+ * Call onTimeout after the given amount of unpaused time, unless the run is aborted first.
+ * Returns a function that cancels the timer.
+ */
+export function startPausableTimer(ms: number, control: ExecutionControl, onTimeout: () => void): () => void {
+  let remaining = ms;
+  let last = Date.now();
+
+  const cancel = () => {
+    clearInterval(timer);
+    control.signal.removeEventListener('abort', cancel);
+  };
+  const timer = setInterval(() => {
+    const now = Date.now();
+    if (!control.isPaused()) remaining -= now - last;
+    last = now;
+    if (remaining <= 0) {
+      cancel();
+      onTimeout();
+    }
+  }, Math.min(PAUSE_POLL_MS, Math.max(1, ms)));
+
+  if (control.signal.aborted) {
+    cancel();
+  } else {
+    control.signal.addEventListener('abort', cancel);
+  }
+  return cancel;
 }
@@ -0,0 +1,166 @@
+/**
+ * Trigger a browser download of generated text content
+ */
+export function downloadTextFile(
+  fileName: string,
+  content: string,
+  mimeType = 'text/plain'
+): void {
+  downloadBlob(fileName, new Blob([content], { type: `${mimeType};charset=utf-8` }));
+}
+
+/**
+ * Trigger a browser download of binary content
+ */
+export function downloadBlob(fileName: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * File picker entry points of the File System Access API (Chromium only, not in lib.dom)
+ */
+interface FilePickerWindow {
+  showOpenFilePicker?: (options?: {
+    multiple?: boolean;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }) => Promise<FileSystemFileHandle[]>;
+  showSaveFilePicker?: (options?: {
+    suggestedName?: string;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }) => Promise<FileSystemFileHandle>;
+}
+
+/**
+ * File type filter shared by the open and save pickers
+ */
+export interface TextFileType {
+  description: string;
+  mimeType: string;
+  extensions: string[];
+}
+
+/**
+ * A file read from disk, with a handle for writing back when the browser supports it
+ */
+export interface OpenedTextFile {
+  name: string;
+  content: string;
+  handle: FileSystemFileHandle | null;
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Let the user pick a text file. Resolves to null if the picker is cancelled.
+ */
+export async function openTextFile(fileType: TextFileType): Promise<OpenedTextFile | null> {
+  const pickerWindow = window as Window & FilePickerWindow;
+  if (pickerWindow.showOpenFilePicker) {
+    try {
+      const [handle] = await pickerWindow.showOpenFilePicker({
+        types: [{ description: fileType.description, accept: { [fileType.mimeType]: fileType.extensions } }],
+      });
+      const file = await handle.getFile();
+      return { name: file.name, content: await file.text(), handle };
+    } catch (error) {
+      if (isAbortError(error)) return null;
+      throw error;
+    }
+  }
+
+  // Fallback: a temporary file input (no handle, so saving downloads a copy)
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = fileType.extensions.join(',');
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then((content) => resolve({ name: file.name, content, handle: null }), reject);
+    });
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}
+
+/**
+ * Let the user pick any number of text files. Resolves to an empty list if the picker is cancelled.
+ */
+export async function openTextFiles(fileType: TextFileType): Promise<{ name: string; content: string }[]> {
+  const pickerWindow = window as Window & FilePickerWindow;
+  let files: File[];
+  if (pickerWindow.showOpenFilePicker) {
+    try {
+      const handles = await pickerWindow.showOpenFilePicker({
+        multiple: true,
+        types: [{ description: fileType.description, accept: { [fileType.mimeType]: fileType.extensions } }],
+      });
+      files = await Promise.all(handles.map((handle) => handle.getFile()));
+    } catch (error) {
+      if (isAbortError(error)) return [];
+      throw error;
+    }
+  } else {
+    files = await new Promise<File[]>((resolve) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.multiple = true;
+      input.accept = fileType.extensions.join(',');
+      input.addEventListener('change', () => resolve(Array.from(input.files ?? [])));
+      input.addEventListener('cancel', () => resolve([]));
+      input.click();
+    });
+  }
+  return Promise.all(files.map(async (file) => ({ name: file.name, content: await file.text() })));
+}
+
+/**
+ * Write text to a file. Writes to the given handle when present, otherwise asks
+ * for a location (or downloads when the browser has no save picker).
+ * Resolves to the handle written to, null for a download, or undefined if cancelled.
+ */
+export async function saveTextFile(
+  fileName: string,
+  content: string,
+  fileType: TextFileType,
+  handle: FileSystemFileHandle | null = null
+): Promise<FileSystemFileHandle | null | undefined> {
+  const pickerWindow = window as Window & FilePickerWindow;
+  let target = handle;
+
+  if (!target && pickerWindow.showSaveFilePicker) {
+    try {
+      target = await pickerWindow.showSaveFilePicker({
+        suggestedName: fileName,
+        types: [{ description: fileType.description, accept: { [fileType.mimeType]: fileType.extensions } }],
+      });
+    } catch (error) {
+      if (isAbortError(error)) return undefined;
+      throw error;
+    }
+  }
+
+  if (!target) {
+    downloadTextFile(fileName, content, fileType.mimeType);
+    return null;
+  }
+
+  const writable = await target.createWritable();
+  await writable.write(content);
+  await writable.close();
+  return target;
+}
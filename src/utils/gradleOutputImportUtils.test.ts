@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { importGradleOutput } from './gradleOutputImportUtils';
+
+const taskListing = `
+------------------------------------------------------------
+Tasks runnable from root project 'demo'
+------------------------------------------------------------
+
+Build tasks
+-----------
+assemble - Assembles the outputs of this project. [jar]
+classes - Assembles main classes. [compileJava]
+
+Other tasks
+-----------
+compileJava - Compiles main Java source.
+jar [classes]
+`;
+
+describe('importGradleOutput', () => {
+  it('reads groups, descriptions and listed dependencies', () => {
+    const result = importGradleOutput(taskListing);
+
+    expect(result.warnings).toEqual([]);
+    expect(result.nodes.map((node) => node.id)).toEqual(['assemble', 'jar', 'classes', 'compileJava']);
+    expect(result.nodes[0].data).toMatchObject({ group: 'build', description: 'Assembles the outputs of this project.' });
+    expect(result.nodes.find((node) => node.id === 'compileJava')!.data.group).toBeUndefined();
+    expect(result.edges.map((edge) => `${edge.source}-${edge.target}`)).toEqual(['jar-assemble', 'compileJava-classes', 'classes-jar']);
+    expect(result.edges.every((edge) => edge.data?.inferred === undefined)).toBe(true);
+  });
+
+  it('chains a dry-run without listed dependencies and marks those edges inferred', () => {
+    const result = importGradleOutput([
+      '> Task :compileJava SKIPPED',
+      ':processResources SKIPPED',
+      ':lib:jar SKIPPED',
+    ].join('\r\n'));
+
+    expect(result.nodes.map((node) => node.id)).toEqual(['compileJava', 'processResources', 'lib:jar']);
+    expect(result.edges.map((edge) => edge.data)).toEqual([
+      { dependencyType: 'dependsOn', inferred: true },
+      { dependencyType: 'dependsOn', inferred: true },
+    ]);
+    expect(result.edges.map((edge) => `${edge.source}-${edge.target}`)).toEqual([
+      'compileJava-processResources',
+      'processResources-lib:jar',
+    ]);
+    expect(result.orderChecks).toEqual([]);
+  });
+
+  it('checks a dry-run of listed tasks against the inferred order', () => {
+    const result = importGradleOutput(`${taskListing}
+:compileJava SKIPPED
+:classes SKIPPED
+:jar SKIPPED
+:assemble SKIPPED
+`);
+
+    expect(result.orderChecks).toHaveLength(1);
+    expect(result.orderChecks![0]).toMatchObject({ label: 'assemble', mismatches: [] });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('reports positions where the dry-run disagrees with the listed dependencies', () => {
+    const result = importGradleOutput(`${taskListing}
+:assemble SKIPPED
+:jar SKIPPED
+`);
+
+    expect(result.orderChecks![0]).toMatchObject({ imported: ['assemble', 'jar'], inferred: ['jar', 'assemble'], mismatches: [0, 1] });
+    expect(result.warnings).toEqual(["Inferred order for 'jar' differs from the dry-run at 2 position(s)"]);
+  });
+
+  it('warns when the text holds neither a listing nor a dry-run', () => {
+    expect(importGradleOutput('BUILD SUCCESSFUL in 1s').warnings).toEqual([
+      'No `gradle tasks --all` listing or `--dry-run` output found',
+    ]);
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  type GradleTaskNode,
+  type GradleTaskNodeData,
+  type GradleEdge,
+  type ExecutionOrderCheck,
+  type GraphImportResult,
+  systemVariables,
+} from '../types/gradle';
+import { computeLayeredLayout } from './graphUtils';
+import { getExecutionOrder } from './executionUtils';
+
+/**
+ * A task line from `gradle tasks --all`: `name - description [dep1, dep2]`
+ * (the bracketed dependency list is only printed by older Gradle versions)
+ */
+const TASK_LINE_PATTERN = /^(\s*)([\w.-]+(?::[\w.-]+)*)(?:\s+-\s+(.*?))?(?:\s+\[([^\]]*)\])?\s*$/;
+
+/**
+ * A dry-run line: `:compileJava SKIPPED` or `> Task :compileJava SKIPPED`
+ */
+const DRY_RUN_LINE_PATTERN = /^(?:>\s*Task\s+)?:([\w.-]+(?::[\w.-]+)*)\s+SKIPPED\s*$/;
+
+const SEPARATOR_PATTERN = /^-{3,}\s*$/;
+
+/**
+ * Task details collected from the task listing
+ */
+interface ListedTask {
+  group?: string;
+  description?: string;
+  dependsOn: string[];
+}
+
+/**
+ * Parse the grouped listing printed by `gradle tasks --all`.
+ * Task groups are headed by "<Group> tasks" followed by a dashed underline.
+ */
+function parseTaskListing(lines: string[]): Map<string, ListedTask> {
+  const tasks = new Map<string, ListedTask>();
+  let group: string | undefined;
+  let inTaskSection = false;
+  let parentTask: string | null = null;
+
+  lines.forEach((line, index) => {
+    const next = lines[index + 1] ?? '';
+
+    // Section header: a title underlined with dashes
+    if (line.trim() && !SEPARATOR_PATTERN.test(line) && SEPARATOR_PATTERN.test(next)) {
+      const title = line.trim();
+      inTaskSection = / tasks$/i.test(title) && !/^tasks runnable from/i.test(title);
+      group = inTaskSection && !/^other tasks$/i.test(title)
+        ? title.replace(/ tasks$/i, '').toLowerCase()
+        : undefined;
+      parentTask = null;
+      return;
+    }
+
+    if (!inTaskSection || !line.trim() || SEPARATOR_PATTERN.test(line)) return;
+
+    const match = line.match(TASK_LINE_PATTERN);
+    if (!match) return;
+
+    const [, indent, name, description, dependencies] = match;
+    const task = tasks.get(name) ?? { dependsOn: [] };
+    if (description) task.description = description;
+    if (dependencies) {
+      dependencies.split(',').map((d) => d.trim()).filter(Boolean).forEach((dep) => {
+        if (!task.dependsOn.includes(dep)) task.dependsOn.push(dep);
+      });
+    }
+
+    if (indent) {
+      // Older Gradle versions list ungrouped dependencies indented under their parent task
+      if (parentTask) {
+        const parent = tasks.get(parentTask)!;
+        if (!parent.dependsOn.includes(name)) parent.dependsOn.push(name);
+      }
+    } else {
+      task.group = group;
+      parentTask = name;
+    }
+    tasks.set(name, task);
+  });
+
+  return tasks;
+}
+
+/**
+ * Parse `--dry-run` output into runs: each uninterrupted block of SKIPPED lines is one run
+ */
+function parseDryRuns(lines: string[]): string[][] {
+  const runs: string[][] = [];
+  let current: string[] = [];
+
+  lines.forEach((line) => {
+    const match = line.match(DRY_RUN_LINE_PATTERN);
+    if (match) {
+      if (!current.includes(match[1])) current.push(match[1]);
+    } else if (current.length > 0) {
+      runs.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) runs.push(current);
+
+  return runs;
+}
+
+/**
+ * Check whether a task can reach another through the dependsOn edges added so far
+ */
+function reaches(adjacency: Map<string, Set<string>>, from: string, to: string): boolean {
+  const visited = new Set<string>();
+  const stack = [from];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === to) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    adjacency.get(current)?.forEach((next) => stack.push(next));
+  }
+
+  return false;
+}
+
+/**
+ * Compare each imported run against the execution order inferred from the graph
+ */
+function compareExecutionOrders(
+  nodes: GradleTaskNode[],
+  edges: GradleEdge[],
+  runs: string[][]
+): ExecutionOrderCheck[] {
+  return runs.map((run) => {
+    const inferred = getExecutionOrder(nodes, edges, run).filter((id) => run.includes(id));
+    const mismatches: number[] = [];
+    run.forEach((taskId, index) => {
+      if (inferred[index] !== taskId) mismatches.push(index);
+    });
+    return { label: run[run.length - 1], imported: run, inferred, mismatches };
+  });
+}
+
+/**
+ * Parse pasted `gradle tasks --all` and/or `gradle <task> --dry-run` output.
+ * Groups, descriptions and dependencies come from the task listing. A dry-run none of whose
+ * tasks has listed dependencies is chained instead, each task depending on the one executed
+ * before it; those edges are marked inferred and the run's order is not checked against them.
+ */
+export function importGradleOutput(source: string): GraphImportResult {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const warnings: string[] = [];
+  const listed = parseTaskListing(lines);
+  const runs = parseDryRuns(lines);
+
+  if (listed.size === 0 && runs.length === 0) {
+    warnings.push('No `gradle tasks --all` listing or `--dry-run` output found');
+  }
+
+  // Node ids are task paths without the leading colon, in first-seen order
+  const taskIds: string[] = [];
+  const addTask = (id: string) => {
+    if (!taskIds.includes(id)) taskIds.push(id);
+  };
+  listed.forEach((task, name) => {
+    addTask(name);
+    task.dependsOn.forEach(addTask);
+  });
+  runs.forEach((run) => run.forEach(addTask));
+
+  const edges: GradleEdge[] = [];
+  const adjacency = new Map<string, Set<string>>(taskIds.map((id) => [id, new Set()]));
+  const addDependsOn = (source: string, target: string, origin: string, inferred = false) => {
+    if (source === target || adjacency.get(source)!.has(target)) return;
+    if (reaches(adjacency, target, source)) {
+      warnings.push(`Skipped ${origin} edge ${source} → ${target}: it would create a cycle`);
+      return;
+    }
+    adjacency.get(source)!.add(target);
+    edges.push({
+      id: `${source}-${target}`,
+      source,
+      target,
+      type: 'dependency',
+      data: inferred ? { dependencyType: 'dependsOn', inferred } : { dependencyType: 'dependsOn' },
+    });
+  };
+
+  listed.forEach((task, name) => {
+    task.dependsOn.forEach((dep) => addDependsOn(dep, name, 'listed'));
+  });
+  // Only runs with declared dependencies say anything about the order the graph produces
+  const declaredRuns = runs.filter((run) => run.some((id) => (listed.get(id)?.dependsOn.length ?? 0) > 0));
+  runs.filter((run) => !declaredRuns.includes(run)).forEach((run) => {
+    run.slice(1).forEach((taskId, index) => addDependsOn(run[index], taskId, 'dry-run', true));
+  });
+
+  const positions = computeLayeredLayout(taskIds, edges);
+  const nodes: GradleTaskNode[] = taskIds.map((id) => {
+    const task = listed.get(id);
+    const data: GradleTaskNodeData = {
+      taskName: id,
+      taskType: 'Custom',
+      enabled: true,
+    };
+    if (task?.group) data.group = task.group;
+    if (task?.description) data.description = task.description;
+
+    return { id, type: 'gradleTask', position: positions.get(id)!, data };
+  });
+
+  const orderChecks = compareExecutionOrders(nodes, edges, declaredRuns);
+  orderChecks.forEach((check) => {
+    if (check.mismatches.length > 0) {
+      warnings.push(
+        `Inferred order for '${check.label}' differs from the dry-run at ${check.mismatches.length} position(s)`
+      );
+    }
+  });
+
+  return {
+    nodes,
+    edges,
+    variables: systemVariables.map((v) => ({ ...v })),
+    warnings,
+    orderChecks,
+  };
+}
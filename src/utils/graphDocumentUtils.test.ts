@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { GradleEdge, GradleTaskNode } from '../types/gradle';
+import { systemVariables } from '../types/gradle';
+import {
+  CURRENT_SCHEMA_VERSION,
+  createDocumentMetadata,
+  createGraphDocument,
+  parseGraphDocument,
+  readGraphDocument,
+  serializeGraphDocument,
+} from './graphDocumentUtils';
+
+const nodes: GradleTaskNode[] = [
+  {
+    id: 'compile',
+    type: 'gradleTask',
+    position: { x: 10, y: 20 },
+    data: { taskName: 'compile', taskType: 'Exec', executionStatus: 'success', breakpoint: true },
+  },
+  { id: 'package', type: 'gradleTask', position: { x: 10, y: 120 }, data: { taskName: 'package', taskType: 'Zip' } },
+];
+
+const edges: GradleEdge[] = [
+  { id: 'compile-package', source: 'compile', target: 'package', type: 'dependency', data: { dependencyType: 'dependsOn', inferred: true } },
+];
+
+describe('readGraphDocument', () => {
+  it('migrates an unversioned React Flow dump to the current version', () => {
+    const result = readGraphDocument({ nodes, edges: [] });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.document.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(result.document.metadata.name).toBe('Untitled');
+    expect(result.document.viewport).toEqual({ x: 0, y: 0, zoom: 1 });
+    expect(result.document.variables.map((v) => v.name)).toEqual(systemVariables.map((v) => v.name));
+  });
+
+  it('migrates a version 1 document without changing its content', () => {
+    const saved = createGraphDocument(nodes, edges, systemVariables, { x: 1, y: 2, zoom: 0.5 }, createDocumentMetadata('Demo'));
+    const result = readGraphDocument({ ...saved, schemaVersion: 1 });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.document).toEqual({ ...saved, schemaVersion: CURRENT_SCHEMA_VERSION });
+  });
+
+  it('rejects documents from a newer editor', () => {
+    const result = readGraphDocument({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, nodes: [], edges: [] });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors[0]).toMatch(/only supports up to version/);
+  });
+
+  it('rejects a schema version that is not a non-negative integer', () => {
+    expect(readGraphDocument({ schemaVersion: 1.5, nodes: [], edges: [] }).ok).toBe(false);
+    expect(readGraphDocument({ schemaVersion: -1, nodes: [], edges: [] }).ok).toBe(false);
+  });
+
+  it('reports duplicate node ids and dangling edges', () => {
+    const result = readGraphDocument({
+      nodes: [nodes[0], nodes[0]],
+      edges: [{ id: 'e', source: 'compile', target: 'missing', data: { dependencyType: 'dependsOn' } }],
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([
+      'nodes[1]: duplicate id "compile"',
+      'edges[0] (compile → missing): target does not refer to a node in this file',
+    ]);
+  });
+
+  it('rejects an inferred flag that is not a boolean', () => {
+    const result = readGraphDocument({
+      nodes,
+      edges: [{ ...edges[0], data: { dependencyType: 'dependsOn', inferred: 'yes' } }],
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual(['edges[0] (compile → package): inferred must be a boolean']);
+  });
+});
+
+describe('graph document round trip', () => {
+  const saved = createGraphDocument(nodes, edges, systemVariables, { x: 0, y: 0, zoom: 1 }, createDocumentMetadata('Demo'));
+
+  it('drops session-only node data when saving', () => {
+    expect(saved.nodes[0].data).toEqual({ taskName: 'compile', taskType: 'Exec' });
+  });
+
+  it('reads back what it saves, including inferred edges', () => {
+    const result = parseGraphDocument(serializeGraphDocument(saved));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.document).toEqual(saved);
+    expect(result.document.edges[0].data).toEqual({ dependencyType: 'dependsOn', inferred: true });
+  });
+
+  it('reports invalid JSON', () => {
+    const result = parseGraphDocument('{');
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors[0]).toMatch(/^Not valid JSON: /);
+  });
+});
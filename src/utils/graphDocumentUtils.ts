@@ -0,0 +1,523 @@
+import {
+  type GraphDocument,
+  type GraphDocumentMetadata,
+  type GraphViewport,
+  type GradleTaskNode,
+  type GradleTaskNodeData,
+  type GradleEdge,
+  type GradleEdgeData,
+  type GradleTaskType,
+  type PropertyFieldDef,
+  type Variable,
+  taskPropertySchemas,
+  systemVariables,
+  simulationOutcomeOptions,
+  retryBackoffOptions,
+  testCaseStatusOptions,
+} from '../types/gradle';
+import { relationTypes } from './buildScriptUtils';
+import type { TextFileType } from './fileUtils';
+
+/**
+ * Schema version written by this build of the editor
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/**
+ * File extension for saved graph documents
+ */
+export const GRAPH_FILE_EXTENSION = '.gradleflow.json';
+
+/**
+ * File picker filter for graph documents
+ */
+export const GRAPH_FILE_TYPE: TextFileType = {
+  description: 'Gradle Flow graph',
+  mimeType: 'application/json',
+  extensions: ['.json'],
+};
+
+type RawDocument = Record<string, unknown>;
+
+/**
+ * Result of reading a graph document: either the migrated document or readable errors
+ */
+export type GraphDocumentParseResult =
+  | { ok: true; document: GraphDocument }
+  | { ok: false; errors: string[] };
+
+/**
+ * Node data fields that only describe the current session and are never saved
+ */
+const runtimeDataFields = ['executionStatus', 'dryRun', 'breakpoint', 'errors'];
+
+const variableTypes = ['string', 'number', 'boolean', 'path', 'list'];
+
+const defaultViewport: GraphViewport = { x: 0, y: 0, zoom: 1 };
+
+/**
+ * Migrations keyed by the schema version they upgrade from.
+ * When the saved shape of GradleTaskNodeData or a TaskConfig changes, bump
+ * CURRENT_SCHEMA_VERSION and add a step that rewrites documents of the previous version.
+ */
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  // Version 0: unversioned { nodes, edges, viewport } dumps such as React Flow's toObject()
+  0: (doc) => {
+    const now = new Date().toISOString();
+    return {
+      ...doc,
+      schemaVersion: 1,
+      metadata: isRecord(doc.metadata) ? doc.metadata : { name: 'Untitled', createdAt: now, updatedAt: now },
+      variables: doc.variables ?? systemVariables.map((v) => ({ ...v })),
+      viewport: doc.viewport ?? defaultViewport,
+    };
+  },
+  // Version 1: nodes gained optional simulation, inputs/outputs, cacheable, retry and testReport
+  // fields, and edges guessed from a dry-run are saved with inferred: true. Documents without
+  // these fields stay valid as they are.
+  1: (doc) => ({ ...doc, schemaVersion: 2 }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return isRecord(value) && Object.values(value).every((v) => typeof v === 'string');
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isTestSuite(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    typeof value.name === 'string' &&
+    isFiniteNumber(value.duration) &&
+    Array.isArray(value.cases) &&
+    value.cases.every(
+      (c) =>
+        isRecord(c) &&
+        typeof c.name === 'string' &&
+        typeof c.className === 'string' &&
+        isFiniteNumber(c.duration) &&
+        testCaseStatusOptions.some((o) => o.value === c.status)
+    )
+  );
+}
+
+/**
+ * Edge data as saved: the relationship and whether it was inferred, without the critical-path flag
+ */
+function savedEdgeData(data: GradleEdgeData | undefined): GradleEdgeData {
+  const dependencyType = data?.dependencyType || 'dependsOn';
+  return data?.inferred === true ? { dependencyType, inferred: true } : { dependencyType };
+}
+
+/**
+ * Remove session-only fields from node data
+ */
+function stripRuntimeData(data: GradleTaskNodeData): GradleTaskNodeData {
+  const saved = { ...data };
+  runtimeDataFields.forEach((field) => delete saved[field]);
+  return saved;
+}
+
+/**
+ * Build a document from the current editor state
+ */
+export function createGraphDocument(
+  nodes: GradleTaskNode[],
+  edges: GradleEdge[],
+  variables: Variable[],
+  viewport: GraphViewport,
+  metadata: GraphDocumentMetadata
+): GraphDocument {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    metadata: { ...metadata, updatedAt: new Date().toISOString() },
+    nodes: nodes.map((node) => ({
+      id: node.id,
+      type: 'gradleTask',
+      position: { x: node.position.x, y: node.position.y },
+      data: stripRuntimeData(node.data),
+    })),
+    edges: edges.map((edge) => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      type: 'dependency',
+      data: savedEdgeData(edge.data),
+    })),
+    variables: variables.map((v) => ({ ...v })),
+    viewport: { ...viewport },
+  };
+}
+
+/**
+ * Serialize a document as pretty-printed JSON
+ */
+export function serializeGraphDocument(doc: GraphDocument): string {
+  return `${JSON.stringify(doc, null, 2)}\n`;
+}
+
+/**
+ * Create metadata for a new, unsaved document
+ */
+export function createDocumentMetadata(name = 'Untitled'): GraphDocumentMetadata {
+  const now = new Date().toISOString();
+  return { name, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Derive a file name from a document name
+ */
+export function documentFileName(name: string): string {
+  const base = name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'graph';
+  return `${base}${GRAPH_FILE_EXTENSION}`;
+}
+
+/**
+ * Derive a document name from a file name
+ */
+export function documentNameFromFile(fileName: string): string {
+  return fileName.replace(/\.gradleflow\.json$/i, '').replace(/\.json$/i, '') || 'Untitled';
+}
+
+/* ----------------------------------------------
+   Validation
+   ---------------------------------------------- */
+
+/**
+ * Check a config value against the property field it is edited with
+ */
+function configFieldError(field: PropertyFieldDef, value: unknown): string | null {
+  switch (field.type) {
+    case 'list':
+    case 'nodepicker':
+      return isStringArray(value) ? null : 'must be a list of strings';
+    case 'keyvalue':
+      return isStringRecord(value) ? null : 'must be an object with string values';
+    case 'checkbox':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'number':
+      return isFiniteNumber(value) ? null : 'must be a number';
+    case 'select':
+      if (typeof value !== 'string') return 'must be a string';
+      return !field.options || field.options.some((o) => o.value === value)
+        ? null
+        : `must be one of ${field.options.map((o) => o.value).join(', ')}`;
+    case 'text':
+    case 'file':
+    case 'directory':
+    default:
+      return typeof value === 'string' ? null : 'must be a string';
+  }
+}
+
+/**
+ * Validate a single node, reporting errors prefixed with the node's position and name
+ */
+function validateNode(node: unknown, index: number, errors: string[]): void {
+  if (!isRecord(node)) {
+    errors.push(`nodes[${index}]: must be an object`);
+    return;
+  }
+
+  const data = isRecord(node.data) ? node.data : null;
+  const label = typeof data?.taskName === 'string' ? ` "${data.taskName}"` : '';
+  const fail = (message: string) => errors.push(`nodes[${index}]${label}: ${message}`);
+
+  if (typeof node.id !== 'string' || !node.id) fail('id must be a non-empty string');
+  if (!isRecord(node.position) || !isFiniteNumber(node.position.x) || !isFiniteNumber(node.position.y)) {
+    fail('position must have numeric x and y');
+  }
+  if (!data) {
+    fail('data must be an object');
+    return;
+  }
+
+  if (typeof data.taskName !== 'string' || !data.taskName.trim()) fail('data.taskName must be a non-empty string');
+  if (!(typeof data.taskType === 'string' && data.taskType in taskPropertySchemas)) {
+    fail(`data.taskType "${String(data.taskType)}" is not a known task type`);
+    return;
+  }
+
+  ['group', 'description'].forEach((field) => {
+    if (data[field] !== undefined && typeof data[field] !== 'string') fail(`data.${field} must be a string`);
+  });
+  if (data.enabled !== undefined && typeof data.enabled !== 'boolean') fail('data.enabled must be true or false');
+  if (data.cacheable !== undefined && typeof data.cacheable !== 'boolean') fail('data.cacheable must be true or false');
+  if (data.timeout !== undefined && !isFiniteNumber(data.timeout)) fail('data.timeout must be a number');
+  if (data.dependsOn !== undefined && !isStringArray(data.dependsOn)) fail('data.dependsOn must be a list of node ids');
+  ['inputs', 'outputs'].forEach((field) => {
+    if (data[field] !== undefined && !isStringArray(data[field])) fail(`data.${field} must be a list of paths`);
+  });
+  if (data.preservedStatements !== undefined && !isStringArray(data.preservedStatements)) {
+    fail('data.preservedStatements must be a list of strings');
+  }
+
+  if (data.simulation !== undefined) {
+    const simulation = data.simulation;
+    if (!isRecord(simulation)) {
+      fail('data.simulation must be an object');
+    } else {
+      if (simulation.expectedDuration !== undefined && !isFiniteNumber(simulation.expectedDuration)) {
+        fail('data.simulation.expectedDuration must be a number');
+      }
+      if (
+        simulation.failureProbability !== undefined &&
+        !(isFiniteNumber(simulation.failureProbability) && simulation.failureProbability >= 0 && simulation.failureProbability <= 1)
+      ) {
+        fail('data.simulation.failureProbability must be a number between 0 and 1');
+      }
+      if (simulation.outcome !== undefined && !simulationOutcomeOptions.some((o) => o.value === simulation.outcome)) {
+        fail(`data.simulation.outcome must be one of ${simulationOutcomeOptions.map((o) => o.value).join(', ')}`);
+      }
+    }
+  }
+
+  if (data.retry !== undefined) {
+    const retry = data.retry;
+    if (
+      !isRecord(retry) ||
+      !(isFiniteNumber(retry.maxAttempts) && retry.maxAttempts >= 1) ||
+      !retryBackoffOptions.some((o) => o.value === retry.backoff) ||
+      !(isFiniteNumber(retry.delayMs) && retry.delayMs >= 0) ||
+      (retry.retryOn !== undefined && !isStringArray(retry.retryOn))
+    ) {
+      fail('data.retry must have maxAttempts (at least 1), backoff (fixed/exponential), delayMs and an optional retryOn list');
+    }
+  }
+
+  if (data.testReport !== undefined) {
+    const report = data.testReport;
+    if (
+      !isRecord(report) ||
+      !isStringArray(report.fileNames) ||
+      !isFiniteNumber(report.importedAt) ||
+      !Array.isArray(report.suites) ||
+      !report.suites.every(isTestSuite)
+    ) {
+      fail('data.testReport must have fileNames, importedAt and a list of suites with their test cases');
+    }
+  }
+
+  if (data.condition !== undefined) {
+    const condition = data.condition;
+    if (
+      !isRecord(condition) ||
+      !['onlyIf', 'skipIf'].includes(condition.type as string) ||
+      !['and', 'or'].includes(condition.logic as string) ||
+      !Array.isArray(condition.conditions)
+    ) {
+      fail('data.condition must have type (onlyIf/skipIf), logic (and/or) and a conditions list');
+    } else {
+      condition.conditions.forEach((c, i) => {
+        if (!isRecord(c) || typeof c.operator !== 'string' || typeof c.leftValue !== 'string') {
+          fail(`data.condition.conditions[${i}] must have an operator and a leftValue`);
+        }
+      });
+    }
+  }
+
+  if (data.config !== undefined) {
+    if (!isRecord(data.config)) {
+      fail('data.config must be an object');
+      return;
+    }
+    const config = data.config;
+    taskPropertySchemas[data.taskType as GradleTaskType].forEach((field) => {
+      const value = config[field.name];
+      if (value === undefined || value === null || value === '') return;
+      const error = configFieldError(field, value);
+      if (error) fail(`config.${field.name} ${error}`);
+    });
+  }
+}
+
+/**
+ * Validate a migrated document and return readable errors (empty when valid)
+ */
+export function validateGraphDocument(doc: RawDocument): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(doc.metadata) || typeof doc.metadata.name !== 'string') {
+    errors.push('metadata.name must be a string');
+  }
+  if (!isRecord(doc.viewport) || !isFiniteNumber(doc.viewport.x) || !isFiniteNumber(doc.viewport.y) || !isFiniteNumber(doc.viewport.zoom)) {
+    errors.push('viewport must have numeric x, y and zoom');
+  }
+
+  const nodeIds = new Set<string>();
+  if (!Array.isArray(doc.nodes)) {
+    errors.push('nodes must be a list');
+  } else {
+    doc.nodes.forEach((node, index) => {
+      validateNode(node, index, errors);
+      if (isRecord(node) && typeof node.id === 'string') {
+        if (nodeIds.has(node.id)) errors.push(`nodes[${index}]: duplicate id "${node.id}"`);
+        nodeIds.add(node.id);
+      }
+    });
+  }
+
+  if (!Array.isArray(doc.edges)) {
+    errors.push('edges must be a list');
+  } else {
+    doc.edges.forEach((edge, index) => {
+      if (!isRecord(edge)) {
+        errors.push(`edges[${index}]: must be an object`);
+        return;
+      }
+      const label = `edges[${index}] (${String(edge.source)} → ${String(edge.target)})`;
+      ['source', 'target'].forEach((end) => {
+        if (typeof edge[end] !== 'string' || !nodeIds.has(edge[end] as string)) {
+          errors.push(`${label}: ${end} does not refer to a node in this file`);
+        }
+      });
+      const type = isRecord(edge.data) ? edge.data.dependencyType : undefined;
+      if (type !== undefined && !relationTypes.some((t) => t === type)) {
+        errors.push(`${label}: unknown dependency type "${String(type)}"`);
+      }
+      if (isRecord(edge.data) && edge.data.inferred !== undefined && typeof edge.data.inferred !== 'boolean') {
+        errors.push(`${label}: inferred must be a boolean`);
+      }
+    });
+  }
+
+  if (!Array.isArray(doc.variables)) {
+    errors.push('variables must be a list');
+  } else {
+    doc.variables.forEach((variable, index) => {
+      const label = isRecord(variable) && typeof variable.name === 'string'
+        ? `variables[${index}] "${variable.name}"`
+        : `variables[${index}]`;
+      if (!isRecord(variable) || typeof variable.name !== 'string' || !variable.name) {
+        errors.push(`${label}: name must be a non-empty string`);
+        return;
+      }
+      if (!variableTypes.includes(variable.type as string)) {
+        errors.push(`${label}: type must be one of ${variableTypes.join(', ')}`);
+      }
+      if (typeof variable.value !== 'string' || typeof variable.defaultValue !== 'string') {
+        errors.push(`${label}: value and defaultValue must be strings`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/* ----------------------------------------------
+   Loading
+   ---------------------------------------------- */
+
+/**
+ * Upgrade a raw document to the current schema version
+ */
+function migrateGraphDocument(doc: RawDocument): RawDocument {
+  let current = doc;
+  let version = isFiniteNumber(doc.schemaVersion) ? doc.schemaVersion : 0;
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration from schema version ${version}`);
+    current = migrate(current);
+    version = current.schemaVersion as number;
+  }
+
+  return current;
+}
+
+/**
+ * Convert a validated document into editor state: drop runtime fields and
+ * merge saved system variable values into the built-in definitions
+ */
+function normalizeGraphDocument(doc: RawDocument): GraphDocument {
+  const saved = doc as unknown as GraphDocument;
+  const savedVariables = new Map(saved.variables.map((v) => [v.name, v]));
+
+  const variables: Variable[] = [
+    ...systemVariables.map((v) => {
+      const match = savedVariables.get(v.name);
+      return match ? { ...v, value: match.value, defaultValue: match.defaultValue } : { ...v };
+    }),
+    ...saved.variables
+      .filter((v) => !systemVariables.some((s) => s.name === v.name))
+      .map((v) => ({ ...v, isSystem: false })),
+  ];
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    metadata: { ...createDocumentMetadata(), ...saved.metadata },
+    nodes: saved.nodes.map((node) => ({
+      id: node.id,
+      type: 'gradleTask',
+      position: { x: node.position.x, y: node.position.y },
+      data: stripRuntimeData(node.data),
+    })),
+    edges: saved.edges.map((edge) => ({
+      id: edge.id || `${edge.source}-${edge.target}`,
+      source: edge.source,
+      target: edge.target,
+      type: 'dependency',
+      data: savedEdgeData(edge.data),
+    })),
+    variables,
+    viewport: saved.viewport,
+  };
+}
+
+/**
+ * Parse, migrate and validate the contents of a .gradleflow.json file
+ */
+export function parseGraphDocument(text: string): GraphDocumentParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  return readGraphDocument(raw);
+}
+
+/**
+ * Migrate and validate an already-parsed document (from a file or browser storage)
+ */
+export function readGraphDocument(raw: unknown): GraphDocumentParseResult {
+  if (!isRecord(raw)) {
+    return { ok: false, errors: ['The file must contain a JSON object'] };
+  }
+
+  const version = raw.schemaVersion;
+  if (version !== undefined && (!Number.isInteger(version) || (version as number) < 0)) {
+    return { ok: false, errors: [`schemaVersion must be a non-negative integer, got ${JSON.stringify(version)}`] };
+  }
+  if ((version as number) > CURRENT_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `The file uses schema version ${String(version)}, but this editor only supports up to version ${CURRENT_SCHEMA_VERSION}. Update Gradle Flow to open it.`,
+      ],
+    };
+  }
+
+  let migrated: RawDocument;
+  try {
+    migrated = migrateGraphDocument(raw);
+  } catch (error) {
+    return { ok: false, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const errors = validateGraphDocument(migrated);
+  if (errors.length > 0) return { ok: false, errors };
+
+  return { ok: true, document: normalizeGraphDocument(migrated) };
+}
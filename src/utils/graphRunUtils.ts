@@ -0,0 +1,646 @@
+import type {
+  ExecutionState,
+  GradleEdge,
+  GradleTaskNode,
+  TaskAttempt,
+  TaskExecutionResult,
+  TaskExecutionStatus,
+  Variable,
+} from '../types/gradle';
+import {
+  createInitialExecutionState,
+  createLogEntry,
+  createTaskRandom,
+  formatDuration,
+  getReadyTasks,
+  getSkipReasons,
+  getStepOverScope,
+  pausableSleep,
+  shouldBreakBefore,
+  startPausableTimer,
+  type DebugState,
+  type DebugStepMode,
+  type ExecutionControl,
+  type ExecutionPlan,
+  type ScheduleState,
+} from './executionUtils';
+import { shouldExecuteTask } from './conditionUtils';
+import { getRetryDelay, isFlaky, shouldRetry } from './retryUtils';
+import { checkUpToDate, getTaskFileSets, recordTaskExecution, type IncrementalState } from './upToDateUtils';
+import {
+  computeCacheKey,
+  isTaskCacheable,
+  recordCacheHit,
+  recordCacheMiss,
+  startBuildCacheRun,
+  type BuildCache,
+  type BuildCacheEntry,
+} from './buildCacheUtils';
+import {
+  createBackendRegistry,
+  getTaskExecutor,
+  simulatorExecutor,
+  type ExecutionBackend,
+  type TaskExecutorRegistry,
+} from './taskExecutorUtils';
+
+/**
+ * Run settings chosen in the execution panel
+ */
+export interface GraphRunSettings {
+  maxWorkers: number;
+  continueOnFailure: boolean;
+  /** Seed of the simulation, null for random runs */
+  seed: number | null;
+  backend: ExecutionBackend;
+  /** Run timeout in minutes */
+  runTimeout?: number;
+  /** Speed-up of the clock used for task and run timeouts */
+  clockScale: number;
+}
+
+/**
+ * What a run works on and where it reports to
+ */
+export interface GraphRunOptions {
+  nodes: GradleTaskNode[];
+  edges: GradleEdge[];
+  plan: ExecutionPlan;
+  settings: GraphRunSettings;
+  /** Current variables; they may be edited while the debugger holds the run */
+  getVariables: () => Variable[];
+  /** Whether a task has a breakpoint now; they may be toggled while the debugger holds the run */
+  hasBreakpoint: (taskId: string) => boolean;
+  incrementalState: IncrementalState;
+  getBuildCache: () => BuildCache;
+  setBuildCache: (cache: BuildCache) => void;
+  onTaskStatusChange: (taskId: string, status: TaskExecutionStatus) => void;
+}
+
+/**
+ * A run in progress. Stop, pause and the debugger act on it through the functions below;
+ * every change to its state is reported through `onStateChange`.
+ */
+export interface GraphRun {
+  state: ExecutionState;
+  abortController: AbortController;
+  paused: boolean;
+  debug: DebugState;
+  /** Set once a newer run or a different graph takes over; the run then stops reporting */
+  discarded: boolean;
+  onStateChange: (state: ExecutionState) => void;
+}
+
+/**
+ * Everything the tasks of one run share
+ */
+interface RunContext {
+  run: GraphRun;
+  options: GraphRunOptions;
+  control: ExecutionControl;
+  registry: TaskExecutorRegistry;
+  schedule: ScheduleState;
+  /** Abort controllers of the task attempts in flight */
+  activeTasks: Set<AbortController>;
+  flakyTaskIds: Set<string>;
+}
+
+export function createGraphRun(onStateChange: (state: ExecutionState) => void): GraphRun {
+  return {
+    state: createInitialExecutionState(),
+    abortController: new AbortController(),
+    paused: false,
+    debug: { mode: 'continue', stepOverScope: new Set() },
+    discarded: false,
+    onStateChange,
+  };
+}
+
+function updateRunState(run: GraphRun, update: (state: ExecutionState) => ExecutionState): void {
+  if (run.discarded) return;
+  run.state = update(run.state);
+  run.onStateChange(run.state);
+}
+
+function addRunLog(run: GraphRun, ...entries: ExecutionState['logs']): void {
+  updateRunState(run, (state) => ({ ...state, logs: [...state.logs, ...entries] }));
+}
+
+function setTaskStatus(context: RunContext, taskId: string, status: TaskExecutionStatus): void {
+  if (!context.run.discarded) context.options.onTaskStatusChange(taskId, status);
+}
+
+function updateBuildCache(options: GraphRunOptions, update: (cache: BuildCache) => BuildCache): void {
+  options.setBuildCache(update(options.getBuildCache()));
+}
+
+/**
+ * Stop the run, cancelling every task in flight
+ */
+export function stopGraphRun(run: GraphRun): void {
+  run.abortController.abort();
+  run.paused = false;
+  updateRunState(run, (state) => ({
+    ...state,
+    isRunning: false,
+    isPaused: false,
+    pausedBeforeTaskId: undefined,
+    logs: [...state.logs, createLogEntry('warn', 'Execution stopped by user')],
+  }));
+}
+
+/**
+ * Pause the run: no new tasks start and running tasks are suspended
+ */
+export function pauseGraphRun(run: GraphRun): void {
+  run.paused = true;
+  updateRunState(run, (state) => ({
+    ...state,
+    isPaused: true,
+    logs: [...state.logs, createLogEntry('info', 'Execution paused')],
+  }));
+}
+
+export function resumeGraphRun(run: GraphRun): void {
+  run.paused = false;
+  updateRunState(run, (state) => ({
+    ...state,
+    isPaused: false,
+    logs: [...state.logs, createLogEntry('info', 'Execution resumed')],
+  }));
+}
+
+/**
+ * Continue a run held by the debugger: to the next breakpoint, by one task, or over the
+ * paused task and the tasks that depend on it
+ */
+export function continueGraphRun(run: GraphRun, mode: DebugStepMode): void {
+  const taskId = run.state.pausedBeforeTaskId;
+  if (!taskId) return;
+  run.debug = { mode, resumedTaskId: taskId, stepOverScope: new Set() };
+  run.paused = false;
+  const labels: Record<DebugStepMode, string> = { continue: 'Continue', step: 'Step', stepOver: 'Step over' };
+  updateRunState(run, (state) => ({
+    ...state,
+    isPaused: false,
+    pausedBeforeTaskId: undefined,
+    logs: [...state.logs, createLogEntry('info', `${labels[mode]} from ${state.taskResults.get(taskId)?.taskName ?? taskId}`)],
+  }));
+}
+
+/**
+ * Abandon the run without reporting anything more, e.g. because a different graph was opened
+ */
+export function discardGraphRun(run: GraphRun): void {
+  run.discarded = true;
+  run.abortController.abort();
+}
+
+/**
+ * Run a single task and record its result
+ */
+async function runTask(context: RunContext, node: GradleTaskNode): Promise<TaskExecutionStatus> {
+  const { run, options, control, schedule } = context;
+  const { clockScale, seed } = options.settings;
+  const taskId = node.id;
+  // Variables may have been edited while the debugger held the run
+  const taskVariables = options.getVariables();
+
+  // Check if task should be executed based on conditions
+  const conditionResult = shouldExecuteTask(node.data.condition, taskVariables);
+  if (!conditionResult.execute) {
+    setTaskStatus(context, taskId, 'skipped');
+    updateRunState(run, (prev) => ({
+      ...prev,
+      taskResults: new Map(prev.taskResults).set(taskId, {
+        taskId,
+        taskName: node.data.taskName,
+        status: 'skipped',
+        skipReason: conditionResult.reason,
+      }),
+      logs: [
+        ...prev.logs,
+        createLogEntry(
+          'warn',
+          `Skipping task: ${node.data.taskName} - ${conditionResult.reason}`,
+          taskId,
+          node.data.taskName
+        ),
+      ],
+    }));
+    return 'skipped';
+  }
+
+  // Skip tasks whose configuration, inputs and outputs are unchanged since they last succeeded
+  const upToDateCheck = checkUpToDate(node, taskVariables, options.incrementalState);
+  if (upToDateCheck.upToDate) {
+    setTaskStatus(context, taskId, 'upToDate');
+    updateRunState(run, (prev) => ({
+      ...prev,
+      taskResults: new Map(prev.taskResults).set(taskId, {
+        taskId,
+        taskName: node.data.taskName,
+        status: 'upToDate',
+      }),
+      logs: [
+        ...prev.logs,
+        createLogEntry('success', `Task ${node.data.taskName} UP-TO-DATE`, taskId, node.data.taskName),
+      ],
+    }));
+    return 'upToDate';
+  }
+
+  // Restore outputs from the build cache when a previous execution had the same cache key
+  const cacheKey = isTaskCacheable(node, taskVariables)
+    ? computeCacheKey(node, taskVariables, options.incrementalState)
+    : null;
+  const cacheEntry = cacheKey ? options.getBuildCache().entries.get(cacheKey) : undefined;
+  if (cacheKey && cacheEntry) {
+    recordTaskExecution(node, taskVariables, options.incrementalState, true);
+    updateBuildCache(options, (cache) => recordCacheHit(cache, cacheKey, Date.now()));
+    setTaskStatus(context, taskId, 'fromCache');
+    updateRunState(run, (prev) => ({
+      ...prev,
+      taskResults: new Map(prev.taskResults).set(taskId, {
+        taskId,
+        taskName: node.data.taskName,
+        status: 'fromCache',
+        output: `Restored ${cacheEntry.outputs.join(', ')} from cache entry ${cacheKey}`,
+        outOfDateReasons: upToDateCheck.reasons,
+      }),
+      logs: [
+        ...prev.logs,
+        createLogEntry('success', `Task ${node.data.taskName} FROM-CACHE (key ${cacheKey})`, taskId, node.data.taskName),
+      ],
+    }));
+    return 'fromCache';
+  }
+
+  // Update status to running
+  const executor = getTaskExecutor(context.registry, node.data.taskType);
+  const startTime = Date.now();
+  setTaskStatus(context, taskId, 'running');
+  updateRunState(run, (prev) => ({
+    ...prev,
+    runningTaskIds: new Set(prev.runningTaskIds).add(taskId),
+    taskResults: new Map(prev.taskResults).set(taskId, {
+      taskId,
+      taskName: node.data.taskName,
+      status: 'running',
+      startTime,
+    }),
+    logs: [
+      ...prev.logs,
+      createLogEntry(
+        'info',
+        executor === simulatorExecutor
+          ? `Running task: ${node.data.taskName}`
+          : `Running task: ${node.data.taskName} (${executor.label})`,
+        taskId,
+        node.data.taskName
+      ),
+      createLogEntry(
+        'info',
+        `Task ${node.data.taskName} is not up-to-date because: ${upToDateCheck.reasons.join('; ')}`,
+        taskId,
+        node.data.taskName
+      ),
+    ],
+  }));
+
+  // Failed attempts are retried according to the task's retry policy
+  const retryPolicy = node.data.retry;
+  const attempts: TaskAttempt[] = [];
+  let result: TaskExecutionResult;
+  for (let attempt = 1; ; attempt++) {
+    // Each attempt gets its own signal so a timeout can abort it without stopping the run
+    const taskController = new AbortController();
+    const abortTask = () => taskController.abort();
+    run.abortController.signal.addEventListener('abort', abortTask);
+    context.activeTasks.add(taskController);
+    const timeout = { error: '' };
+    const taskTimeout = node.data.timeout;
+    const cancelTaskTimeout = taskTimeout
+      ? startPausableTimer((taskTimeout * 60000) / clockScale, control, () => {
+        timeout.error = `Task :${node.data.taskName} timed out after ${formatDuration(taskTimeout * 60000)}`;
+        taskController.abort();
+      })
+      : undefined;
+
+    const executed = await executor.execute(node, {
+      signal: taskController.signal,
+      isPaused: () => run.paused,
+      onOutput: (output, stream) => {
+        addRunLog(run, createLogEntry(stream === 'stderr' ? 'warn' : 'info', output, taskId, node.data.taskName));
+      },
+      variables: taskVariables,
+      random: seed === null ? undefined : createTaskRandom(seed, attempt === 1 ? taskId : `${taskId}#${attempt}`),
+    });
+    cancelTaskTimeout?.();
+    run.abortController.signal.removeEventListener('abort', abortTask);
+    context.activeTasks.delete(taskController);
+
+    // A task interrupted by a timeout fails; one interrupted by Stop did not fail on its own
+    const timeoutError = timeout.error || (executed.status === 'skipped' && schedule.stopReason
+      ? `Task :${node.data.taskName} was aborted: ${schedule.stopReason}`
+      : '');
+    result = timeoutError
+      ? { ...executed, status: 'failed', error: timeoutError, skipReason: undefined }
+      : executed;
+
+    if (retryPolicy && retryPolicy.maxAttempts > 1) {
+      attempts.push({
+        attempt,
+        status: result.status,
+        startTime: result.startTime,
+        endTime: result.endTime,
+        duration: result.duration,
+        error: result.error,
+      });
+      result = { ...result, startTime, duration: (result.endTime ?? Date.now()) - startTime, attempts: [...attempts] };
+    }
+
+    const retry = result.status === 'failed' &&
+      !schedule.stopReason &&
+      !run.abortController.signal.aborted &&
+      shouldRetry(retryPolicy, attempt, result.error);
+    if (!retry || !retryPolicy) break;
+
+    const delay = getRetryDelay(retryPolicy, attempt + 1);
+    addRunLog(
+      run,
+      createLogEntry(
+        'warn',
+        `Task ${node.data.taskName} failed on attempt ${attempt}/${retryPolicy.maxAttempts}: ${result.error} - retrying in ${formatDuration(delay)}`,
+        taskId,
+        node.data.taskName
+      )
+    );
+    await pausableSleep(delay / clockScale, control);
+    if (run.abortController.signal.aborted) break;
+  }
+  if (isFlaky(attempts)) context.flakyTaskIds.add(taskId);
+  const { status } = result;
+  const cancelled = status === 'skipped';
+  if (!cancelled) {
+    recordTaskExecution(node, taskVariables, options.incrementalState, status === 'success');
+  }
+  if (cacheKey && !cancelled) {
+    const entry: BuildCacheEntry | null = status === 'success'
+      ? {
+        key: cacheKey,
+        taskId,
+        taskName: node.data.taskName,
+        taskType: node.data.taskType,
+        outputs: getTaskFileSets(node, taskVariables).outputs,
+        duration: result.duration ?? 0,
+        createdAt: Date.now(),
+        hits: 0,
+      }
+      : null;
+    updateBuildCache(options, (cache) => recordCacheMiss(cache, entry));
+  }
+
+  // Update node and execution state
+  setTaskStatus(context, taskId, status);
+  updateRunState(run, (prev) => {
+    const runningTaskIds = new Set(prev.runningTaskIds);
+    runningTaskIds.delete(taskId);
+    return {
+      ...prev,
+      runningTaskIds,
+      taskResults: new Map(prev.taskResults).set(taskId, {
+        ...result,
+        outOfDateReasons: upToDateCheck.reasons,
+      }),
+      logs: [
+        ...prev.logs,
+        createLogEntry(
+          status === 'success' ? 'success' : cancelled ? 'warn' : 'error',
+          status === 'success'
+            ? `Task ${node.data.taskName} completed${attempts.length > 1 ? ` on attempt ${attempts.length}` : ''}`
+            : cancelled
+              ? `Task ${node.data.taskName} was cancelled`
+              : `Task ${node.data.taskName} failed: ${result.error}`,
+          taskId,
+          node.data.taskName
+        ),
+      ],
+    };
+  });
+
+  return status;
+}
+
+/**
+ * Run the planned tasks with up to maxWorkers tasks in flight. A task starts as soon as
+ * everything it depends on or is ordered after has finished; finalizers still run after
+ * the tasks they finalize fail. Resolves to the final state, or null if the run was discarded.
+ */
+export async function executeGraphRun(run: GraphRun, options: GraphRunOptions): Promise<ExecutionState | null> {
+  const { plan, edges, settings } = options;
+  const order = plan.order;
+  const nodesById = new Map(options.nodes.map((n) => [n.id, n]));
+  const taskName = (id: string) => nodesById.get(id)?.data.taskName ?? id;
+  const workerCount = Math.max(1, settings.maxWorkers);
+  const control: ExecutionControl = {
+    signal: run.abortController.signal,
+    isPaused: () => run.paused,
+  };
+  const schedule: ScheduleState = {
+    started: new Set(),
+    finished: new Map(),
+    failed: false,
+    continueOnFailure: settings.continueOnFailure,
+  };
+  const context: RunContext = {
+    run,
+    options,
+    control,
+    registry: createBackendRegistry(settings.backend),
+    schedule,
+    activeTasks: new Set(),
+    flakyTaskIds: new Set(),
+  };
+
+  if (order.some((id) => isTaskCacheable(nodesById.get(id)!, options.getVariables()))) {
+    updateBuildCache(options, (cache) => startBuildCacheRun(cache, Date.now()));
+  }
+
+  // Initialize execution state
+  const initialResults = new Map<string, TaskExecutionResult>();
+  order.forEach((taskId) => {
+    const node = nodesById.get(taskId);
+    if (node) {
+      initialResults.set(taskId, {
+        taskId,
+        taskName: node.data.taskName,
+        status: 'pending',
+      });
+      setTaskStatus(context, taskId, 'pending');
+    }
+  });
+
+  updateRunState(run, () => ({
+    isRunning: true,
+    isPaused: false,
+    startTime: Date.now(),
+    executionOrder: order,
+    runningTaskIds: new Set(),
+    taskResults: initialResults,
+    logs: [
+      createLogEntry(
+        'info',
+        `Starting execution of ${order.length} tasks with up to ${workerCount} worker(s)${
+          settings.continueOnFailure ? ', continuing after failures' : ''
+        }...`
+      ),
+      ...(settings.seed === null ? [] : [createLogEntry('info', `Simulation seed: ${settings.seed}`)]),
+      ...plan.constraints.map((constraint) => createLogEntry('info', constraint.reason)),
+    ],
+  }));
+
+  const inFlight = new Map<string, Promise<string>>();
+
+  // The run timeout aborts every task in flight and starts nothing else
+  const { runTimeout } = settings;
+  const cancelRunTimeout = runTimeout
+    ? startPausableTimer((runTimeout * 60000) / settings.clockScale, control, () => {
+      schedule.stopReason = `run timed out after ${formatDuration(runTimeout * 60000)}`;
+      schedule.failed = true;
+      context.activeTasks.forEach((taskController) => taskController.abort());
+      addRunLog(run, createLogEntry('error', `Run timed out after ${formatDuration(runTimeout * 60000)}`));
+    })
+    : undefined;
+
+  while (!run.abortController.signal.aborted) {
+    // Start every ready task while workers are free; after a failure only finalizers start
+    // A task the debugger breaks before waits until nothing else is running
+    let breakBeforeId: string | undefined;
+    if (!run.paused) {
+      const debug = run.debug;
+      const ready = getReadyTasks(plan, schedule);
+      // The task the debugger resumed at starts first
+      if (debug.resumedTaskId && ready.includes(debug.resumedTaskId)) {
+        ready.sort((a, b) => Number(b === debug.resumedTaskId) - Number(a === debug.resumedTaskId));
+      }
+      for (const taskId of ready) {
+        if (inFlight.size >= workerCount) break;
+        const node = nodesById.get(taskId)!;
+        if (shouldBreakBefore(taskId, options.hasBreakpoint(taskId), debug)) {
+          breakBeforeId = taskId;
+          break;
+        }
+        if (taskId === debug.resumedTaskId) {
+          debug.resumedTaskId = undefined;
+          if (debug.mode === 'stepOver') debug.stepOverScope = getStepOverScope(plan, edges, taskId);
+        }
+
+        const finalized = [...schedule.started].filter((id) => plan.finalizers.get(id)?.includes(taskId));
+        if (finalized.length > 0) {
+          const finalizedNames = finalized.map(taskName).join(', ');
+          addRunLog(
+            run,
+            createLogEntry(
+              'info',
+              schedule.failed
+                ? `Running finalizer ${node.data.taskName} for ${finalizedNames} despite the failure`
+                : `Running finalizer ${node.data.taskName} for ${finalizedNames}`,
+              taskId,
+              node.data.taskName
+            )
+          );
+        }
+
+        schedule.started.add(taskId);
+        inFlight.set(
+          taskId,
+          runTask(context, node).then((status) => {
+            schedule.finished.set(taskId, status);
+            if (status === 'failed') schedule.failed = true;
+            return taskId;
+          })
+        );
+      }
+    }
+
+    if (breakBeforeId && inFlight.size === 0) {
+      const node = nodesById.get(breakBeforeId)!;
+      const reasons: Record<DebugStepMode, string> = { continue: 'breakpoint', step: 'step', stepOver: 'step over' };
+      const reason = reasons[run.debug.mode];
+      run.paused = true;
+      updateRunState(run, (prev) => ({
+        ...prev,
+        isPaused: true,
+        pausedBeforeTaskId: node.id,
+        logs: [
+          ...prev.logs,
+          createLogEntry('info', `Paused before ${node.data.taskName} (${reason})`, node.id, node.data.taskName),
+        ],
+      }));
+    }
+
+    if (inFlight.size === 0) {
+      if (getReadyTasks(plan, schedule).length === 0) break;
+      // Paused with nothing in flight: wait for resume or stop
+      await new Promise((r) => setTimeout(r, 100));
+      continue;
+    }
+
+    const done = await Promise.race([
+      ...inFlight.values(),
+      // Wake up on resume so new tasks can start while others are still running
+      new Promise<null>((r) => setTimeout(() => r(null), run.paused ? 100 : 250)),
+    ]);
+    if (done) inFlight.delete(done);
+  }
+
+  // Let cancelled tasks record their results before tidying up
+  await Promise.all(inFlight.values());
+  cancelRunTimeout?.();
+  if (run.discarded) return null;
+
+  // Tasks that never started are skipped after a failure or stop
+  getSkipReasons(plan, schedule, edges, taskName).forEach((skipReason, skipId) => {
+    setTaskStatus(context, skipId, 'skipped');
+    updateRunState(run, (prev) => ({
+      ...prev,
+      taskResults: new Map(prev.taskResults).set(skipId, {
+        taskId: skipId,
+        taskName: taskName(skipId),
+        status: 'skipped',
+        skipReason,
+      }),
+      logs: [
+        ...prev.logs,
+        createLogEntry('warn', `Skipped task: ${taskName(skipId)} - ${skipReason}`, skipId, taskName(skipId)),
+      ],
+    }));
+  });
+
+  // Mark execution as complete, reporting every failure together
+  const failedNames = order.filter((id) => schedule.finished.get(id) === 'failed').map(taskName);
+  const flakyNames = order.filter((id) => context.flakyTaskIds.has(id)).map(taskName);
+  const endTime = Date.now();
+  updateRunState(run, (prev) => ({
+    ...prev,
+    isRunning: false,
+    isPaused: false,
+    endTime,
+    runningTaskIds: new Set(),
+    logs: [
+      ...prev.logs,
+      failedNames.length > 0
+        ? createLogEntry(
+          'error',
+          `Execution finished with ${failedNames.length} failed task(s): ${failedNames.join(', ')}`
+        )
+        : createLogEntry('info', 'Execution finished'),
+      ...(flakyNames.length > 0
+        ? [createLogEntry('warn', `Flaky task(s) that passed after a retry: ${flakyNames.join(', ')}`)]
+        : []),
+    ],
+  }));
+  run.paused = false;
+  return run.state;
+}
@@ -263,3 +263,43 @@ export function topologicalSort(
 
   return result;
 }
+
+/**
+ * Compute a layered top-to-bottom layout for imported graphs.
+ * Each node is placed one layer below its deepest dependsOn predecessor.
+ */
+export function computeLayeredLayout(
+  nodeIds: string[],
+  edges: GradleEdge[],
+  spacing: { x: number; y: number } = { x: 220, y: 120 }
+): Map<string, { x: number; y: number }> {
+  const layers = new Map<string, number>(nodeIds.map((id) => [id, 0]));
+  const dependsOnEdges = edges.filter(
+    (e) => e.data?.dependencyType === 'dependsOn' && layers.has(e.source) && layers.has(e.target)
+  );
+
+  // Relax layers until stable (bounded by node count so cycles terminate)
+  for (let pass = 0; pass < nodeIds.length; pass++) {
+    let changed = false;
+    for (const edge of dependsOnEdges) {
+      const next = layers.get(edge.source)! + 1;
+      if (next > layers.get(edge.target)! && next < nodeIds.length) {
+        layers.set(edge.target, next);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const positions = new Map<string, { x: number; y: number }>();
+  const layerCounts = new Map<number, number>();
+
+  nodeIds.forEach((id) => {
+    const layer = layers.get(id)!;
+    const column = layerCounts.get(layer) || 0;
+    layerCounts.set(layer, column + 1);
+    positions.set(id, { x: column * spacing.x, y: layer * spacing.y });
+  });
+
+  return positions;
+}
@@ -0,0 +1,150 @@
+import type { GradleTaskGraph, Variable } from '../types/gradle';
+import { generateBuildScript, splitTemplate, type ScriptDialect } from './buildScriptUtils';
+
+/**
+ * Options for Groovy build script generation
+ */
+export interface GroovyDslOptions {
+  /** Use lazy task registration (tasks.register) instead of eager task creation */
+  lazy: boolean;
+}
+
+/**
+ * Groovy reserved words that cannot be used as local variable names
+ */
+const groovyKeywords = new Set([
+  'as', 'assert', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def',
+  'default', 'do', 'else', 'enum', 'extends', 'false', 'finally', 'for', 'goto',
+  'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'new', 'null',
+  'package', 'return', 'super', 'switch', 'this', 'throw', 'throws', 'trait',
+  'true', 'try', 'var', 'while',
+]);
+
+/**
+ * Rename an identifier if it collides with a Groovy keyword
+ */
+function groovyIdentifier(name: string): string {
+  return groovyKeywords.has(name) ? `${name}Value` : name;
+}
+
+/**
+ * Check whether a task name can be used bare in the `task name(type: X)` syntax
+ */
+function isGroovyIdentifier(name: string): boolean {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) && !groovyKeywords.has(name);
+}
+
+/**
+ * Escape literal text for a single-quoted Groovy string
+ */
+function escapeSingleQuoted(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Escape literal text for a double-quoted Groovy GString
+ */
+function escapeDoubleQuoted(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, '\\$')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Convert a value into a Groovy string literal.
+ * Plain values use single quotes; values with ${var} references become GStrings.
+ */
+function groovyString(text: string, userVariables: Set<string>): string {
+  const segments = splitTemplate(text, userVariables);
+
+  if (segments.every((segment) => segment.kind === 'text')) {
+    return `'${escapeSingleQuoted(text)}'`;
+  }
+
+  const body = segments
+    .map((segment) => {
+      switch (segment.kind) {
+        case 'userVariable':
+          return `\${${groovyIdentifier(segment.name)}}`;
+        case 'systemVariable':
+          return `\${${segment.expression}}`;
+        case 'text':
+        default:
+          return escapeDoubleQuoted(segment.text);
+      }
+    })
+    .join('');
+
+  return `"${body}"`;
+}
+
+/**
+ * Get the opening line of a task declaration
+ */
+function taskDeclaration(
+  taskName: string,
+  taskClass: string | null,
+  quotedName: string,
+  options: GroovyDslOptions
+): string {
+  if (options.lazy) {
+    return taskClass
+      ? `tasks.register(${quotedName}, ${taskClass}) {`
+      : `tasks.register(${quotedName}) {`;
+  }
+
+  if (isGroovyIdentifier(taskName)) {
+    return taskClass ? `task ${taskName}(type: ${taskClass}) {` : `task ${taskName} {`;
+  }
+
+  return taskClass
+    ? `tasks.create(${quotedName}, ${taskClass}) {`
+    : `tasks.create(${quotedName}) {`;
+}
+
+/**
+ * Groovy DSL spelling: command-style calls, plain property assignment and GStrings
+ */
+function groovyDialect(options: GroovyDslOptions): ScriptDialect {
+  return {
+    string: groovyString,
+    identifier: groovyIdentifier,
+    local: 'def',
+    newKeyword: 'new ',
+    taskDeclaration: (taskName, taskClass, quotedName) => taskDeclaration(taskName, taskClass, quotedName, options),
+    call: (method, args) => `${method} ${args.join(', ')}`,
+    setProperty: (property, value) => `${property} = ${value}`,
+    booleanProperty: (property) => property,
+    long: (value) => `${value}`,
+    addAll: (property, values) => `${property} += [${values.join(', ')}]`,
+    byteStream: (value) => `new ByteArrayInputStream(${value}.bytes)`,
+    writeText: (file, text) => `${file}.text = ${text}`,
+    // Statements kept verbatim from an imported Kotlin script cannot be translated
+    preservedStatement: (text) => `// kotlin: ${text}`,
+    matches: (text, pattern) => `(${text} =~ ${pattern}).find()`,
+    toNumber: (operand) => `(${operand}.isNumber() ? ${operand}.toDouble() : Double.NaN)`,
+    isBlank: (operand) => `${operand}.trim().isEmpty()`,
+    isNotBlank: (operand) => `!${operand}.trim().isEmpty()`,
+    lowercase: (operand) => `${operand}.toLowerCase()`,
+  };
+}
+
+/**
+ * Generate a Groovy build.gradle script from the task graph
+ */
+export function generateGroovyDsl(
+  graph: GradleTaskGraph,
+  variables: Variable[],
+  options: GroovyDslOptions = { lazy: true }
+): string {
+  return generateBuildScript(graph, variables, groovyDialect(options));
+}
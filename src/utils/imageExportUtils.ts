@@ -0,0 +1,308 @@
+import { createElement, type ElementType } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import { getSmoothStepPath, Position } from '@xyflow/react';
+import { CheckCircle, CheckCheck, Archive, XCircle, Loader, Clock, SkipForward, GitBranch, ArrowRight, RotateCcw } from 'lucide-react';
+import {
+  type GradleTaskNode,
+  type GradleEdge,
+  type GraphViewport,
+  type TaskExecutionStatus,
+  executionStatusColors,
+} from '../types/gradle';
+import { taskTypeIcons, taskTypeColors } from '../components/GradleTaskNode';
+import { edgeStyles } from '../components/GradleDependencyEdge';
+import { relationTypes } from './buildScriptUtils';
+
+/**
+ * Which part of the canvas to export
+ */
+export type ImageExportArea = 'viewport' | 'graph';
+
+export interface ImageExportOptions {
+  area: ImageExportArea;
+  /** Colour nodes by the status of the last run */
+  includeStatus: boolean;
+  /** Fill colour behind the graph, or null for transparent */
+  background: string | null;
+  /** Current viewport and canvas size (used for the 'viewport' area) */
+  viewport: GraphViewport;
+  canvasSize: { width: number; height: number };
+}
+
+/**
+ * A rendered SVG document and its size in CSS pixels
+ */
+export interface RenderedImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const FONT_FAMILY = "Inter, system-ui, -apple-system, 'Segoe UI', Roboto, Arial, sans-serif";
+const GRAPH_PADDING = 24;
+const MAX_CANVAS_SIDE = 16384;
+
+/* Card geometry, matching .gradle-task-node in App.css */
+const NODE_MIN_WIDTH = 160;
+const NODE_DEFAULT_HEIGHT = 69;
+const NODE_PADDING_X = 16;
+const ICON_BOX = 32;
+const ICON_GAP = 12;
+
+const statusIcons: Partial<Record<TaskExecutionStatus, ElementType>> = {
+  running: Loader,
+  success: CheckCircle,
+  upToDate: CheckCheck,
+  fromCache: Archive,
+  failed: XCircle,
+  pending: Clock,
+  skipped: SkipForward,
+};
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+const iconMarkupCache = new Map<string, string>();
+
+/**
+ * Measure text with the browser's font metrics (estimated when no canvas is available)
+ */
+function textWidth(text: string, size: number, weight: number): number {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined'
+      ? document.createElement('canvas').getContext('2d')
+      : null;
+  }
+  if (!measureContext) return text.length * size * 0.6;
+  measureContext.font = `${weight} ${size}px ${FONT_FAMILY}`;
+  return measureContext.measureText(text).width;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a lucide icon as an inline SVG element positioned at x, y.
+ * Icons are rendered once per icon/size/colour into a detached element and cached.
+ */
+function iconMarkup(icon: ElementType, x: number, y: number, size: number, color: string): string {
+  const key = `${(icon as { displayName?: string }).displayName}|${size}|${color}`;
+  let markup = iconMarkupCache.get(key);
+
+  if (markup === undefined) {
+    const container = document.createElement('div');
+    const root = createRoot(container);
+    flushSync(() => root.render(createElement(icon, { size, color })));
+    markup = container.innerHTML;
+    root.unmount();
+    iconMarkupCache.set(key, markup);
+  }
+
+  return markup.replace('<svg ', `<svg x="${x}" y="${y}" `);
+}
+
+/**
+ * Size of a node card: the measured DOM size when available, otherwise estimated from its text
+ */
+function nodeSize(node: GradleTaskNode): { width: number; height: number } {
+  const estimatedWidth =
+    NODE_PADDING_X * 2 + ICON_BOX + ICON_GAP + 30 +
+    Math.max(textWidth(node.data.taskName, 14, 600), textWidth(node.data.taskType, 12, 400));
+
+  return {
+    width: node.measured?.width ?? node.width ?? Math.max(NODE_MIN_WIDTH, estimatedWidth),
+    height: node.measured?.height ?? node.height ?? NODE_DEFAULT_HEIGHT,
+  };
+}
+
+function renderNode(node: GradleTaskNode, includeStatus: boolean): string {
+  const { x, y } = node.position;
+  const { width, height } = nodeSize(node);
+  const color = taskTypeColors[node.data.taskType] || taskTypeColors.Custom;
+  const Icon = taskTypeIcons[node.data.taskType] || taskTypeIcons.Custom;
+  const status = includeStatus
+    ? ((node.data.executionStatus as TaskExecutionStatus) || 'idle')
+    : 'idle';
+  const borderColor = status !== 'idle' ? executionStatusColors[status] : '#e5e7eb';
+  const midY = y + height / 2;
+  const iconX = x + NODE_PADDING_X + 2;
+  const textX = iconX + ICON_BOX + ICON_GAP;
+  const hasCondition = !!node.data.condition && node.data.condition.conditions.length > 0;
+
+  const parts = [
+    `<g${node.data.enabled === false ? ' opacity="0.5"' : ''}>`,
+    `<rect x="${x + 1}" y="${y + 1}" width="${width - 2}" height="${height - 2}" rx="7" fill="white" stroke="${borderColor}" stroke-width="2"/>`,
+    `<rect x="${iconX}" y="${midY - ICON_BOX / 2}" width="${ICON_BOX}" height="${ICON_BOX}" rx="6" fill="${color}" fill-opacity="0.125"/>`,
+    iconMarkup(Icon, iconX + 8, midY - 8, 16, color),
+    `<text x="${textX}" y="${midY - 3}" font-size="14" font-weight="600" fill="#1e293b">${escapeXml(node.data.taskName)}</text>`,
+    `<text x="${textX}" y="${midY + 14}" font-size="12" fill="#64748b">${escapeXml(node.data.taskType)}</text>`,
+  ];
+
+  const StatusIcon = statusIcons[status];
+  if (StatusIcon) {
+    parts.push(iconMarkup(StatusIcon, x + width - NODE_PADDING_X - 16, midY - 7, 14, executionStatusColors[status]));
+  } else if (hasCondition) {
+    parts.push(iconMarkup(GitBranch, x + width - NODE_PADDING_X - 14, midY - 6, 12, '#64748b'));
+  }
+
+  // Connection handles
+  [y, y + height].forEach((handleY) => {
+    parts.push(`<circle cx="${x + width / 2}" cy="${handleY}" r="5" fill="${color}" stroke="white" stroke-width="2"/>`);
+  });
+  parts.push('</g>');
+
+  return parts.join('');
+}
+
+function renderEdge(edge: GradleEdge, nodesById: Map<string, GradleTaskNode>): { path: string; label: string } | null {
+  const source = nodesById.get(edge.source);
+  const target = nodesById.get(edge.target);
+  if (!source || !target) return null;
+
+  const dependencyType = edge.data?.dependencyType || 'dependsOn';
+  const style = edgeStyles[dependencyType];
+  const sourceSize = nodeSize(source);
+  const targetSize = nodeSize(target);
+
+  const [path, labelX, labelY] = getSmoothStepPath({
+    sourceX: source.position.x + sourceSize.width / 2,
+    sourceY: source.position.y + sourceSize.height,
+    sourcePosition: Position.Bottom,
+    targetX: target.position.x + targetSize.width / 2,
+    targetY: target.position.y,
+    targetPosition: Position.Top,
+    borderRadius: 8,
+  });
+
+  const dash = style.strokeDasharray ? ` stroke-dasharray="${style.strokeDasharray}"` : '';
+  const pathMarkup = `<path d="${path}" fill="none" stroke="${style.stroke}" stroke-width="2"${dash} marker-end="url(#arrow-${dependencyType})"/>`;
+
+  // Label pill, matching .edge-label
+  const labelTextWidth = textWidth(style.label, 10, 500);
+  const labelWidth = 8 * 2 + 10 + 4 + labelTextWidth + 2;
+  const labelHeight = 25;
+  const left = labelX - labelWidth / 2;
+  const top = labelY - labelHeight / 2;
+  const labelMarkup = [
+    `<rect x="${left}" y="${top}" width="${labelWidth}" height="${labelHeight}" rx="4" fill="${style.labelBg}" stroke="${style.stroke}"/>`,
+    iconMarkup(dependencyType === 'finalizedBy' ? RotateCcw : ArrowRight, left + 9, labelY - 5, 10, style.stroke),
+    `<text x="${left + 23}" y="${labelY + 3.5}" font-size="10" font-weight="500" fill="${style.stroke}">${escapeXml(style.label)}</text>`,
+  ].join('');
+
+  return { path: pathMarkup, label: labelMarkup };
+}
+
+/**
+ * Arrow markers for each dependency type, matching React Flow's ArrowClosed marker
+ */
+function renderMarkers(): string {
+  return relationTypes
+    .map((type) => {
+      const color = edgeStyles[type].stroke;
+      return `<marker id="arrow-${type}" viewBox="-10 -10 20 20" markerWidth="16" markerHeight="16" markerUnits="strokeWidth" orient="auto-start-reverse" refX="0" refY="0"><polyline points="-5,-4 0,0 -5,4 -5,-4" stroke="${color}" fill="${color}" stroke-width="1" stroke-linecap="round" stroke-linejoin="round"/></marker>`;
+    })
+    .join('');
+}
+
+/**
+ * Compute the flow-space rectangle to export
+ */
+function exportBounds(nodes: GradleTaskNode[], options: ImageExportOptions) {
+  if (options.area === 'viewport' || nodes.length === 0) {
+    const { x, y, zoom } = options.viewport;
+    return {
+      x: -x / zoom,
+      y: -y / zoom,
+      width: options.canvasSize.width / zoom,
+      height: options.canvasSize.height / zoom,
+      scale: zoom,
+    };
+  }
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  nodes.forEach((node) => {
+    const { width, height } = nodeSize(node);
+    minX = Math.min(minX, node.position.x);
+    minY = Math.min(minY, node.position.y);
+    maxX = Math.max(maxX, node.position.x + width);
+    maxY = Math.max(maxY, node.position.y + height);
+  });
+
+  return {
+    x: minX - GRAPH_PADDING,
+    y: minY - GRAPH_PADDING,
+    width: maxX - minX + GRAPH_PADDING * 2,
+    height: maxY - minY + GRAPH_PADDING * 2,
+    scale: 1,
+  };
+}
+
+/**
+ * Render the task graph as a standalone SVG document
+ */
+export function renderGraphSvg(
+  nodes: GradleTaskNode[],
+  edges: GradleEdge[],
+  options: ImageExportOptions
+): RenderedImage {
+  const bounds = exportBounds(nodes, options);
+  const width = Math.round(bounds.width * bounds.scale);
+  const height = Math.round(bounds.height * bounds.scale);
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const renderedEdges = edges
+    .map((edge) => renderEdge(edge, nodesById))
+    .filter((e): e is { path: string; label: string } => e !== null);
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}" font-family="${escapeXml(FONT_FAMILY)}">`,
+    `<defs>${renderMarkers()}</defs>`,
+    options.background
+      ? `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="${options.background}"/>`
+      : '',
+    // Edges below nodes, labels above them, as on the canvas
+    `<g>${renderedEdges.map((e) => e.path).join('')}</g>`,
+    `<g>${nodes.map((node) => renderNode(node, options.includeStatus)).join('')}</g>`,
+    `<g>${renderedEdges.map((e) => e.label).join('')}</g>`,
+    '</svg>',
+  ].join('\n');
+
+  return { svg, width, height };
+}
+
+/**
+ * Rasterise a rendered SVG to a PNG at the given pixel ratio
+ */
+export async function renderPng(image: RenderedImage, pixelRatio: number): Promise<Blob> {
+  const scale = Math.min(pixelRatio, MAX_CANVAS_SIDE / Math.max(image.width, image.height, 1));
+  const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml;charset=utf-8' }));
+
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas rendering is not available');
+    context.scale(scale, scale);
+    context.drawImage(img, 0, 0, image.width, image.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))),
+        'image/png'
+      );
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
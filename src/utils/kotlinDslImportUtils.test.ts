@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { DependencyType, GradleEdge, GradleTaskNode, GradleTaskNodeData, Variable } from '../types/gradle';
+import { systemVariables } from '../types/gradle';
+import { generateKotlinDsl } from './kotlinDslUtils';
+import { importKotlinDsl } from './kotlinDslImportUtils';
+
+function task(id: string, data: Pick<GradleTaskNodeData, 'taskType'> & Partial<GradleTaskNodeData>): GradleTaskNode {
+  return { id, type: 'gradleTask', position: { x: 0, y: 0 }, data: { ...data, taskName: id } };
+}
+
+function relation(source: string, target: string, dependencyType: DependencyType): GradleEdge {
+  return { id: `${source}-${target}`, source, target, type: 'dependency', data: { dependencyType } };
+}
+
+const variables: Variable[] = [
+  ...systemVariables.map((v) => ({ ...v })),
+  { id: 'var_env', name: 'env', type: 'string', defaultValue: 'dev', value: 'dev' },
+];
+
+const nodes: GradleTaskNode[] = [
+  task('compileJava', {
+    taskType: 'JavaCompile',
+    group: 'build',
+    config: { sourceCompatibility: '17', encoding: 'UTF-8' },
+  }),
+  task('copyDocs', {
+    taskType: 'Copy',
+    description: 'Copies "docs" for ${env}',
+    config: { from: ['docs'], into: '${buildDir}/docs', include: ['**/*.md'] },
+    condition: {
+      type: 'onlyIf',
+      logic: 'and',
+      conditions: [{ id: 'c1', leftSource: 'variable', leftValue: 'env', operator: 'equals', rightSource: 'literal', rightValue: 'prod' }],
+    },
+  }),
+  task('runScript', {
+    taskType: 'Exec',
+    enabled: false,
+    timeout: 5,
+    config: { commandLine: ['sh', '-c', 'echo $HOME'], workingDir: 'scripts', ignoreExitValue: true },
+  }),
+  task('cleanUp', { taskType: 'Delete', config: { delete: ['build/tmp'] } }),
+];
+
+const edges: GradleEdge[] = [
+  relation('compileJava', 'copyDocs', 'dependsOn'),
+  relation('compileJava', 'runScript', 'mustRunAfter'),
+  relation('runScript', 'cleanUp', 'finalizedBy'),
+];
+
+describe('Kotlin DSL round trip', () => {
+  const result = importKotlinDsl(generateKotlinDsl({ nodes, edges }, variables));
+  const byName = new Map(result.nodes.map((node) => [node.data.taskName, node]));
+
+  it('imports every exported task', () => {
+    expect([...byName.keys()]).toEqual(nodes.map((node) => node.data.taskName));
+  });
+
+  it('keeps task types, flags and configuration', () => {
+    nodes.forEach((original) => {
+      const imported = byName.get(original.data.taskName)!;
+      expect(imported.data.taskType).toBe(original.data.taskType);
+      expect(imported.data.group).toBe(original.data.group);
+      expect(imported.data.description).toBe(original.data.description);
+      expect(imported.data.enabled ?? true).toBe(original.data.enabled ?? true);
+      expect(imported.data.timeout).toBe(original.data.timeout);
+      expect(imported.data.config).toMatchObject(original.data.config ?? {});
+    });
+  });
+
+  it('keeps onlyIf blocks verbatim and warns about them', () => {
+    expect(byName.get('copyDocs')!.data.preservedStatements).toEqual(['onlyIf { (env == "prod") }']);
+    expect(result.warnings).toEqual(["Task 'copyDocs': 1 statement(s) kept verbatim"]);
+  });
+
+  it('keeps every relationship with its type', () => {
+    const nameOf = (id: string) => result.nodes.find((node) => node.id === id)!.data.taskName;
+    const relations = result.edges.map((edge) => `${nameOf(edge.source)} ${edge.data?.dependencyType} ${nameOf(edge.target)}`);
+    expect(relations.sort()).toEqual([
+      'compileJava dependsOn copyDocs',
+      'compileJava mustRunAfter runScript',
+      'runScript finalizedBy cleanUp',
+    ]);
+  });
+
+  it('keeps user variables with their values', () => {
+    expect(result.variables.find((v) => v.name === 'env')).toMatchObject({ value: 'dev' });
+  });
+});
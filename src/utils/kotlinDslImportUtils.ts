@@ -0,0 +1,940 @@
+import {
+  type GradleTaskNode,
+  type GradleTaskNodeData,
+  type GradleTaskType,
+  type GradleEdge,
+  type DependencyType,
+  type DuplicatesStrategy,
+  type Variable,
+  type GraphImportResult,
+  taskPropertySchemas,
+  systemVariables,
+} from '../types/gradle';
+import { systemVariableExpressions } from './buildScriptUtils';
+import { computeLayeredLayout } from './graphUtils';
+import { generateVariableId } from './variableUtils';
+
+/**
+ * Gradle task classes that map onto an editor task type
+ */
+const importableTaskTypes: Record<string, GradleTaskType> = {
+  Exec: 'Exec',
+  Copy: 'Copy',
+  Delete: 'Delete',
+  Zip: 'Zip',
+  Jar: 'Jar',
+  Test: 'Test',
+  JavaCompile: 'JavaCompile',
+  ProcessResources: 'ProcessResources',
+  DefaultTask: 'Custom',
+};
+
+/**
+ * Config fields that are not in the property schema but can still be imported
+ */
+const extraConfigFields: Partial<Record<GradleTaskType, string[]>> = {
+  Exec: ['standardInput'],
+  Test: ['testClassesDirs'],
+};
+
+const duplicatesStrategies: DuplicatesStrategy[] = ['INCLUDE', 'EXCLUDE', 'WARN', 'FAIL', 'INHERIT'];
+
+const relationNames: DependencyType[] = ['dependsOn', 'mustRunAfter', 'shouldRunAfter', 'finalizedBy'];
+
+/* ----------------------------------------------
+   Source scanning
+   ---------------------------------------------- */
+
+/**
+ * Skip a string literal starting at index i (which points at the opening quote).
+ * Returns the index just after the closing quote.
+ */
+function skipString(src: string, i: number): number {
+  if (src.startsWith('"""', i)) {
+    let j = i + 3;
+    while (j < src.length) {
+      if (src.startsWith('"""', j)) {
+        // Raw strings may end with extra quotes that belong to the content
+        j += 3;
+        while (src[j] === '"') j++;
+        return j;
+      }
+      if (src.startsWith('${', j)) {
+        const close = findClosing(src, j + 1);
+        j = close === -1 ? src.length : close + 1;
+        continue;
+      }
+      j++;
+    }
+    return src.length;
+  }
+
+  let j = i + 1;
+  while (j < src.length) {
+    const c = src[j];
+    if (c === '\\') {
+      j += 2;
+    } else if (c === '"') {
+      return j + 1;
+    } else if (src.startsWith('${', j)) {
+      const close = findClosing(src, j + 1);
+      j = close === -1 ? src.length : close + 1;
+    } else if (c === '\n') {
+      return j;
+    } else {
+      j++;
+    }
+  }
+  return src.length;
+}
+
+/**
+ * Skip a character literal starting at index i
+ */
+function skipChar(src: string, i: number): number {
+  let j = i + 1;
+  while (j < src.length && src[j] !== "'" && src[j] !== '\n') {
+    j += src[j] === '\\' ? 2 : 1;
+  }
+  return j + 1;
+}
+
+/**
+ * Find the bracket that closes the one at index i.
+ * Returns -1 when the bracket is unbalanced.
+ */
+function findClosing(src: string, i: number): number {
+  const pairs: Record<string, string> = { '{': '}', '(': ')', '[': ']' };
+  const stack: string[] = [];
+  let j = i;
+
+  while (j < src.length) {
+    const c = src[j];
+    if (c === '"') {
+      j = skipString(src, j);
+      continue;
+    }
+    if (c === "'") {
+      j = skipChar(src, j);
+      continue;
+    }
+    if (pairs[c]) {
+      stack.push(pairs[c]);
+    } else if (c === '}' || c === ')' || c === ']') {
+      if (stack.pop() !== c) return -1;
+      if (stack.length === 0) return j;
+    }
+    j++;
+  }
+
+  return -1;
+}
+
+/**
+ * Remove line and block comments while leaving string contents intact
+ */
+function stripComments(src: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < src.length) {
+    const c = src[i];
+    if (c === '"') {
+      const end = skipString(src, i);
+      result += src.slice(i, end);
+      i = end;
+    } else if (src.startsWith('//', i)) {
+      while (i < src.length && src[i] !== '\n') i++;
+    } else if (src.startsWith('/*', i)) {
+      // Kotlin block comments nest
+      let depth = 0;
+      while (i < src.length) {
+        if (src.startsWith('/*', i)) {
+          depth++;
+          i += 2;
+        } else if (src.startsWith('*/', i)) {
+          depth--;
+          i += 2;
+          if (depth === 0) break;
+        } else {
+          // Keep line breaks so statement boundaries survive
+          if (src[i] === '\n') result += '\n';
+          i++;
+        }
+      }
+    } else {
+      result += c;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Remove the indentation shared by all non-blank lines
+ */
+function dedent(text: string): string {
+  const lines = text.split('\n');
+  const indents = lines
+    .filter((l) => l.trim() !== '')
+    .map((l) => l.match(/^[ \t]*/)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((l) => l.slice(common)).join('\n');
+}
+
+/**
+ * Split a block of code into top-level statements.
+ * Statements continue across lines inside brackets, after trailing operators
+ * and before lines that start with a member access.
+ */
+function splitStatements(src: string): string[] {
+  const statements: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  const flush = (end: number) => {
+    const text = src.slice(start, end).trim();
+    if (text) statements.push(dedent(src.slice(start, end).replace(/^\s*\n/, '')).trim());
+    start = end + 1;
+  };
+
+  while (i < src.length) {
+    const c = src[i];
+
+    if (c === '"') {
+      i = skipString(src, i);
+      continue;
+    }
+    if (c === "'") {
+      i = skipChar(src, i);
+      continue;
+    }
+    if (c === '{' || c === '(' || c === '[') {
+      const close = findClosing(src, i);
+      i = close === -1 ? src.length : close + 1;
+      continue;
+    }
+
+    if (c === ';') {
+      flush(i);
+    } else if (c === '\n') {
+      const before = src.slice(start, i).trimEnd();
+      const after = src.slice(i + 1).trimStart();
+      const continues =
+        /(\.|,|=|\+|-|\*|&&|\|\||\?:|->)$/.test(before) ||
+        /^(\.|\?\.|\?:|&&|\|\|)/.test(after);
+      if (!continues) flush(i);
+    }
+    i++;
+  }
+
+  flush(src.length);
+  return statements;
+}
+
+/**
+ * Split call arguments at top-level commas
+ */
+function splitArgs(src: string): string[] {
+  const args: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < src.length) {
+    const c = src[i];
+    if (c === '"') {
+      i = skipString(src, i);
+      continue;
+    }
+    if (c === "'") {
+      i = skipChar(src, i);
+      continue;
+    }
+    if (c === '{' || c === '(' || c === '[') {
+      const close = findClosing(src, i);
+      i = close === -1 ? src.length : close + 1;
+      continue;
+    }
+    if (c === ',') {
+      args.push(src.slice(start, i).trim());
+      start = i + 1;
+    }
+    i++;
+  }
+
+  const last = src.slice(start).trim();
+  if (last) args.push(last);
+  return args;
+}
+
+/**
+ * A parsed `name<Type>(args) { block }` call expression
+ */
+interface CallExpression {
+  name: string;
+  typeArg?: string;
+  args: string[];
+  block?: string;
+}
+
+/**
+ * Parse a statement of the form `name<T>(args) { block }` where every part
+ * after the name is optional. Returns null if anything else follows.
+ */
+function parseCall(stmt: string): CallExpression | null {
+  const head = stmt.match(/^([A-Za-z_][\w.]*)\s*(?:<\s*([\w.]+)\s*>)?\s*/);
+  if (!head) return null;
+
+  let i = head[0].length;
+  let args: string[] = [];
+  let block: string | undefined;
+  const hasArgs = stmt[i] === '(';
+
+  if (hasArgs) {
+    const close = findClosing(stmt, i);
+    if (close === -1) return null;
+    args = splitArgs(stmt.slice(i + 1, close));
+    i = close + 1;
+    while (/\s/.test(stmt[i] || '')) i++;
+  }
+
+  if (stmt[i] === '{') {
+    const close = findClosing(stmt, i);
+    if (close === -1) return null;
+    block = stmt.slice(i + 1, close);
+    i = close + 1;
+  }
+
+  if (stmt.slice(i).trim() !== '') return null;
+  if (!hasArgs && block === undefined) return null;
+
+  return { name: head[1], typeArg: head[2], args, block };
+}
+
+/**
+ * Parse an assignment `target = value` or `target += value`
+ */
+function parseAssignment(stmt: string): { target: string; operator: string; value: string } | null {
+  const match = stmt.match(/^([A-Za-z_][\w.]*)\s*(\+?=)(?!=)\s*([\s\S]+)$/);
+  if (!match) return null;
+  return { target: match[1], operator: match[2], value: match[3].trim() };
+}
+
+/* ----------------------------------------------
+   Value parsing
+   ---------------------------------------------- */
+
+/**
+ * Reverse lookup from build script expressions to system variable names
+ */
+const systemVariableNames: Record<string, string> = {
+  ...Object.fromEntries(
+    Object.entries(systemVariableExpressions).map(([name, expr]) => [expr, name])
+  ),
+  projectDir: 'projectDir',
+  'layout.buildDirectory.get().asFile': 'buildDir',
+  buildDir: 'buildDir',
+  'project.buildDir': 'buildDir',
+  version: 'version',
+  group: 'group',
+};
+
+/**
+ * Unescape a Kotlin string literal and convert templates to ${var} references.
+ * Returns null when the literal contains expressions that cannot be represented.
+ */
+function parseStringLiteral(expr: string): string | null {
+  const text = expr.trim();
+  if (!text.startsWith('"') || skipString(text, 0) !== text.length) return null;
+
+  const raw = text.startsWith('"""');
+  const body = raw ? text.slice(3, -3) : text.slice(1, -1);
+  let result = '';
+  let i = 0;
+
+  while (i < body.length) {
+    const c = body[i];
+
+    if (!raw && c === '\\') {
+      const next = body[i + 1];
+      const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b' };
+      if (next === 'u') {
+        result += String.fromCharCode(parseInt(body.slice(i + 2, i + 6), 16));
+        i += 6;
+      } else {
+        result += escapes[next] ?? next;
+        i += 2;
+      }
+      continue;
+    }
+
+    if (c === '$' && body[i + 1] === '{') {
+      const close = findClosing(body, i + 1);
+      if (close === -1) return null;
+      const inner = body.slice(i + 2, close).trim();
+      const name = systemVariableNames[inner] ?? (/^[A-Za-z_]\w*$/.test(inner) ? inner : null);
+      if (!name) return null;
+      result += `\${${name}}`;
+      i = close + 1;
+      continue;
+    }
+
+    if (c === '$' && /[A-Za-z_]/.test(body[i + 1] || '')) {
+      const name = body.slice(i + 1).match(/^[A-Za-z_]\w*/)![0];
+      result += `\${${systemVariableNames[name] ?? name}}`;
+      i += name.length + 1;
+      continue;
+    }
+
+    result += c;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Parse a file-like argument: a string, file("x"), layout.buildDirectory.dir("x"), etc.
+ */
+function parsePath(expr: string): string | null {
+  const literal = parseStringLiteral(expr);
+  if (literal !== null) return literal;
+
+  const call = parseCall(expr.trim());
+  if (!call || call.block !== undefined || call.args.length !== 1) return null;
+
+  const inner = parseStringLiteral(call.args[0]);
+  if (inner === null) return null;
+
+  switch (call.name) {
+    case 'file':
+    case 'File':
+    case 'project.file':
+    case 'layout.projectDirectory.dir':
+    case 'layout.projectDirectory.file':
+    case 'project.layout.projectDirectory.dir':
+    case 'project.layout.projectDirectory.file':
+      return inner;
+    case 'layout.buildDirectory.dir':
+    case 'layout.buildDirectory.file':
+    case 'project.layout.buildDirectory.dir':
+    case 'project.layout.buildDirectory.file':
+      return `\${buildDir}/${inner}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a list of path-like arguments, unwrapping listOf()/files() calls
+ */
+function parsePathList(args: string[]): string[] | null {
+  const values: string[] = [];
+
+  for (const arg of args) {
+    const call = parseCall(arg.trim());
+    if (call && call.block === undefined && ['listOf', 'mutableListOf', 'arrayOf', 'files'].includes(call.name)) {
+      const nested = parsePathList(call.args);
+      if (!nested) return null;
+      values.push(...nested);
+      continue;
+    }
+    const value = parsePath(arg);
+    if (value === null) return null;
+    values.push(value);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a list of string arguments, unwrapping listOf()/arrayOf() calls
+ */
+function parseStringList(args: string[]): string[] | null {
+  const values: string[] = [];
+
+  for (const arg of args) {
+    const call = parseCall(arg.trim());
+    if (call && call.block === undefined && ['listOf', 'mutableListOf', 'arrayOf'].includes(call.name)) {
+      const nested = parseStringList(call.args);
+      if (!nested) return null;
+      values.push(...nested);
+      continue;
+    }
+    const value = parseStringLiteral(arg);
+    if (value === null) return null;
+    values.push(value);
+  }
+
+  return values;
+}
+
+function parseBoolean(expr: string): boolean | null {
+  if (expr === 'true') return true;
+  if (expr === 'false') return false;
+  return null;
+}
+
+function parseInteger(expr: string): number | null {
+  const match = expr.match(/^(\d+)L?$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Unwrap `.set(x)` calls and assignments into a single value expression
+ */
+function propertyValue(stmt: string, property: string): string | null {
+  const assignment = parseAssignment(stmt);
+  if (assignment && assignment.operator === '=' && assignment.target === property) {
+    return assignment.value;
+  }
+  const call = parseCall(stmt);
+  if (call && call.block === undefined && call.name === `${property}.set` && call.args.length === 1) {
+    return call.args[0];
+  }
+  return null;
+}
+
+/* ----------------------------------------------
+   Task statements
+   ---------------------------------------------- */
+
+/**
+ * A task declaration found in the script
+ */
+interface TaskDeclaration {
+  name: string;
+  gradleType?: string;
+  body: string;
+}
+
+/**
+ * Mutable state for a task while its statements are applied
+ */
+interface TaskDraft {
+  data: GradleTaskNodeData;
+  config: Record<string, unknown>;
+  relations: Record<DependencyType, string[]>;
+}
+
+/**
+ * Resolve a task reference in dependsOn(...) style calls to a task name
+ */
+function parseTaskReference(expr: string, valNames: Map<string, string>): string | null {
+  const text = expr.trim();
+  const literal = parseStringLiteral(text);
+  if (literal !== null) return literal.replace(/^:/, '');
+  if (valNames.has(text)) return valNames.get(text)!;
+
+  const call = parseCall(text);
+  if (call && call.block === undefined && call.name === 'tasks.named' && call.args.length === 1) {
+    return parseStringLiteral(call.args[0])?.replace(/^:/, '') ?? null;
+  }
+  const property = text.match(/^tasks\.(\w+)$/);
+  return property ? property[1] : null;
+}
+
+/**
+ * Apply a common (task-independent) statement. Returns false if unrecognised.
+ */
+function applyCommonStatement(stmt: string, draft: TaskDraft, valNames: Map<string, string>): boolean {
+  for (const property of ['group', 'description'] as const) {
+    const value = propertyValue(stmt, property);
+    if (value !== null) {
+      const text = parseStringLiteral(value);
+      if (text === null) return false;
+      draft.data[property] = text;
+      return true;
+    }
+  }
+
+  const enabled = propertyValue(stmt, 'enabled') ?? propertyValue(stmt, 'isEnabled');
+  if (enabled !== null) {
+    const value = parseBoolean(enabled);
+    if (value === null) return false;
+    draft.data.enabled = value;
+    return true;
+  }
+
+  const timeout = propertyValue(stmt, 'timeout');
+  if (timeout !== null) {
+    const match = timeout.match(/^(?:java\.time\.)?Duration\.of(Minutes|Seconds|Hours)\((\d+)L?\)$/);
+    if (!match) return false;
+    const amount = Number(match[2]);
+    const minutes = match[1] === 'Hours' ? amount * 60 : match[1] === 'Seconds' ? amount / 60 : amount;
+    draft.data.timeout = Math.max(1, Math.round(minutes));
+    return true;
+  }
+
+  const call = parseCall(stmt);
+  if (call && call.block === undefined && relationNames.includes(call.name as DependencyType)) {
+    const names = call.args.map((arg) => parseTaskReference(arg, valNames));
+    if (names.some((n) => n === null)) return false;
+    draft.relations[call.name as DependencyType].push(...(names as string[]));
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Apply a task-type specific statement to the config. Returns false if unrecognised.
+ */
+function applyConfigStatement(stmt: string, draft: TaskDraft): boolean {
+  const taskType = draft.data.taskType;
+  const allowed = new Set([
+    ...taskPropertySchemas[taskType].map((f) => f.name),
+    ...(extraConfigFields[taskType] || []),
+  ]);
+  const config = draft.config;
+
+  const setIfAllowed = (field: string, value: unknown): boolean => {
+    if (!allowed.has(field) || value === null) return false;
+    config[field] = value;
+    return true;
+  };
+
+  const appendIfAllowed = (field: string, values: string[] | null): boolean => {
+    if (!allowed.has(field) || values === null) return false;
+    config[field] = [...((config[field] as string[]) || []), ...values];
+    return true;
+  };
+
+  const call = parseCall(stmt);
+  if (call && call.block === undefined) {
+    switch (call.name) {
+      case 'commandLine':
+      case 'args':
+      case 'include':
+      case 'exclude':
+      case 'jvmArgs':
+        return appendIfAllowed(call.name, parseStringList(call.args));
+      case 'from':
+      case 'delete':
+        return appendIfAllowed(call.name, parsePathList(call.args));
+      case 'into':
+      case 'workingDir':
+        return call.args.length === 1 && setIfAllowed(call.name, parsePath(call.args[0]));
+      case 'environment': {
+        if (!allowed.has('environment')) return false;
+        const env = { ...((config.environment as Record<string, string>) || {}) };
+        if (call.args.length === 2) {
+          const key = parseStringLiteral(call.args[0]);
+          const value = parseStringLiteral(call.args[1]);
+          if (key === null || value === null) return false;
+          env[key] = value;
+        } else if (call.args.length === 1) {
+          const map = parseCall(call.args[0].trim());
+          if (!map || map.name !== 'mapOf') return false;
+          for (const pair of map.args) {
+            const parts = pair.split(/\s+to\s+/);
+            if (parts.length !== 2) return false;
+            const key = parseStringLiteral(parts[0]);
+            const value = parseStringLiteral(parts[1]);
+            if (key === null || value === null) return false;
+            env[key] = value;
+          }
+        } else {
+          return false;
+        }
+        config.environment = env;
+        return true;
+      }
+      case 'options.compilerArgs.add':
+      case 'options.compilerArgs.addAll':
+        return appendIfAllowed('compilerArgs', parseStringList(call.args));
+    }
+  }
+
+  const assignment = parseAssignment(stmt);
+  if (assignment?.operator === '+=' && assignment.target === 'options.compilerArgs') {
+    return appendIfAllowed('compilerArgs', parseStringList([assignment.value]));
+  }
+
+  // Property assignments (also in `.set(x)` form)
+  const booleanProperties: Record<string, string> = {
+    isIgnoreExitValue: 'ignoreExitValue',
+    isPreserveFileTimestamps: 'preserveFileTimestamps',
+    isFollowSymlinks: 'followSymlinks',
+    failFast: 'failFast',
+    ignoreFailures: 'ignoreFailures',
+    'options.isDeprecation': 'deprecation',
+    'options.isWarnings': 'warnings',
+  };
+  for (const [property, field] of Object.entries(booleanProperties)) {
+    const value = propertyValue(stmt, property);
+    if (value !== null) return setIfAllowed(field, parseBoolean(value));
+  }
+
+  for (const property of ['maxParallelForks', 'forkEvery']) {
+    const value = propertyValue(stmt, property);
+    if (value !== null) return setIfAllowed(property, parseInteger(value));
+  }
+
+  const stringProperties: Record<string, string> = {
+    archiveFileName: 'archiveFileName',
+    sourceCompatibility: 'sourceCompatibility',
+    targetCompatibility: 'targetCompatibility',
+    'options.encoding': 'encoding',
+  };
+  for (const [property, field] of Object.entries(stringProperties)) {
+    const value = propertyValue(stmt, property);
+    if (value !== null) {
+      const version = value.match(/^JavaVersion\.VERSION_(?:1_)?(\d+)$/);
+      return setIfAllowed(field, version ? version[1] : parseStringLiteral(value));
+    }
+  }
+
+  for (const property of ['destinationDirectory', 'workingDir', 'into']) {
+    const value = propertyValue(stmt, property);
+    if (value !== null) return setIfAllowed(property, parsePath(value));
+  }
+
+  const testClassesDirs = propertyValue(stmt, 'testClassesDirs');
+  if (testClassesDirs !== null) {
+    return setIfAllowed('testClassesDirs', parsePathList([testClassesDirs]));
+  }
+
+  const strategy = propertyValue(stmt, 'duplicatesStrategy');
+  if (strategy !== null) {
+    const match = strategy.match(/^DuplicatesStrategy\.(\w+)$/);
+    const value = match?.[1] as DuplicatesStrategy | undefined;
+    return setIfAllowed('duplicatesStrategy', value && duplicatesStrategies.includes(value) ? value : null);
+  }
+
+  return false;
+}
+
+/**
+ * Resolve the editor task type for a Gradle class name
+ */
+function resolveTaskType(
+  gradleType: string | undefined,
+  taskName: string,
+  warnings: string[]
+): GradleTaskType {
+  if (!gradleType) return 'Custom';
+  const simpleName = gradleType.split('.').pop()!;
+  const taskType = importableTaskTypes[simpleName];
+  if (!taskType) {
+    warnings.push(`Task '${taskName}' has unsupported type ${simpleName}; imported as Custom`);
+    return 'Custom';
+  }
+  return taskType;
+}
+
+/**
+ * Extract the type from a `Type::class` or `Type::class.java` argument
+ */
+function parseClassReference(expr: string): string | undefined {
+  return expr.trim().match(/^([\w.]+)::class(?:\.java)?$/)?.[1];
+}
+
+/**
+ * Recognise a top-level task declaration statement
+ */
+function parseTaskDeclaration(stmt: string, valNames: Map<string, string>): TaskDeclaration | null {
+  // val name by tasks.registering(Type::class) { ... }
+  const registering = stmt.match(/^val\s+(\w+)\s+by\s+(tasks\.(?:registering|creating)[\s\S]*)$/);
+  if (registering) {
+    const expr = registering[2].trim();
+    const call: CallExpression | null = /^tasks\.(registering|creating)$/.test(expr)
+      ? { name: expr, args: [] }
+      : parseCall(expr);
+    if (!call) return null;
+    valNames.set(registering[1], registering[1]);
+    return {
+      name: registering[1],
+      gradleType: call.typeArg ?? (call.args[0] ? parseClassReference(call.args[0]) : undefined),
+      body: call.block ?? '',
+    };
+  }
+
+  // tasks.register<Type>("name") { ... } / tasks.named<Type>("name") { ... }
+  const call = parseCall(stmt);
+  if (
+    call &&
+    ['tasks.register', 'tasks.create', 'tasks.named', 'tasks.getByName'].includes(call.name) &&
+    call.args.length >= 1
+  ) {
+    const name = parseStringLiteral(call.args[0]);
+    if (name === null) return null;
+    return {
+      name,
+      gradleType: call.typeArg ?? (call.args[1] ? parseClassReference(call.args[1]) : undefined),
+      body: call.block ?? '',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Recognise a top-level project property declaration:
+ * val name = providers.gradleProperty("name").getOrElse("default")
+ * val name = (findProperty("name") as String?) ?: "default"
+ */
+function parseVariableDeclaration(stmt: string): Variable | null {
+  const match = stmt.match(/^val\s+`?(\w+)`?\s*(?::\s*String\??\s*)?=\s*([\s\S]+)$/);
+  if (!match) return null;
+
+  const value = match[2].trim();
+  const provider = value.match(/^providers\.gradleProperty\(\s*("[^"]*")\s*\)(?:\.(?:getOrElse|orElse)\(([\s\S]*)\)(?:\.get\(\))?)?$/);
+  const findProperty = value.match(/^\(?\s*(?:project\.)?findProperty\(\s*("[^"]*")\s*\)(?:\s+as\s+String\?)?\s*\)?(?:\?\.toString\(\))?\s*\?:\s*([\s\S]+)$/);
+  const parts = provider ?? findProperty;
+  if (!parts) return null;
+
+  const defaultValue = parts[2] ? parseStringLiteral(parts[2]) ?? '' : '';
+  return {
+    id: generateVariableId(),
+    name: match[1],
+    type: 'string',
+    defaultValue,
+    value: defaultValue,
+  };
+}
+
+/* ----------------------------------------------
+   Import entry point
+   ---------------------------------------------- */
+
+/**
+ * Parse a build.gradle.kts script into task nodes, dependency edges and variables
+ */
+export function importKotlinDsl(source: string): GraphImportResult {
+  const warnings: string[] = [];
+  const statements = splitStatements(stripComments(source));
+  const valNames = new Map<string, string>();
+  const drafts = new Map<string, TaskDraft>();
+  const projectValues: Record<string, string> = {};
+  const userVariables: Variable[] = [];
+  const ignored: string[] = [];
+
+  for (const stmt of statements) {
+    const declaration = parseTaskDeclaration(stmt, valNames);
+
+    if (declaration) {
+      let draft = drafts.get(declaration.name);
+      if (!draft) {
+        draft = {
+          data: {
+            taskName: declaration.name,
+            taskType: resolveTaskType(declaration.gradleType, declaration.name, warnings),
+            enabled: true,
+          },
+          config: {},
+          relations: { dependsOn: [], mustRunAfter: [], shouldRunAfter: [], finalizedBy: [] },
+        };
+        drafts.set(declaration.name, draft);
+      }
+
+      const preserved: string[] = [];
+      for (const bodyStmt of splitStatements(declaration.body)) {
+        if (!applyCommonStatement(bodyStmt, draft, valNames) && !applyConfigStatement(bodyStmt, draft)) {
+          preserved.push(bodyStmt);
+        }
+      }
+      if (preserved.length > 0) {
+        draft.data.preservedStatements = [...(draft.data.preservedStatements || []), ...preserved];
+      }
+      continue;
+    }
+
+    const variable = parseVariableDeclaration(stmt);
+    if (variable) {
+      userVariables.push(variable);
+      continue;
+    }
+
+    const assignment = parseAssignment(stmt);
+    if (assignment && ['group', 'version'].includes(assignment.target)) {
+      const value = parseStringLiteral(assignment.value);
+      if (value !== null) {
+        projectValues[assignment.target] = value;
+        continue;
+      }
+    }
+
+    ignored.push(stmt.split('\n')[0].slice(0, 60));
+  }
+
+  if (ignored.length > 0) {
+    warnings.push(`Ignored ${ignored.length} top-level statement(s): ${ignored.join('; ')}`);
+  }
+
+  // Tasks referenced by relations but not declared (e.g. plugin tasks) become placeholders
+  drafts.forEach((draft) => {
+    relationNames.forEach((type) => {
+      draft.relations[type].forEach((name) => {
+        if (!drafts.has(name)) {
+          warnings.push(`Task '${name}' is referenced by '${draft.data.taskName}' but not declared; added as a placeholder`);
+          drafts.set(name, {
+            data: {
+              taskName: name,
+              taskType: 'Custom',
+              description: 'Referenced but not declared in the imported script',
+              enabled: true,
+            },
+            config: {},
+            relations: { dependsOn: [], mustRunAfter: [], shouldRunAfter: [], finalizedBy: [] },
+          });
+        }
+      });
+    });
+  });
+
+  // Build edges: target declares dependsOn/ordering on source, source declares finalizedBy on target
+  const edges: GradleEdge[] = [];
+  const edgeIds = new Set<string>();
+  drafts.forEach((draft) => {
+    relationNames.forEach((type) => {
+      draft.relations[type].forEach((other) => {
+        const [source, target] = type === 'finalizedBy'
+          ? [draft.data.taskName, other]
+          : [other, draft.data.taskName];
+        const id = `${source}-${target}`;
+        if (source === target || edgeIds.has(id)) return;
+        edgeIds.add(id);
+        edges.push({
+          id,
+          source,
+          target,
+          type: 'dependency',
+          data: { dependencyType: type },
+        });
+      });
+    });
+  });
+
+  const nodeIds = [...drafts.keys()];
+  const positions = computeLayeredLayout(nodeIds, edges);
+  const nodes: GradleTaskNode[] = nodeIds.map((id) => {
+    const draft = drafts.get(id)!;
+    const hasConfig = Object.keys(draft.config).length > 0;
+    return {
+      id,
+      type: 'gradleTask',
+      position: positions.get(id)!,
+      data: hasConfig ? { ...draft.data, config: draft.config } : draft.data,
+    };
+  });
+
+  const variables = [
+    ...systemVariables.map((v) =>
+      projectValues[v.name] !== undefined
+        ? { ...v, value: projectValues[v.name], defaultValue: projectValues[v.name] }
+        : { ...v }
+    ),
+    ...userVariables,
+  ];
+
+  nodes.forEach((node) => {
+    const count = node.data.preservedStatements?.length || 0;
+    if (count > 0) {
+      warnings.push(`Task '${node.data.taskName}': ${count} statement(s) kept verbatim`);
+    }
+  });
+
+  return { nodes, edges, variables, warnings };
+}
@@ -0,0 +1,87 @@
+import type { GradleTaskGraph, Variable } from '../types/gradle';
+import { generateBuildScript, splitTemplate, type ScriptDialect } from './buildScriptUtils';
+
+/**
+ * Kotlin hard keywords that must be escaped when used as identifiers
+ */
+const kotlinKeywords = new Set([
+  'as', 'break', 'class', 'continue', 'do', 'else', 'false', 'for', 'fun', 'if',
+  'in', 'interface', 'is', 'null', 'object', 'package', 'return', 'super', 'this',
+  'throw', 'true', 'try', 'typealias', 'typeof', 'val', 'var', 'when', 'while',
+]);
+
+/**
+ * Escape an identifier if it collides with a Kotlin keyword
+ */
+function kotlinIdentifier(name: string): string {
+  return kotlinKeywords.has(name) ? `\`${name}\`` : name;
+}
+
+/**
+ * Escape literal text for use inside a Kotlin string template
+ */
+function escapeKotlinText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, '\\$')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Convert a value into a Kotlin string literal.
+ * ${var} references become Kotlin templates over project properties or system values.
+ */
+function kotlinString(text: string, userVariables: Set<string>): string {
+  const body = splitTemplate(text, userVariables)
+    .map((segment) => {
+      switch (segment.kind) {
+        case 'userVariable':
+          return `\${${kotlinIdentifier(segment.name)}}`;
+        case 'systemVariable':
+          return `\${${segment.expression}}`;
+        case 'text':
+        default:
+          return escapeKotlinText(segment.text);
+      }
+    })
+    .join('');
+
+  return `"${body}"`;
+}
+
+/**
+ * Kotlin DSL spelling: typed tasks.register<T>, call syntax with parentheses and
+ * `is`-prefixed boolean properties
+ */
+const kotlinDialect: ScriptDialect = {
+  string: kotlinString,
+  identifier: kotlinIdentifier,
+  local: 'val',
+  newKeyword: '',
+  taskDeclaration: (_taskName, taskClass, quotedName) =>
+    taskClass ? `tasks.register<${taskClass}>(${quotedName}) {` : `tasks.register(${quotedName}) {`,
+  call: (method, args) => `${method}(${args.join(', ')})`,
+  setProperty: (property, value) => `${property}.set(${value})`,
+  booleanProperty: (property) =>
+    property.replace(/(\w)(\w*)$/, (_match, first: string, rest: string) => `is${first.toUpperCase()}${rest}`),
+  long: (value) => `${value}L`,
+  addAll: (property, values) => `${property}.addAll(listOf(${values.join(', ')}))`,
+  byteStream: (value) => `${value}.byteInputStream()`,
+  writeText: (file, text) => `${file}.writeText(${text})`,
+  preservedStatement: (text) => text,
+  matches: (text, pattern) => `Regex(${pattern}).containsMatchIn(${text})`,
+  toNumber: (operand) => `(${operand}.toDoubleOrNull() ?: Double.NaN)`,
+  isBlank: (operand) => `${operand}.isBlank()`,
+  isNotBlank: (operand) => `${operand}.isNotBlank()`,
+  lowercase: (operand) => `${operand}.lowercase()`,
+};
+
+/**
+ * Generate a build.gradle.kts script from the task graph
+ */
+export function generateKotlinDsl(graph: GradleTaskGraph, variables: Variable[]): string {
+  return generateBuildScript(graph, variables, kotlinDialect);
+}
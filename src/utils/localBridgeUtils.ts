@@ -0,0 +1,115 @@
+import type { TaskExecutionResult } from '../types/gradle';
+import { CANCELLED_REASON } from './executionUtils';
+import type { TaskExecutor } from './taskExecutorUtils';
+import { resolveConfigVariables } from './variableUtils';
+
+/**
+ * Endpoint served by the executor bridge middleware of the Vite dev server
+ * (server/executorBridge.ts)
+ */
+export const LOCAL_BRIDGE_ENDPOINT = '/__gradle-flow/execute';
+
+/**
+ * One line of the bridge's newline-delimited JSON response
+ */
+export type BridgeMessage =
+  | { type: 'output'; stream: 'stdout' | 'stderr'; text: string }
+  | { type: 'done'; success: boolean; error?: string };
+
+/**
+ * Parse a line from the bridge, ignoring anything that is not a bridge message
+ */
+export function parseBridgeMessage(line: string): BridgeMessage | null {
+  try {
+    const message = JSON.parse(line) as BridgeMessage;
+    return message.type === 'output' || message.type === 'done' ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Runs Exec, Copy, Delete and Zip tasks for real through the local dev-server bridge.
+ * Files are only touched inside the bridge's sandbox directory.
+ */
+export const localBridgeExecutor: TaskExecutor = {
+  id: 'local',
+  label: 'Local bridge',
+  execute: async (node, context) => {
+    const startTime = Date.now();
+    const output: string[] = [];
+    const finish = (result: Partial<TaskExecutionResult>): TaskExecutionResult => {
+      const endTime = Date.now();
+      return {
+        taskId: node.id,
+        taskName: node.data.taskName,
+        status: 'failed',
+        startTime,
+        endTime,
+        duration: endTime - startTime,
+        output: output.join('\n'),
+        ...result,
+      };
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(LOCAL_BRIDGE_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          taskName: node.data.taskName,
+          taskType: node.data.taskType,
+          config: resolveConfigVariables(node.data.config ?? {}, context.variables),
+        }),
+        signal: context.signal,
+      });
+    } catch {
+      if (context.signal.aborted) return finish({ status: 'skipped', skipReason: CANCELLED_REASON });
+      return finish({
+        error: 'The local execution bridge is not reachable. Start the editor with GRADLE_FLOW_LOCAL_BRIDGE=true npm run dev.',
+      });
+    }
+    if (response.status === 404) {
+      return finish({
+        error: 'The local execution bridge is not enabled. Start the editor with GRADLE_FLOW_LOCAL_BRIDGE=true npm run dev.',
+      });
+    }
+    if (!response.ok || !response.body) {
+      return finish({ error: `The local execution bridge answered ${response.status} ${response.statusText}` });
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    let done: Extract<BridgeMessage, { type: 'done' }> | null = null;
+    const handleLine = (line: string) => {
+      const message = parseBridgeMessage(line);
+      if (message?.type === 'output') {
+        output.push(message.text);
+        context.onOutput(message.text, message.stream);
+      } else if (message?.type === 'done') {
+        done = message;
+      }
+    };
+
+    try {
+      for (;;) {
+        const chunk = await reader.read();
+        if (chunk.done) break;
+        buffered += decoder.decode(chunk.value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop()!;
+        lines.forEach(handleLine);
+      }
+      if (buffered) handleLine(buffered);
+    } catch {
+      if (!context.signal.aborted) return finish({ error: 'The connection to the local execution bridge was lost' });
+    }
+
+    if (context.signal.aborted) return finish({ status: 'skipped', skipReason: CANCELLED_REASON });
+    const result = done as Extract<BridgeMessage, { type: 'done' }> | null;
+    if (!result) return finish({ error: 'The local execution bridge ended without a result' });
+    return finish(result.success ? { status: 'success' } : { error: result.error });
+  },
+};
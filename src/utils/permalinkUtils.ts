@@ -0,0 +1,100 @@
+import type { GraphDocument } from '../types/gradle';
+import { readGraphDocument, type GraphDocumentParseResult } from './graphDocumentUtils';
+
+/**
+ * URL fragment parameter that holds an encoded graph: `#g=<payload>`
+ */
+export const PERMALINK_PARAMETER = 'g';
+
+/**
+ * Longest permalink we hand out. Longer URLs are truncated by some chat tools and
+ * code review systems, so larger graphs are shared as files instead.
+ */
+export const MAX_PERMALINK_LENGTH = 8000;
+
+/**
+ * A permalink built for the current graph
+ */
+export type PermalinkResult =
+  | { ok: true; url: string }
+  | { ok: false; length: number };
+
+/**
+ * Deflate or inflate bytes with the browser's compression streams
+ */
+async function transform(bytes: Uint8Array, mode: 'compress' | 'decompress'): Promise<Uint8Array> {
+  if (typeof CompressionStream === 'undefined') {
+    throw new Error('This browser does not support compressed links');
+  }
+  const stream = mode === 'compress'
+    ? new CompressionStream('deflate-raw')
+    : new DecompressionStream('deflate-raw');
+  const response = new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Encode a document as a compressed, URL-safe payload
+ */
+export async function encodeGraphPermalink(doc: GraphDocument): Promise<string> {
+  const json = JSON.stringify(doc);
+  const compressed = await transform(new TextEncoder().encode(json), 'compress');
+  return toBase64Url(compressed);
+}
+
+/**
+ * Build a permalink to the document, or report its length when it is too long to share
+ */
+export async function buildPermalink(doc: GraphDocument, location: Location = window.location): Promise<PermalinkResult> {
+  const payload = await encodeGraphPermalink(doc);
+  const url = `${location.origin}${location.pathname}${location.search}#${PERMALINK_PARAMETER}=${payload}`;
+  return url.length <= MAX_PERMALINK_LENGTH ? { ok: true, url } : { ok: false, length: url.length };
+}
+
+/**
+ * Extract the graph payload from a URL fragment, if it has one
+ */
+export function readPermalinkPayload(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(PERMALINK_PARAMETER) || null;
+}
+
+/**
+ * Decode a permalink payload. The document is validated and migrated like an opened file.
+ */
+export async function decodeGraphPermalink(payload: string): Promise<GraphDocumentParseResult> {
+  let json: string;
+  try {
+    const bytes = await transform(fromBase64Url(payload), 'decompress');
+    json = new TextDecoder().decode(bytes);
+  } catch {
+    return { ok: false, errors: ['The link is damaged or incomplete. Ask for a new link or the graph file.'] };
+  }
+
+  try {
+    return readGraphDocument(JSON.parse(json));
+  } catch (error) {
+    return { ok: false, errors: [`The link does not contain a valid graph: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+}
+
+/**
+ * Remove the graph payload from the address bar without adding a history entry
+ */
+export function clearPermalinkFromUrl(): void {
+  const { pathname, search } = window.location;
+  window.history.replaceState(window.history.state, '', `${pathname}${search}`);
+}
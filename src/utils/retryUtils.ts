@@ -0,0 +1,47 @@
+import type { RetryPolicy, TaskAttempt } from '../types/gradle';
+
+/**
+ * Whether an error matches a retry pattern: a case-insensitive regular expression,
+ * or plain text when the pattern is not a valid expression
+ */
+function matchesPattern(error: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(error);
+  } catch {
+    return error.toLowerCase().includes(pattern.toLowerCase());
+  }
+}
+
+/**
+ * Decide whether a failed attempt should be retried
+ */
+export function shouldRetry(policy: RetryPolicy | undefined, attempt: number, error: string | undefined): boolean {
+  if (!policy || attempt >= policy.maxAttempts) return false;
+  const patterns = (policy.retryOn ?? []).filter((pattern) => pattern.trim() !== '');
+  return patterns.length === 0 || patterns.some((pattern) => matchesPattern(error ?? '', pattern));
+}
+
+/**
+ * Delay before the given retry (attempt 2 is the first retry)
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  return policy.backoff === 'exponential' ? policy.delayMs * 2 ** (attempt - 2) : policy.delayMs;
+}
+
+/**
+ * A task is flaky when it failed at least once and then passed on a retry
+ */
+export function isFlaky(attempts: TaskAttempt[] | undefined): boolean {
+  return !!attempts && attempts.length > 1 && attempts[attempts.length - 1].status === 'success';
+}
+
+/**
+ * Short description of a task's attempts, e.g. "passed on attempt 3"
+ */
+export function describeAttempts(attempts: TaskAttempt[] | undefined): string | null {
+  if (!attempts || attempts.length < 2) return null;
+  const last = attempts[attempts.length - 1];
+  return last.status === 'success'
+    ? `passed on attempt ${last.attempt}`
+    : `failed after ${attempts.length} attempts`;
+}
@@ -0,0 +1,174 @@
+import type {
+  ExecutionState,
+  RunOutcome,
+  RunRecord,
+  TaskExecutionResult,
+  TaskExecutionStatus,
+  Variable,
+} from '../types/gradle';
+
+/**
+ * Runs kept per workspace
+ */
+export const MAX_RUN_HISTORY = 20;
+
+/**
+ * Default share a task must slow down by to count as a duration regression
+ */
+export const DEFAULT_REGRESSION_THRESHOLD = 0.25;
+
+/**
+ * Slowdowns shorter than this are timing noise, whatever the ratio
+ */
+const MIN_REGRESSION_MS = 100;
+
+/**
+ * A task whose status differs between two runs
+ */
+export interface OutcomeChange {
+  taskId: string;
+  taskName: string;
+  before: TaskExecutionStatus;
+  after: TaskExecutionStatus;
+}
+
+/**
+ * A task that took noticeably longer in the later run
+ */
+export interface DurationRegression {
+  taskId: string;
+  taskName: string;
+  before: number;
+  after: number;
+  /** Relative slowdown, e.g. 0.5 for 50% slower */
+  change: number;
+}
+
+/**
+ * Differences between two runs of a graph
+ */
+export interface RunComparison {
+  outcomeChanges: OutcomeChange[];
+  regressions: DurationRegression[];
+  /** Tasks that took part in only one of the runs */
+  onlyInBase: TaskExecutionResult[];
+  onlyInOther: TaskExecutionResult[];
+  /** Variables whose value differs, by name */
+  variableChanges: { name: string; before?: string; after?: string }[];
+}
+
+function generateRunId(): string {
+  return `run_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Record a finished run. Unfinished task results are dropped.
+ */
+export function createRunRecord(
+  state: ExecutionState,
+  requestedTaskNames: string[],
+  variables: Variable[],
+  stopped: boolean
+): RunRecord {
+  const taskResults = [...state.taskResults.values()].filter(
+    (r) => r.status !== 'pending' && r.status !== 'running'
+  );
+  const startTime = state.startTime ?? Date.now();
+  const endTime = state.endTime ?? Date.now();
+  const outcome: RunOutcome = taskResults.some((r) => r.status === 'failed')
+    ? 'failed'
+    : stopped ? 'stopped' : 'success';
+
+  return {
+    id: generateRunId(),
+    startTime,
+    endTime,
+    duration: endTime - startTime,
+    requestedTaskNames,
+    variables: Object.fromEntries(variables.map((v) => [v.name, v.value])),
+    executionOrder: state.executionOrder,
+    taskResults,
+    logs: state.logs,
+    outcome,
+  };
+}
+
+/**
+ * Add a run to the history, keeping the most recent MAX_RUN_HISTORY runs
+ */
+export function addRunRecord(history: RunRecord[], record: RunRecord): RunRecord[] {
+  return [record, ...history.filter((r) => r.id !== record.id)].slice(0, MAX_RUN_HISTORY);
+}
+
+/**
+ * Show a recorded run in the execution panel again
+ */
+export function runRecordToExecutionState(record: RunRecord): ExecutionState {
+  return {
+    isRunning: false,
+    isPaused: false,
+    startTime: record.startTime,
+    endTime: record.endTime,
+    runningTaskIds: new Set(),
+    executionOrder: record.executionOrder,
+    taskResults: new Map(record.taskResults.map((r) => [r.taskId, r])),
+    logs: record.logs,
+  };
+}
+
+/**
+ * Count task outcomes of a run
+ */
+export function summarizeRun(record: RunRecord): { passed: number; failed: number; skipped: number } {
+  const count = (statuses: TaskExecutionStatus[]) =>
+    record.taskResults.filter((r) => statuses.includes(r.status)).length;
+  return {
+    passed: count(['success', 'upToDate', 'fromCache']),
+    failed: count(['failed']),
+    skipped: count(['skipped']),
+  };
+}
+
+/**
+ * Diff two runs: tasks whose outcome changed, tasks that slowed down by more than the
+ * threshold, tasks that took part in only one run, and changed variable values
+ */
+export function compareRuns(base: RunRecord, other: RunRecord, threshold = DEFAULT_REGRESSION_THRESHOLD): RunComparison {
+  const baseResults = new Map(base.taskResults.map((r) => [r.taskId, r]));
+  const otherResults = new Map(other.taskResults.map((r) => [r.taskId, r]));
+
+  const outcomeChanges: OutcomeChange[] = [];
+  const regressions: DurationRegression[] = [];
+  other.taskResults.forEach((after) => {
+    const before = baseResults.get(after.taskId);
+    if (!before) return;
+    if (before.status !== after.status) {
+      outcomeChanges.push({ taskId: after.taskId, taskName: after.taskName, before: before.status, after: after.status });
+    }
+    if (before.duration && after.duration && after.duration - before.duration >= MIN_REGRESSION_MS) {
+      const change = (after.duration - before.duration) / before.duration;
+      if (change > threshold) {
+        regressions.push({
+          taskId: after.taskId,
+          taskName: after.taskName,
+          before: before.duration,
+          after: after.duration,
+          change,
+        });
+      }
+    }
+  });
+
+  const names = new Set([...Object.keys(base.variables), ...Object.keys(other.variables)]);
+  const variableChanges = [...names]
+    .filter((name) => base.variables[name] !== other.variables[name])
+    .map((name) => ({ name, before: base.variables[name], after: other.variables[name] }));
+
+  return {
+    outcomeChanges,
+    regressions: regressions.sort((a, b) => b.change - a.change),
+    onlyInBase: base.taskResults.filter((r) => !otherResults.has(r.taskId)),
+    onlyInOther: other.taskResults.filter((r) => !baseResults.has(r.taskId)),
+    variableChanges,
+  };
+}
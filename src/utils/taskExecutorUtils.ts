@@ -0,0 +1,126 @@
+import type {
+  GradleTaskNode,
+  GradleTaskType,
+  TaskExecutionResult,
+  Variable,
+} from '../types/gradle';
+import { CANCELLED_REASON, simulateTaskExecution } from './executionUtils';
+import { localBridgeExecutor } from './localBridgeUtils';
+
+/**
+ * What an executor gets to run one task
+ */
+export interface TaskExecutionContext {
+  /** Aborted when the run is stopped; the executor should end the task promptly */
+  signal: AbortSignal;
+  /** Whether the run is paused (only the simulator can suspend a task in flight) */
+  isPaused: () => boolean;
+  /** Stream output as it is produced */
+  onOutput: (text: string, stream: 'stdout' | 'stderr') => void;
+  variables: Variable[];
+  /** Random source for simulated tasks, seeded when the run is */
+  random?: () => number;
+}
+
+/**
+ * Runs tasks of one or more task types
+ */
+export interface TaskExecutor {
+  id: string;
+  label: string;
+  /** Start the task and resolve once it has finished, failed or been cancelled */
+  execute: (node: GradleTaskNode, context: TaskExecutionContext) => Promise<TaskExecutionResult>;
+}
+
+/**
+ * Executors keyed by task type, with a fallback for every other type
+ */
+export interface TaskExecutorRegistry {
+  fallback: TaskExecutor;
+  byTaskType: Partial<Record<GradleTaskType, TaskExecutor>>;
+}
+
+/**
+ * Where tasks run: in the simulator, or on this machine through the dev-server bridge
+ */
+export type ExecutionBackend = 'simulated' | 'local';
+
+/**
+ * Options for the execution backend select
+ */
+export const executionBackendOptions: { value: ExecutionBackend; label: string }[] = [
+  { value: 'simulated', label: 'Simulated' },
+  { value: 'local', label: 'Local (dev server)' },
+];
+
+/**
+ * Task types the local bridge can really run; the rest stay simulated
+ */
+export const LOCAL_TASK_TYPES: GradleTaskType[] = ['Exec', 'Copy', 'Delete', 'Zip'];
+
+/**
+ * The built-in simulator: random (or seeded) durations and outcomes, no side effects
+ */
+export const simulatorExecutor: TaskExecutor = {
+  id: 'simulator',
+  label: 'Simulator',
+  execute: async (node, context) => {
+    const startTime = Date.now();
+    const result = await simulateTaskExecution(
+      node,
+      (output) => context.onOutput(output, 'stdout'),
+      { signal: context.signal, isPaused: context.isPaused },
+      context.random
+    );
+    const endTime = Date.now();
+
+    return {
+      taskId: node.id,
+      taskName: node.data.taskName,
+      status: result.success ? 'success' : result.cancelled ? 'skipped' : 'failed',
+      startTime,
+      endTime,
+      duration: endTime - startTime,
+      output: result.output,
+      error: result.cancelled ? undefined : result.error,
+      skipReason: result.cancelled ? CANCELLED_REASON : undefined,
+    };
+  },
+};
+
+/**
+ * Create a registry where every task type uses the fallback executor
+ */
+export function createTaskExecutorRegistry(fallback: TaskExecutor = simulatorExecutor): TaskExecutorRegistry {
+  return { fallback, byTaskType: {} };
+}
+
+/**
+ * Use an executor for one task type
+ */
+export function registerTaskExecutor(
+  registry: TaskExecutorRegistry,
+  taskType: GradleTaskType,
+  executor: TaskExecutor
+): TaskExecutorRegistry {
+  return { ...registry, byTaskType: { ...registry.byTaskType, [taskType]: executor } };
+}
+
+/**
+ * Find the executor for a task type
+ */
+export function getTaskExecutor(registry: TaskExecutorRegistry, taskType: GradleTaskType): TaskExecutor {
+  return registry.byTaskType[taskType] ?? registry.fallback;
+}
+
+/**
+ * Registry for an execution backend
+ */
+export function createBackendRegistry(backend: ExecutionBackend): TaskExecutorRegistry {
+  const registry = createTaskExecutorRegistry();
+  if (backend === 'simulated') return registry;
+  return LOCAL_TASK_TYPES.reduce(
+    (result, taskType) => registerTaskExecutor(result, taskType, localBridgeExecutor),
+    registry
+  );
+}
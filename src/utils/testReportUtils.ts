@@ -0,0 +1,155 @@
+import type {
+  GradleTaskNode,
+  TestCaseResult,
+  TestCaseStatus,
+  TestReport,
+  TestSuiteResult,
+} from '../types/gradle';
+import type { TextFileType } from './fileUtils';
+
+/**
+ * File picker filter for JUnit XML reports, e.g. build/test-results/test/TEST-*.xml
+ */
+export const JUNIT_XML_FILE_TYPE: TextFileType = {
+  description: 'JUnit XML test report',
+  mimeType: 'application/xml',
+  extensions: ['.xml'],
+};
+
+/**
+ * Test counts of a report, as Gradle prints them after a Test task
+ */
+export interface TestReportSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  skipped: number;
+  /** Summed duration of the suites in milliseconds */
+  duration: number;
+}
+
+/**
+ * JUnit times are in seconds, e.g. time="0.042"
+ */
+function parseSeconds(value: string | null): number {
+  const seconds = parseFloat(value ?? '');
+  return Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : 0;
+}
+
+function childElements(element: Element, tagName: string): Element[] {
+  return Array.from(element.children).filter((child) => child.tagName === tagName);
+}
+
+function parseTestCase(element: Element): TestCaseResult {
+  const testCase: TestCaseResult = {
+    name: element.getAttribute('name') ?? '',
+    className: element.getAttribute('classname') ?? '',
+    status: 'passed',
+    duration: parseSeconds(element.getAttribute('time')),
+  };
+
+  // The first failure, error or skipped element decides the status
+  const outcomes: [string, TestCaseStatus][] = [
+    ['failure', 'failed'],
+    ['error', 'error'],
+    ['skipped', 'skipped'],
+  ];
+  for (const [tagName, status] of outcomes) {
+    const [outcome] = childElements(element, tagName);
+    if (!outcome) continue;
+    const stackTrace = outcome.textContent?.trim();
+    testCase.status = status;
+    testCase.message = outcome.getAttribute('message') ?? outcome.getAttribute('type') ?? undefined;
+    if (stackTrace) testCase.stackTrace = stackTrace;
+    break;
+  }
+  return testCase;
+}
+
+function parseTestSuite(element: Element): TestSuiteResult {
+  const cases = childElements(element, 'testcase').map(parseTestCase);
+  const time = element.getAttribute('time');
+  return {
+    name: element.getAttribute('name') ?? '',
+    duration: time !== null ? parseSeconds(time) : cases.reduce((sum, c) => sum + c.duration, 0),
+    timestamp: element.getAttribute('timestamp') ?? undefined,
+    cases,
+  };
+}
+
+/**
+ * Parse a JUnit XML report, with a <testsuite> or <testsuites> root, into its test suites.
+ * Throws when the file is not a JUnit report.
+ */
+export function parseJUnitXml(xml: string): TestSuiteResult[] {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not well-formed XML');
+  }
+
+  const root = document.documentElement;
+  if (root.tagName !== 'testsuite' && root.tagName !== 'testsuites') {
+    throw new Error(`Expected a <testsuites> or <testsuite> root element but found <${root.tagName}>`);
+  }
+
+  // Suites may nest; only those holding test cases directly are kept
+  const elements = [root, ...Array.from(root.getElementsByTagName('testsuite'))].filter(
+    (element) => element.tagName === 'testsuite' && childElements(element, 'testsuite').length === 0
+  );
+  return elements.map(parseTestSuite);
+}
+
+/**
+ * Build a report from parsed report files, e.g. the TEST-*.xml files of one CI run
+ */
+export function createTestReport(files: { name: string; suites: TestSuiteResult[] }[], importedAt: number): TestReport {
+  return {
+    fileNames: files.map((file) => file.name),
+    importedAt,
+    suites: files.flatMap((file) => file.suites),
+  };
+}
+
+export function summarizeTestReport(report: TestReport): TestReportSummary {
+  const summary: TestReportSummary = { total: 0, passed: 0, failed: 0, errors: 0, skipped: 0, duration: 0 };
+  report.suites.forEach((suite) => {
+    summary.duration += suite.duration;
+    suite.cases.forEach((testCase) => {
+      summary.total++;
+      if (testCase.status === 'passed') summary.passed++;
+      else if (testCase.status === 'failed') summary.failed++;
+      else if (testCase.status === 'error') summary.errors++;
+      else summary.skipped++;
+    });
+  });
+  return summary;
+}
+
+/**
+ * Tests that failed or errored
+ */
+export function getFailedTestCount(summary: TestReportSummary): number {
+  return summary.failed + summary.errors;
+}
+
+/**
+ * Gradle's test summary line, e.g. "12 tests completed, 2 failed, 1 skipped"
+ */
+export function formatTestSummary(summary: TestReportSummary): string {
+  const parts = [`${summary.total} tests completed`];
+  const failed = getFailedTestCount(summary);
+  if (failed > 0) parts.push(`${failed} failed`);
+  if (summary.skipped > 0) parts.push(`${summary.skipped} skipped`);
+  return parts.join(', ');
+}
+
+/**
+ * Whether failing tests in the attached report fail the task: they do unless ignoreFailures is set
+ */
+export function hasFailingTests(node: GradleTaskNode): boolean {
+  const report = node.data.testReport;
+  if (node.data.taskType !== 'Test' || !report) return false;
+  const config = (node.data.config ?? {}) as { ignoreFailures?: boolean };
+  return !config.ignoreFailures && getFailedTestCount(summarizeTestReport(report)) > 0;
+}
@@ -0,0 +1,72 @@
+import type { TaskExecutionResult, TaskExecutionStatus } from '../types/gradle';
+
+/**
+ * One task execution drawn on the timeline
+ */
+export interface TimelineBar {
+  taskId: string;
+  taskName: string;
+  status: TaskExecutionStatus;
+  start: number;
+  /** Current time for a task that is still running */
+  end: number;
+  lane: number;
+  result: TaskExecutionResult;
+}
+
+/**
+ * Bars of a run, laid out in lanes
+ */
+export interface TimelineLayout {
+  bars: TimelineBar[];
+  laneLabels: string[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Lay out every task that started as a bar. Overlapping tasks go to separate lanes, one
+ * per worker; when nothing overlapped (a sequential run) each task gets its own lane.
+ */
+export function getTimelineLayout(results: TaskExecutionResult[], now: number): TimelineLayout {
+  const started = results
+    .filter((r) => r.startTime !== undefined)
+    .map((r) => ({ result: r, start: r.startTime!, end: r.endTime ?? Math.max(now, r.startTime!) }))
+    .sort((a, b) => a.start - b.start);
+
+  // Greedy interval partitioning: the first worker lane free when the task starts
+  const laneEnds: number[] = [];
+  const lanes = started.map(({ start, end }) => {
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = end;
+    return lane;
+  });
+  const sequential = laneEnds.length <= 1;
+
+  const bars = started.map(({ result, start, end }, index) => ({
+    taskId: result.taskId,
+    taskName: result.taskName,
+    status: result.status,
+    start,
+    end,
+    lane: sequential ? index : lanes[index],
+    result,
+  }));
+
+  return {
+    bars,
+    laneLabels: sequential ? bars.map((bar) => bar.taskName) : laneEnds.map((_, i) => `Worker ${i + 1}`),
+    start: started.length > 0 ? started[0].start : now,
+    end: started.reduce((latest, bar) => Math.max(latest, bar.end), started.length > 0 ? started[0].start : now),
+  };
+}
+
+/**
+ * Distance between time axis ticks: a round step giving about the requested number of ticks
+ */
+export function getTickStep(span: number, targetTicks = 8): number {
+  const raw = Math.max(span / targetTicks, 1);
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  return [1, 2, 5, 10].map((m) => m * magnitude).find((step) => step >= raw)!;
+}
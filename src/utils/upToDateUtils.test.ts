@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { GradleTaskNode, GradleTaskNodeData, TestReport, Variable } from '../types/gradle';
+import { checkUpToDate, createIncrementalState, getTaskFileSets, recordTaskExecution } from './upToDateUtils';
+
+const variables: Variable[] = [
+  { id: 'var_out', name: 'out', type: 'path', defaultValue: 'build/out', value: 'build/out' },
+];
+
+function task(id: string, data: Pick<GradleTaskNodeData, 'taskType'> & Partial<GradleTaskNodeData>): GradleTaskNode {
+  return { id, type: 'gradleTask', position: { x: 0, y: 0 }, data: { ...data, taskName: id } };
+}
+
+function report(failures: number): TestReport {
+  return {
+    fileNames: ['TEST-AppTest.xml'],
+    importedAt: Date.now(),
+    suites: [{
+      name: 'AppTest',
+      duration: 12,
+      cases: Array.from({ length: failures + 1 }, (_, index) => ({
+        name: `case${index}`,
+        className: 'AppTest',
+        duration: 4,
+        status: index < failures ? 'failed' : 'passed',
+      })),
+    }],
+  };
+}
+
+const copy = task('copyDocs', { taskType: 'Copy', config: { from: ['./docs/'], into: '${out}' } });
+const zip = task('zipDocs', { taskType: 'Zip', config: { from: ['build/out'], archiveFileName: 'docs.zip' } });
+
+describe('getTaskFileSets', () => {
+  it('derives inputs and outputs from the configuration with variables resolved', () => {
+    expect(getTaskFileSets(copy, variables)).toEqual({ inputs: ['docs'], outputs: ['build/out'] });
+    expect(getTaskFileSets(zip, variables)).toEqual({ inputs: ['build/out'], outputs: ['build/distributions/docs.zip'] });
+  });
+});
+
+describe('checkUpToDate', () => {
+  it('always runs tasks without outputs', () => {
+    const exec = task('hello', { taskType: 'Exec', config: { commandLine: ['echo', 'hi'] } });
+    const state = createIncrementalState();
+    recordTaskExecution(exec, variables, state, true);
+
+    expect(checkUpToDate(exec, variables, state)).toEqual({ upToDate: false, reasons: ['Task has not declared any outputs'] });
+  });
+
+  it('is up to date after a successful run and not after a failed one', () => {
+    const state = createIncrementalState();
+    expect(checkUpToDate(copy, variables, state).reasons).toEqual(['No history is available']);
+
+    recordTaskExecution(copy, variables, state, true);
+    expect(checkUpToDate(copy, variables, state)).toEqual({ upToDate: true, reasons: [] });
+
+    recordTaskExecution(copy, variables, state, false);
+    expect(checkUpToDate(copy, variables, state).upToDate).toBe(false);
+  });
+
+  it('reports changed properties', () => {
+    const state = createIncrementalState();
+    recordTaskExecution(copy, variables, state, true);
+    const changed = task('copyDocs', { taskType: 'Copy', config: { from: ['./docs/'], into: '${out}', include: ['*.md'] } });
+
+    expect(checkUpToDate(changed, variables, state).reasons).toEqual(['Property config.include has changed']);
+  });
+
+  it('reports inputs written by another task since the last run', () => {
+    const state = createIncrementalState();
+    recordTaskExecution(copy, variables, state, true);
+    recordTaskExecution(zip, variables, state, true);
+    recordTaskExecution(copy, variables, state, true);
+
+    expect(checkUpToDate(zip, variables, state).reasons).toEqual(['Input build/out was written by copyDocs']);
+  });
+
+  it('reports outputs deleted since the last run', () => {
+    const state = createIncrementalState();
+    recordTaskExecution(copy, variables, state, true);
+    recordTaskExecution(task('clean', { taskType: 'Delete', config: { delete: ['build'] } }), variables, state, true);
+
+    expect(checkUpToDate(copy, variables, state).reasons).toEqual(['Output build/out was deleted by clean']);
+  });
+
+  it('treats new test results as a property change, and the same results as none', () => {
+    const state = createIncrementalState();
+    const testTask = task('test', { taskType: 'Test', outputs: ['build/test-results'], testReport: report(0) });
+    recordTaskExecution(testTask, variables, state, true);
+
+    expect(checkUpToDate({ ...testTask, data: { ...testTask.data, testReport: report(0) } }, variables, state).upToDate).toBe(true);
+    expect(checkUpToDate({ ...testTask, data: { ...testTask.data, testReport: report(1) } }, variables, state).reasons).toEqual([
+      'Property testReport has changed',
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+import type { GradleTaskNode, TestReport, Variable } from '../types/gradle';
+import { hashString } from './executionUtils';
+import { resolveConfigVariables } from './variableUtils';
+
+/**
+ * Files and directories a task reads and writes
+ */
+export interface TaskFileSets {
+  inputs: string[];
+  outputs: string[];
+}
+
+/**
+ * What a task looked like when it last ran successfully
+ */
+export interface TaskFingerprint {
+  /** Resolved configuration values by property name, serialized */
+  properties: Record<string, string>;
+  /** Change version of each input and output path when the task ran */
+  fileVersions: Record<string, number>;
+}
+
+/**
+ * A path written or deleted by a task that executed
+ */
+export interface FileChange {
+  path: string;
+  version: number;
+  taskName: string;
+  kind: 'written' | 'deleted';
+  /** Identity of the written content (the writer's content key), so identical rebuilds match */
+  content: string;
+}
+
+/**
+ * History kept between runs to decide which tasks are up to date
+ */
+export interface IncrementalState {
+  fingerprints: Map<string, TaskFingerprint>;
+  changes: FileChange[];
+  version: number;
+}
+
+/**
+ * Result of an up-to-date check, with Gradle-style reasons when the task must run
+ */
+export interface UpToDateCheck {
+  upToDate: boolean;
+  reasons: string[];
+}
+
+export function createIncrementalState(): IncrementalState {
+  return { fingerprints: new Map(), changes: [], version: 0 };
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item !== '') : [];
+}
+
+function normalizePath(path: string): string {
+  return path.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Declared inputs and outputs plus those implied by the task's configuration,
+ * e.g. Copy `from`/`into` or an archive's destination directory
+ */
+export function getTaskFileSets(node: GradleTaskNode, variables: Variable[]): TaskFileSets {
+  const data = resolveConfigVariables(
+    { config: node.data.config ?? {}, inputs: node.data.inputs, outputs: node.data.outputs },
+    variables
+  ) as { config: Record<string, unknown>; inputs?: string[]; outputs?: string[] };
+  const config = data.config;
+  const inputs = stringList(data.inputs);
+  const outputs = stringList(data.outputs);
+
+  switch (node.data.taskType) {
+    case 'Copy':
+      inputs.push(...stringList(config.from));
+      if (typeof config.into === 'string' && config.into) outputs.push(config.into);
+      break;
+    case 'Zip':
+    case 'Jar': {
+      inputs.push(...stringList(config.from));
+      const directory = typeof config.destinationDirectory === 'string' && config.destinationDirectory
+        ? config.destinationDirectory
+        : node.data.taskType === 'Jar' ? 'build/libs' : 'build/distributions';
+      const fileName = typeof config.archiveFileName === 'string' && config.archiveFileName ? config.archiveFileName : '';
+      outputs.push(fileName ? `${directory}/${fileName}` : directory);
+      break;
+    }
+    case 'Exec':
+      if (typeof config.workingDir === 'string' && config.workingDir) inputs.push(config.workingDir);
+      break;
+  }
+
+  return {
+    inputs: [...new Set(inputs.map(normalizePath))],
+    outputs: [...new Set(outputs.map(normalizePath))],
+  };
+}
+
+/**
+ * Paths a task changes when it executes: its outputs, or what it deletes
+ */
+function getTaskChanges(node: GradleTaskNode, variables: Variable[]): { path: string; kind: FileChange['kind'] }[] {
+  if (node.data.taskType === 'Delete') {
+    const config = resolveConfigVariables(node.data.config ?? {}, variables) as Record<string, unknown>;
+    return stringList(config.delete).map((path) => ({ path: normalizePath(path), kind: 'deleted' }));
+  }
+  return getTaskFileSets(node, variables).outputs.map((path) => ({ path, kind: 'written' }));
+}
+
+function overlaps(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+}
+
+/**
+ * Latest change to a path, its parents or anything below it
+ */
+function latestChange(state: IncrementalState, path: string): FileChange | undefined {
+  return state.changes.reduce<FileChange | undefined>(
+    (latest, change) => (overlaps(change.path, path) && (!latest || change.version > latest.version) ? change : latest),
+    undefined
+  );
+}
+
+/**
+ * 64-bit digest of a text as 16 hex digits, from two independent 32-bit hashes
+ */
+function digest(text: string): string {
+  return [hashString(text), hashString(text, 0x01000193)].map((hash) => hash.toString(16).padStart(8, '0')).join('');
+}
+
+/**
+ * Digest of the attached test results; importing the same results again gives the same digest
+ */
+function testReportDigest(report: TestReport): string {
+  return digest(JSON.stringify(report.suites));
+}
+
+function resolvedProperties(node: GradleTaskNode, variables: Variable[]): Record<string, string> {
+  const config = resolveConfigVariables(node.data.config ?? {}, variables) as Record<string, unknown>;
+  const properties: Record<string, string> = { taskType: node.data.taskType };
+  Object.entries(config).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') properties[`config.${key}`] = JSON.stringify(value);
+  });
+
+  const { inputs, outputs } = getTaskFileSets(node, variables);
+  properties.inputs = JSON.stringify(inputs);
+  properties.outputs = JSON.stringify(outputs);
+  if (node.data.testReport) properties.testReport = testReportDigest(node.data.testReport);
+  return properties;
+}
+
+/**
+ * Deterministic identity of what a task produces: its type, resolved configuration, attached
+ * test results and the content of its inputs. Used as the build cache key and to identify written outputs.
+ */
+export function computeTaskContentKey(node: GradleTaskNode, variables: Variable[], state: IncrementalState): string {
+  const inputContents: Record<string, string> = {};
+  getTaskFileSets(node, variables).inputs.forEach((path) => {
+    inputContents[path] = latestChange(state, path)?.content ?? 'source';
+  });
+  return digest(JSON.stringify({ properties: resolvedProperties(node, variables), inputContents }));
+}
+
+function computeFingerprint(node: GradleTaskNode, variables: Variable[], state: IncrementalState): TaskFingerprint {
+  const properties = resolvedProperties(node, variables);
+  const { inputs, outputs } = getTaskFileSets(node, variables);
+  const fileVersions: Record<string, number> = {};
+  [...inputs, ...outputs].forEach((path) => {
+    fileVersions[path] = latestChange(state, path)?.version ?? 0;
+  });
+  return { properties, fileVersions };
+}
+
+/**
+ * Decide whether a task can be skipped as UP-TO-DATE: it has outputs, ran successfully
+ * before, and neither its configuration nor its input and output files changed since
+ */
+export function checkUpToDate(node: GradleTaskNode, variables: Variable[], state: IncrementalState): UpToDateCheck {
+  const { inputs, outputs } = getTaskFileSets(node, variables);
+  if (outputs.length === 0) {
+    return { upToDate: false, reasons: ['Task has not declared any outputs'] };
+  }
+
+  const previous = state.fingerprints.get(node.id);
+  if (!previous) {
+    return { upToDate: false, reasons: ['No history is available'] };
+  }
+
+  const current = computeFingerprint(node, variables, state);
+  const reasons: string[] = [];
+  const propertyNames = new Set([...Object.keys(previous.properties), ...Object.keys(current.properties)]);
+  propertyNames.forEach((name) => {
+    if (previous.properties[name] !== current.properties[name]) {
+      reasons.push(`Property ${name} has changed`);
+    }
+  });
+
+  const describe = (kind: 'Input' | 'Output', path: string) => {
+    const change = latestChange(state, path);
+    if (change && current.fileVersions[path] !== previous.fileVersions[path]) {
+      reasons.push(`${kind} ${path} was ${change.kind} by ${change.taskName}`);
+    }
+  };
+  inputs.forEach((path) => describe('Input', path));
+  outputs.forEach((path) => describe('Output', path));
+
+  return { upToDate: reasons.length === 0, reasons };
+}
+
+/**
+ * Record that a task executed: its outputs (or deleted paths) change, and a successful
+ * run becomes the baseline for its next up-to-date check
+ */
+export function recordTaskExecution(
+  node: GradleTaskNode,
+  variables: Variable[],
+  state: IncrementalState,
+  success: boolean
+): void {
+  const content = computeTaskContentKey(node, variables, state);
+  getTaskChanges(node, variables).forEach(({ path, kind }) => {
+    state.version += 1;
+    state.changes = [
+      ...state.changes.filter((change) => change.path !== path),
+      { path, kind, version: state.version, taskName: node.data.taskName, content: kind === 'deleted' ? 'deleted' : content },
+    ];
+  });
+
+  if (success) {
+    state.fingerprints.set(node.id, computeFingerprint(node, variables, state));
+  } else {
+    state.fingerprints.delete(node.id);
+  }
+}
@@ -54,6 +54,20 @@ export function resolveVariables(
   return { resolved, unresolvedVars };
 }
 
+/**
+ * Replace variable references in every string of a task's configuration
+ */
+export function resolveConfigVariables(value: unknown, variables: Variable[]): unknown {
+  if (typeof value === 'string') return resolveVariables(value, variables).resolved;
+  if (Array.isArray(value)) return value.map((item) => resolveConfigVariables(item, variables));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveConfigVariables(item, variables)])
+    );
+  }
+  return value;
+}
+
 /**
  * Validate a variable name
  */
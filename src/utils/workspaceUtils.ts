@@ -0,0 +1,183 @@
+import type {
+  ExecutionState,
+  GraphDocument,
+  SavedExecutionState,
+  Workspace,
+  WorkspaceSummary,
+} from '../types/gradle';
+
+const DATABASE_NAME = 'gradle-flow';
+const DATABASE_VERSION = 1;
+const WORKSPACE_STORE = 'workspaces';
+const SETTINGS_STORE = 'settings';
+const LAST_WORKSPACE_KEY = 'lastWorkspaceId';
+
+/**
+ * Delay between the last edit and the autosave write
+ */
+export const AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * State of the most recent autosave, shown in the canvas toolbar
+ */
+export type AutosaveStatus =
+  | { state: 'idle' }
+  | { state: 'saving' }
+  | { state: 'saved'; savedAt: number }
+  | { state: 'error'; message: string };
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create on first use) the workspace database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+          db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. storage blocked)
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Run a single request against an object store and resolve with its result
+ */
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Storage transaction aborted'));
+  });
+}
+
+/**
+ * Generate a unique workspace ID
+ */
+export function generateWorkspaceId(): string {
+  return `ws_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * List all stored workspaces, most recently saved first
+ */
+export async function listWorkspaces(): Promise<WorkspaceSummary[]> {
+  const workspaces = await runRequest<Workspace[]>(WORKSPACE_STORE, 'readonly', (store) => store.getAll());
+  return workspaces
+    .map((ws) => ({
+      id: ws.id,
+      name: ws.document.metadata.name,
+      taskCount: ws.document.nodes.length,
+      fileName: ws.fileName,
+      savedAt: ws.savedAt,
+    }))
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Load a workspace by ID
+ */
+export async function getWorkspace(id: string): Promise<Workspace | undefined> {
+  return runRequest<Workspace | undefined>(WORKSPACE_STORE, 'readonly', (store) => store.get(id));
+}
+
+/**
+ * Find the workspace that was opened from or saved to a file
+ */
+export async function findWorkspaceByFileName(fileName: string): Promise<Workspace | undefined> {
+  const workspaces = await runRequest<Workspace[]>(WORKSPACE_STORE, 'readonly', (store) => store.getAll());
+  return workspaces
+    .filter((ws) => ws.fileName === fileName)
+    .sort((a, b) => b.savedAt - a.savedAt)[0];
+}
+
+/**
+ * Create or replace a workspace
+ */
+export async function putWorkspace(workspace: Workspace): Promise<void> {
+  await runRequest(WORKSPACE_STORE, 'readwrite', (store) => store.put(workspace));
+}
+
+/**
+ * Delete a workspace
+ */
+export async function deleteWorkspace(id: string): Promise<void> {
+  await runRequest(WORKSPACE_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Get the ID of the workspace that was open when the app was last used
+ */
+export async function getLastWorkspaceId(): Promise<string | undefined> {
+  return runRequest<string | undefined>(SETTINGS_STORE, 'readonly', (store) => store.get(LAST_WORKSPACE_KEY));
+}
+
+/**
+ * Remember which workspace is open
+ */
+export async function setLastWorkspaceId(id: string): Promise<void> {
+  await runRequest(SETTINGS_STORE, 'readwrite', (store) => store.put(id, LAST_WORKSPACE_KEY));
+}
+
+/**
+ * Convert execution state for storage. A run that was still in progress is stored
+ * as stopped, with its unfinished tasks dropped.
+ */
+export function saveExecutionState(state: ExecutionState): SavedExecutionState {
+  const unfinished = new Set(['pending', 'running']);
+  return {
+    isRunning: false,
+    isPaused: false,
+    startTime: state.startTime,
+    endTime: state.endTime,
+    executionOrder: state.executionOrder,
+    logs: state.logs,
+    taskResults: [...state.taskResults.values()].filter((r) => !unfinished.has(r.status)),
+  };
+}
+
+/**
+ * Restore execution state saved with a workspace
+ */
+export function restoreExecutionState(saved: SavedExecutionState): ExecutionState {
+  return {
+    ...saved,
+    runningTaskIds: new Set(),
+    taskResults: new Map(saved.taskResults.map((r) => [r.taskId, r])),
+  };
+}
+
+/**
+ * Check whether two documents describe the same graph (ignoring metadata and viewport)
+ */
+export function isSameGraph(a: GraphDocument, b: GraphDocument): boolean {
+  const content = (doc: GraphDocument) =>
+    JSON.stringify({ nodes: doc.nodes, edges: doc.edges, variables: doc.variables });
+  return content(a) === content(b);
+}
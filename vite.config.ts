@@ -1,7 +1,15 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { executorBridge } from './server/executorBridge'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  // The local execution bridge runs commands on this machine, so it is opt-in:
+  // set GRADLE_FLOW_LOCAL_BRIDGE=true in the environment or in .env.local
+  const env = loadEnv(mode, process.cwd(), 'GRADLE_FLOW_')
+  const localBridge = env.GRADLE_FLOW_LOCAL_BRIDGE === 'true'
+
+  return {
+    plugins: [react(), ...(localBridge ? [executorBridge()] : [])],
+  }
 })